@@ -79,6 +79,12 @@ export default function ModelDocPage({ params }: ModelDocPageProps) {
           >
             View comparison
           </Link>
+          <Link
+            href={"/docs/models/" + doc.slug + "/stability"}
+            className="inline-flex items-center gap-1 rounded-full border border-slate-200 px-3 py-1 text-[0.65rem] font-semibold text-slate-700 transition hover:bg-slate-100 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800"
+          >
+            Stability vs speed
+          </Link>
         </div>
         <div className="mt-6 inline-flex items-center gap-3 rounded-full border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 shadow-sm dark:border-slate-800 dark:bg-slate-900 dark:text-slate-200">
           <span>Default scenario:</span>
@@ -0,0 +1,77 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { StabilityPanel } from "@/components/StabilityPanel";
+import { bootModels } from "@/lib/models";
+import { getModelDocBySlug, getModelDocs } from "@/lib/contentlayer";
+import { vehicleParamsFromModel } from "@/lib/scenarios/canonical/common";
+import { getModel } from "@/lib/sim/registry";
+import { siteConfig } from "@/lib/seo";
+import { activeChassisFromParams } from "@/lib/vehicle/activeChassis";
+
+bootModels();
+
+interface StabilityPageProps {
+  params: { slug: string };
+}
+
+export function generateStaticParams() {
+  return getModelDocs().map((doc) => ({ slug: doc.slug }));
+}
+
+export function generateMetadata({ params }: StabilityPageProps) {
+  const doc = getModelDocBySlug(params.slug);
+  if (!doc) {
+    return {};
+  }
+
+  const url = siteConfig.url + "/docs/models/" + doc.slug + "/stability";
+  const title = doc.title + " stability vs speed";
+  const description = "Root locus, natural frequency and damping of the " + doc.title + " yaw mode against speed.";
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: { title, description, url, type: "article" },
+  };
+}
+
+export default function StabilityPage({ params }: StabilityPageProps) {
+  const doc = getModelDocBySlug(params.slug);
+  if (!doc) {
+    notFound();
+  }
+
+  const defaults = (getModel(doc.modelId)?.defaults ?? {}) as Record<string, unknown>;
+  const vehicle = vehicleParamsFromModel(defaults);
+  const actuators = activeChassisFromParams(defaults);
+
+  return (
+    <div className="pb-16 pt-12">
+      <div className="mx-auto w-full max-w-4xl px-4 sm:px-6 lg:px-0">
+        <p className="text-sm font-semibold uppercase tracking-wide text-brand-600 dark:text-brand-300">
+          {doc.modelId.toUpperCase()}
+        </p>
+        <h1 className="mt-4 text-4xl font-semibold tracking-tight text-slate-900 dark:text-white">
+          Stability vs speed
+        </h1>
+        <p className="mt-3 text-lg text-slate-600 dark:text-slate-300">
+          Eigenvalues of the linear bicycle (v<sub>y</sub>, r) mode for the {doc.title} defaults, swept over forward
+          speed. An understeering car stays stable and its yaw gain peaks at the characteristic speed. An oversteering
+          car has a critical speed, and above it one real pole crosses into the right half-plane.
+        </p>
+        <div className="mt-4 inline-flex items-center gap-2 text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          <Link
+            href={"/docs/models/" + doc.slug}
+            className="inline-flex items-center gap-1 rounded-full bg-slate-900 px-3 py-1 text-[0.65rem] font-semibold text-white transition hover:bg-slate-700 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-200"
+          >
+            Back to {doc.title}
+          </Link>
+        </div>
+      </div>
+      <div className="mx-auto mt-10 w-full max-w-4xl px-4 sm:px-6 lg:px-0">
+        <StabilityPanel vehicle={vehicle} actuators={actuators} />
+      </div>
+    </div>
+  );
+}
@@ -20,6 +20,31 @@ const highlights: Record<string, { strengths: string; bestFor: string; notes?: s
     bestFor: "Handling balance studies, validation sweeps, and comparing measured vs. simulated telemetry.",
     notes: "Enable validation badges to benchmark skidpad targets or constant-radius runs.",
   },
+  pacejka2dof: {
+    strengths: "Magic Formula tyres saturate smoothly and fall away past the peak slip angle.",
+    bestFor: "Limit handling, drift onset, and checking where the linear bicycle stops being valid.",
+    notes: "Watch the front/rear utilisation notes to see which axle reaches its peak first.",
+  },
+  long3dof: {
+    strengths: "Forward speed is a state driven by throttle, brakes, rolling resistance and aero drag.",
+    bestFor: "Braking-in-turn, acceleration out of corners, and any manoeuvre where speed changes.",
+    notes: "Pair with the Brake in Turn or Accelerate out of Corner scenarios.",
+  },
+  twintrack: {
+    strengths: "Per-corner vertical load, slip angle and tyre force with lateral and longitudinal load transfer.",
+    bestFor: "Chassis balance work where individual wheel loads and inside-wheel unloading matter.",
+    notes: "Per-wheel Fz, Fx, Fy, slip and utilisation appear as notes channels (e.g. FzFrontLeft).",
+  },
+  tractortrailer: {
+    strengths: "Articulated tractor and semitrailer coupled through the fifth wheel, with hitch angle as a state.",
+    bestFor: "Heavy-vehicle step-steer and lane-change checks, trailer sway and jack-knife margins.",
+    notes: "The jackKnife and trailerSway notes flag a runaway hitch angle or an undamped trailer oscillation.",
+  },
+  motorcycle: {
+    strengths: "Single-track with a lean degree of freedom, camber thrust, trail and a balancing rider.",
+    bestFor: "Counter-steer demonstrations, lean-angle targets and two-wheeler turn entry.",
+    notes: "The steer input is a turn request; switch off riderControl to drive the bars directly and watch it capsize.",
+  },
 };
 
 const formatCount = (label: string, count: number) => {
@@ -17,6 +17,7 @@ import { getModel, listModels } from "@/lib/sim/registry";
 import { useSimStore } from "@/lib/store/simStore";
 import type { ModelParams } from "@/lib/sim/core";
 import { createMainThreadRunner, type WorkerLike } from "@/lib/sim/mainThreadRunner";
+import { randomSeed } from "@/lib/sim/random";
 import type { SimWorkerResponse } from "@/lib/sim/messages";
 import { describeSchema, type FieldDescriptor } from "@/lib/forms/schema";
 import { runBaseline } from "@/lib/validation/baseline";
@@ -45,6 +46,8 @@ const SimPageContent = () => {
   const params = useSimStore((state) => state.params);
   const speedMultiplier = useSimStore((state) => state.speedMultiplier);
   const lateralUnit = useSimStore((state) => state.lateralUnit);
+  const escEnabled = useSimStore((state) => state.escEnabled);
+  const seed = useSimStore((state) => state.seed);
   const error = useSimStore((state) => state.error);
   const baselineStatus = useSimStore((state) => state.baselineStatus);
   const baselineMetrics = useSimStore((state) => state.baselineMetrics);
@@ -93,7 +96,7 @@ const SimPageContent = () => {
     (message: SimWorkerResponse) => {
       switch (message.type) {
         case "tick":
-          actions.recordTick(message.state, message.telemetry);
+          actions.recordTick(message.state, message.telemetry, message.timing);
           break;
         case "done":
           actions.setRunning(false);
@@ -114,7 +117,7 @@ const SimPageContent = () => {
       return;
     }
 
-    const applyPreset = (payload: { modelId?: string; scenarioId?: string; params?: ModelParams; speedMultiplier?: number; lateralUnit?: "g" | "mps2" }) => {
+    const applyPreset = (payload: { modelId?: string; scenarioId?: string; params?: ModelParams; speedMultiplier?: number; lateralUnit?: "g" | "mps2"; seed?: number }) => {
       const presetModel = models.find((item) => item.id === payload.modelId) ?? models[0];
       const mergedParams = { ...presetModel.defaults, ...(payload.params ?? {}) };
       const presetScenario = scenarios.find((item) => item.id === payload.scenarioId) ?? scenarios[0];
@@ -127,6 +130,7 @@ const SimPageContent = () => {
       if (payload.lateralUnit === "g" || payload.lateralUnit === "mps2") {
         actions.setLateralUnit(payload.lateralUnit);
       }
+      actions.setSeed(typeof payload.seed === "number" ? payload.seed : randomSeed());
       form.reset(mergedParams as Record<string, unknown>);
     };
 
@@ -148,7 +152,7 @@ const SimPageContent = () => {
       try {
         const storedRaw = window.localStorage.getItem("vehicleLab:sandbox");
         if (storedRaw) {
-          const stored = JSON.parse(storedRaw) as { modelId?: string; scenarioId?: string; params?: ModelParams; speedMultiplier?: number; lateralUnit?: "g" | "mps2" };
+          const stored = JSON.parse(storedRaw) as { modelId?: string; scenarioId?: string; params?: ModelParams; speedMultiplier?: number; lateralUnit?: "g" | "mps2"; seed?: number };
           applyPreset(stored);
           if (typeof stored.speedMultiplier === "number") {
             actions.setSpeedMultiplier(stored.speedMultiplier);
@@ -219,10 +223,12 @@ const SimPageContent = () => {
       params: activeParams,
       scenarioId,
       dt: typeof activeParams.dt === "number" ? activeParams.dt : undefined,
+      seed,
       speedMultiplier,
+      esc: { enabled: escEnabled },
     });
     actions.setRunning(true);
-  }, [actions, modelId, params, scenarioId, speedMultiplier]);
+  }, [actions, escEnabled, modelId, params, scenarioId, seed, speedMultiplier]);
 
   const pauseSimulation = useCallback(() => {
     workerRef.current?.postMessage({ type: "pause" });
@@ -270,6 +276,14 @@ const SimPageContent = () => {
     [actions]
   );
 
+  const handleEscChange = useCallback(
+    (enabled: boolean) => {
+      actions.setEscEnabled(enabled);
+      workerRef.current?.postMessage({ type: "updateEsc", esc: { enabled } });
+    },
+    [actions]
+  );
+
   const handleLateralUnitChange = useCallback(
     (unit: "g" | "mps2") => {
       actions.setLateralUnit(unit);
@@ -306,6 +320,7 @@ const SimPageContent = () => {
       scenarioId,
       params: form.getValues(),
       speedMultiplier,
+      seed,
     };
     try {
       const raw = window.localStorage.getItem("vehicleLab:customPresets");
@@ -323,7 +338,7 @@ const SimPageContent = () => {
       console.error("Failed to save preset", storageError);
       setPresetBanner({ type: "error" });
     }
-  }, [form, model?.label, modelId, scenarioId, speedMultiplier]);
+  }, [form, model?.label, modelId, scenarioId, seed, speedMultiplier]);
 
 
   const handleBaselineRun = useCallback(() => {
@@ -446,12 +461,43 @@ const SimPageContent = () => {
     );
   };
 
-  const basicContent = fieldGroups.basic.map(renderField);
-  const advancedContent = fieldGroups.advanced.map(renderField);
+  const escToggle = (
+    <label key="esc" className="flex items-center gap-2 text-xs font-medium text-slate-500 dark:text-slate-300">
+      <input type="checkbox" checked={escEnabled} onChange={(event) => handleEscChange(event.target.checked)} />
+      Electronic stability control (ESC)
+    </label>
+  );
+  const seedField = (
+    <div key="seed" className="flex flex-col gap-1 text-xs font-medium text-slate-500 dark:text-slate-300">
+      <span>Noise seed</span>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          value={seed}
+          min={1}
+          step={1}
+          onChange={(event) => {
+            const value = Number(event.target.value);
+            if (value >= 1) actions.setSeed(value);
+          }}
+          className="w-full rounded-md border border-slate-300 px-2 py-1 text-sm dark:border-slate-700 dark:bg-slate-900"
+        />
+        <button
+          type="button"
+          onClick={() => actions.setSeed(randomSeed())}
+          className="rounded-md border border-slate-300 px-2 py-1 text-xs dark:border-slate-700"
+        >
+          New
+        </button>
+      </div>
+    </div>
+  );
+  const basicContent = [...fieldGroups.basic.map(renderField), escToggle];
+  const advancedContent = [...fieldGroups.advanced.map(renderField), seedField];
 
   const shareConfig = useMemo(
-    () => ({ modelId, scenarioId, params: watchedValues, lateralUnit }),
-    [lateralUnit, modelId, scenarioId, watchedValues]
+    () => ({ modelId, scenarioId, params: watchedValues, lateralUnit, seed }),
+    [lateralUnit, modelId, scenarioId, seed, watchedValues]
   );
 
   useEffect(() => {
@@ -465,12 +511,13 @@ const SimPageContent = () => {
         params: form.getValues(),
         speedMultiplier,
         lateralUnit,
+        seed,
       };
       window.localStorage.setItem("vehicleLab:sandbox", JSON.stringify(snapshot));
     } catch (storageError) {
       console.warn("Failed to persist sandbox state", storageError);
     }
-  }, [form, lateralUnit, modelId, scenarioId, speedMultiplier, watchedValues]);
+  }, [form, lateralUnit, modelId, scenarioId, seed, speedMultiplier, watchedValues]);
 
   return (
     <div className="flex min-h-[calc(100vh-6rem)] flex-col bg-slate-100 dark:bg-slate-950">
@@ -18,6 +18,8 @@ import {
 import { VehicleRig } from "@/components/VehicleRig";
 import { deriveKinematics, type PhysicsState, type Vector3Tuple, type WheelId } from "@/lib/kinematics";
 import type { VehicleTelemetry } from "@/lib/physics";
+import type { MuZone } from "@/lib/vehicle/road";
+import { DEFAULT_TYRE_THERMAL_PARAMS } from "@/lib/vehicle/tyreThermal";
 
 const background = new Color("#e2e8f0");
 
@@ -38,6 +40,9 @@ const MAX_SKID_MARKS = 240;
 const SLIP_THRESHOLD_DEG = 8;
 const UTIL_THRESHOLD = 0.55;
 const BASELINE_LENGTH = 36;
+const COOL_COLOR = new Color("#60a5fa");
+const HOT_COLOR = new Color("#ef4444");
+const OPTIMAL_TYRE_COLOR = new Color("#22c55e");
 
 const laneStripeOffsets = [-3.2, 0, 3.2];
 const roadEdgeOffsets = [-ROAD_WIDTH * 0.5 + 0.6, ROAD_WIDTH * 0.5 - 0.6];
@@ -56,13 +61,23 @@ interface SandboxCanvasProps {
   alignmentDebug: boolean;
   camberDeg: number;
   crownDeg: number;
+  muZones: MuZone[];
   vehicleSpeedMps: number;
   frontWeightDistribution: number;
+  showTyreTemperature: boolean;
 }
 
 interface RoadSurfaceProps {
   groundY: number;
   rotation: Vector3Tuple;
+  muZones: MuZone[];
+}
+
+interface MuZoneVisual {
+  key: string;
+  position: Vector3Tuple;
+  size: [number, number];
+  opacity: number;
 }
 
 interface WheelVisual {
@@ -138,8 +153,33 @@ function buildAsphaltTextures(): { color: CanvasTexture; normal: CanvasTexture }
   return { color: colorTexture, normal: normalTexture };
 }
 
-function RoadSurface({ groundY, rotation }: RoadSurfaceProps) {
+/**
+ * Clips friction zones to the rendered road. Physics x (forward) runs along scene +z and y (left)
+ * along scene +x; the plane is laid flat by a -90° x rotation, so its local v axis is -x.
+ */
+function buildMuZoneVisuals(zones: MuZone[]): MuZoneVisual[] {
+  const halfLength = ROAD_LENGTH / 2;
+  const halfWidth = ROAD_WIDTH / 2;
+  return zones.flatMap((zone, index) => {
+    const xMin = Math.max(zone.xMin, -halfLength);
+    const xMax = Math.min(zone.xMax, halfLength);
+    const yMin = Math.max(zone.yMin, -halfWidth);
+    const yMax = Math.min(zone.yMax, halfWidth);
+    if (xMax <= xMin || yMax <= yMin) return [];
+    return [
+      {
+        key: "mu-" + index,
+        position: [(yMin + yMax) / 2, -(xMin + xMax) / 2, 0.0015] as Vector3Tuple,
+        size: [yMax - yMin, xMax - xMin] as [number, number],
+        opacity: 0.2 + 0.35 * (1 - MathUtils.clamp(zone.mu, 0, 1))
+      }
+    ];
+  });
+}
+
+function RoadSurface({ groundY, rotation, muZones }: RoadSurfaceProps) {
   const textures = useMemo(buildAsphaltTextures, []);
+  const zoneVisuals = useMemo(() => buildMuZoneVisuals(muZones), [muZones]);
   const colorTexture = textures?.color;
   const normalTexture = textures?.normal;
 
@@ -167,6 +207,13 @@ function RoadSurface({ groundY, rotation }: RoadSurfaceProps) {
         />
       </mesh>
 
+      {zoneVisuals.map((zone) => (
+        <mesh key={zone.key} position={zone.position}>
+          <planeGeometry args={zone.size} />
+          <meshStandardMaterial color="#38bdf8" transparent opacity={zone.opacity} roughness={0.2} metalness={0.1} />
+        </mesh>
+      ))}
+
       {laneStripeOffsets.map((offset) => (
         <mesh key={"lane-" + offset} position={[offset, 0.002, 0]}>
           <planeGeometry args={[LANE_STRIPE_WIDTH, ROAD_LENGTH * 0.92]} />
@@ -230,11 +277,18 @@ function lerpColor(start: Color, end: Color, t: number) {
 
 
 function slipToColor(slipRadians: number) {
-  const start = new Color("#60a5fa");
-  const end = new Color("#ef4444");
   const slipDeg = Math.abs(MathUtils.radToDeg(slipRadians));
   const normalized = Math.min(slipDeg / 30, 1);
-  return lerpColor(start, end, normalized);
+  return lerpColor(COOL_COLOR, HOT_COLOR, normalized);
+}
+
+/** Same end colours as slip: blue when cold, green at the grip optimum, red once a window past it. */
+function temperatureToColor(temperature: number) {
+  const { ambientTemp, optimalTemp, tempWindow } = DEFAULT_TYRE_THERMAL_PARAMS;
+  if (temperature <= optimalTemp) {
+    return lerpColor(COOL_COLOR, OPTIMAL_TYRE_COLOR, (temperature - ambientTemp) / (optimalTemp - ambientTemp));
+  }
+  return lerpColor(OPTIMAL_TYRE_COLOR, HOT_COLOR, (temperature - optimalTemp) / tempWindow);
 }
 
 const wheelMeta: { id: WheelId; axle: "front" | "rear"; side: "left" | "right" }[] = [
@@ -265,8 +319,10 @@ export function SandboxCanvas({
   alignmentDebug,
   camberDeg,
   crownDeg,
+  muZones,
   vehicleSpeedMps,
-  frontWeightDistribution
+  frontWeightDistribution,
+  showTyreTemperature
 }: SandboxCanvasProps) {
   const [dpr, setDpr] = useState(1);
 
@@ -296,8 +352,10 @@ export function SandboxCanvas({
         alignmentDebug={alignmentDebug}
         camberDeg={camberDeg}
         crownDeg={crownDeg}
+        muZones={muZones}
         vehicleSpeedMps={vehicleSpeedMps}
         frontWeightDistribution={frontWeightDistribution}
+        showTyreTemperature={showTyreTemperature}
       />
     </Canvas>
   );
@@ -318,8 +376,10 @@ function Scene({
   alignmentDebug,
   camberDeg,
   crownDeg,
+  muZones,
   vehicleSpeedMps,
-  frontWeightDistribution
+  frontWeightDistribution,
+  showTyreTemperature
 }: SceneProps) {
   const [pose, setPose] = useState<Pose>({ x: 0, z: 0, psi: 0, phi: 0 });
   const poseRef = useRef<Pose>(pose);
@@ -363,7 +423,8 @@ function Scene({
 
     const prevPose = poseRef.current;
     const nextPsi = prevPose.psi + telemetry.yawRate * dt;
-    const nextPhi = telemetry.lateralAcceleration * -0.02;
+    // The rig rolls about +z (scene forward), opposite to the physics x-forward convention.
+    const nextPhi = -telemetry.rollAngle;
     const timeScale = dt > 0 ? dt / 0.016 : 1;
     const nextX = prevPose.x + Math.sin(nextPsi) * telemetry.lateralAcceleration * 0.002 * timeScale;
     const nextZ = prevPose.z + Math.cos(nextPsi) * telemetry.lateralAcceleration * 0.002 * timeScale;
@@ -391,12 +452,10 @@ function Scene({
       const kin = deriveKinematics(physics);
       const nowMs = typeof performance !== "undefined" ? performance.now() : Date.now();
 
-      const frontSlipDeg = Math.abs(MathUtils.radToDeg(telemetry.frontSlipAngle));
-      const rearSlipDeg = Math.abs(MathUtils.radToDeg(telemetry.rearSlipAngle));
-
-      const updateForWheel = (meta: { id: WheelId; axle: "front" | "rear" }) => {
-        const slipDeg = meta.axle === "front" ? frontSlipDeg : rearSlipDeg;
-        const utilization = meta.axle === "front" ? telemetry.frontUtilization : telemetry.rearUtilization;
+      const updateForWheel = (meta: { id: WheelId }) => {
+        const wheel = telemetry.wheels[meta.id];
+        const slipDeg = Math.abs(MathUtils.radToDeg(wheel.slipAngle));
+        const utilization = wheel.utilization;
 
         if (slipDeg < SLIP_THRESHOLD_DEG && utilization < UTIL_THRESHOLD) {
           return;
@@ -535,20 +594,14 @@ function Scene({
     if (!showForceArrows) return [] as WheelVisual[];
 
     const visuals: WheelVisual[] = [];
-    const frontForce = telemetry.frontAxleForce / 2;
-    const rearForce = telemetry.rearAxleForce / 2;
-    const frontUtil = telemetry.frontUtilization;
-    const rearUtil = telemetry.rearUtilization;
 
-    wheelMeta.forEach(({ id, axle, side }) => {
+    wheelMeta.forEach(({ id, side }) => {
       const contact = kinematics.wheels[id];
-      const axleForce = axle === "front" ? frontForce : rearForce;
-      const utilization = axle === "front" ? frontUtil : rearUtil;
-      const slip = axle === "front" ? telemetry.frontSlipAngle : telemetry.rearSlipAngle;
+      const wheel = telemetry.wheels[id];
 
-      const directionVector = lateralAxis.clone().multiplyScalar(Math.sign(axleForce || 1));
-      const length = 0.25 + Math.min(Math.abs(axleForce) * 0.003 + utilization * 0.9, 2.4);
-      const color = slipToColor(slip);
+      const directionVector = lateralAxis.clone().multiplyScalar(Math.sign(wheel.lateralForce || 1));
+      const length = 0.25 + Math.min(Math.abs(wheel.lateralForce) * 0.003 + wheel.utilization * 0.9, 2.4);
+      const color = slipToColor(wheel.slipAngle);
 
       const sideOffset = lateralAxis.clone().multiplyScalar(side === "left" ? 0.15 : -0.15);
       const position: Vector3Tuple = [
@@ -566,14 +619,18 @@ function Scene({
     kinematics.contactPatchY,
     lateralAxis,
     showForceArrows,
-    telemetry.frontAxleForce,
-    telemetry.frontSlipAngle,
-    telemetry.frontUtilization,
-    telemetry.rearAxleForce,
-    telemetry.rearSlipAngle,
-    telemetry.rearUtilization
+    telemetry.wheels
   ]);
 
+  const wheelColors = useMemo(() => {
+    if (!showTyreTemperature) return undefined;
+    const colors: Partial<Record<WheelId, string>> = {};
+    wheelMeta.forEach(({ id }) => {
+      colors[id] = temperatureToColor(telemetry.wheels[id].temperature);
+    });
+    return colors;
+  }, [showTyreTemperature, telemetry.wheels]);
+
   return (
     <>
       <color attach="background" args={[background]} />
@@ -592,7 +649,7 @@ function Scene({
 
       <Environment preset="sunset" />
 
-      <RoadSurface groundY={GROUND_Y} rotation={groundRotation} />
+      <RoadSurface groundY={GROUND_Y} rotation={groundRotation} muZones={muZones} />
       <RoadsideVegetation groundY={GROUND_Y} />
 
       {showZeroSteerBaseline && baselinePoints.length ? (
@@ -635,6 +692,7 @@ function Scene({
         showTrack={showTrack}
         groundRotation={groundRotation}
         vehicleSpeedMps={vehicleSpeedMps}
+        wheelColors={wheelColors}
       />
 
       <ContactShadows
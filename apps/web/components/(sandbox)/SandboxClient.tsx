@@ -18,7 +18,7 @@ import { Switch } from "@/components/ui/switch";
 import type { SandboxState } from "@/lib/stateSchema";
 import { defaultSandboxState, serializeStateToSearchParams } from "@/lib/stateSchema";
 import { roundTo } from "@/lib/utils";
-import { speedToMetersPerSecond } from "@/lib/physics";
+import { createSandboxRoad, speedToMetersPerSecond } from "@/lib/physics";
 import { useVehicleSimulation } from "./useVehicleSimulation";
 import { ValidationPanel } from "./ValidationPanel";
 import type { ValidationRunResult } from "@/lib/validation/runner";
@@ -41,6 +41,12 @@ const scenarioOptions = [
   { value: "no-steer", label: "No-steer flat" }
 ] as const;
 
+const surfaceOptions = [
+  { value: "uniform", label: "Uniform" },
+  { value: "splitMu", label: "Split-mu" },
+  { value: "wetPatch", label: "Wet patch" }
+] as const;
+
 const cameraOptions = [
   { value: "top", label: "Top" },
   { value: "chase", label: "Chase" },
@@ -75,6 +81,11 @@ const advancedToggles = [
     key: "showZeroSteerBaseline" as const,
     label: "Zero-steer baseline",
     description: "Overlay the straight-ahead trajectory for comparison."
+  },
+  {
+    key: "tyreThermal" as const,
+    label: "Tyre temperature",
+    description: "Heat tyres with slip and scale grip by temperature; tyres are coloured cold to hot."
   }
 ];
 
@@ -120,6 +131,7 @@ export function SandboxClient({ initialState, enable3D, isPro = false }: Sandbox
   const [state, setState] = useState<SandboxState>(initialState);
   const { samples, telemetry } = useVehicleSimulation(state);
   const vehicleSpeedMps = useMemo(() => speedToMetersPerSecond(state.speed), [state.speed]);
+  const muZones = useMemo(() => createSandboxRoad(state).zones, [state]);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const router = useRouter();
   const pathname = usePathname();
@@ -321,12 +333,14 @@ export function SandboxClient({ initialState, enable3D, isPro = false }: Sandbox
                   alignmentDebug={state.alignmentDebug}
                   camberDeg={state.visualCamberDeg}
                   crownDeg={state.visualCrownDeg}
+                  muZones={muZones}
                   vehicleSpeedMps={vehicleSpeedMps}
                   frontWeightDistribution={state.weightDistributionFront}
                   cameraMode={state.cameraMode}
                   showForceArrows={state.showForceArrows}
                   showSkidMarks={state.showSkidMarks}
                   showZeroSteerBaseline={state.showZeroSteerBaseline}
+                  showTyreTemperature={state.tyreThermal}
                 />
               ) : (
                 <div className="flex h-[520px] items-center justify-center rounded-3xl border border-dashed border-slate-300 bg-white text-center text-sm text-slate-500 dark:border-slate-700 dark:bg-slate-900">
@@ -386,6 +400,16 @@ export function SandboxClient({ initialState, enable3D, isPro = false }: Sandbox
                   {balance.label}
                 </span>
                 <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">Gradient: {roundTo(telemetry.understeerGradient, 3)} deg/g</p>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  Roll: {roundTo(MathUtils.radToDeg(telemetry.rollAngle), 1)}
+                  {DEGREE_SYMBOL}
+                </p>
+                {state.tyreThermal ? (
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Tyres: {roundTo(telemetry.frontTyreTemp, 0)} / {roundTo(telemetry.rearTyreTemp, 0)}
+                    {DEGREE_SYMBOL}C, mu {roundTo(telemetry.frontMu, 2)} / {roundTo(telemetry.rearMu, 2)}
+                  </p>
+                ) : null}
               </div>
             </div>
 
@@ -569,6 +593,43 @@ export function SandboxClient({ initialState, enable3D, isPro = false }: Sandbox
             </div>
           </section>
 
+          <section className="space-y-3">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Road surface</h3>
+            <div role="radiogroup" className="grid grid-cols-3 gap-2">
+              {surfaceOptions.map((option) => {
+                const isActive = state.muLayout === option.value;
+                return (
+                  <button
+                    key={option.value}
+                    type="button"
+                    role="radio"
+                    aria-checked={isActive}
+                    data-active={isActive}
+                    className={`${radioBaseClasses} ${radioActiveClasses} ${radioInactiveClasses} text-center`}
+                    onClick={() => handleStateChange({ muLayout: option.value })}
+                  >
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+            {state.muLayout !== "uniform" ? (
+              <div className="flex items-center justify-between gap-3">
+                <Label htmlFor="sandbox-mu-low">Low-mu zone grip</Label>
+                <Input
+                  id="sandbox-mu-low"
+                  type="number"
+                  min={0.1}
+                  max={1.5}
+                  step={0.05}
+                  value={roundTo(state.muLow, 2)}
+                  onChange={(event) => handleStateChange({ muLow: Number(event.target.value) })}
+                  className="w-24"
+                />
+              </div>
+            ) : null}
+          </section>
+
           <section className="space-y-3">
             <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Camera</h3>
             <div role="radiogroup" className="grid grid-cols-3 gap-2">
@@ -702,6 +763,98 @@ export function SandboxClient({ initialState, enable3D, isPro = false }: Sandbox
                 </div>
               </div>
 
+              <div className="space-y-3">
+                <Label htmlFor="sandbox-spring">Spring rate (N/mm)</Label>
+                <div className="flex items-center gap-3">
+                  <Slider
+                    id="sandbox-spring"
+                    value={[state.springRate]}
+                    min={20}
+                    max={160}
+                    step={1}
+                    onValueChange={([value]) => handleStateChange({ springRate: value })}
+                  />
+                  <Input
+                    type="number"
+                    min={20}
+                    max={160}
+                    step={1}
+                    value={roundTo(state.springRate, 0)}
+                    onChange={(event) => handleStateChange({ springRate: Number(event.target.value) })}
+                    className="w-24"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <Label htmlFor="sandbox-damper">Damper (Ns/m)</Label>
+                <div className="flex items-center gap-3">
+                  <Slider
+                    id="sandbox-damper"
+                    value={[state.damper]}
+                    min={1000}
+                    max={4000}
+                    step={50}
+                    onValueChange={([value]) => handleStateChange({ damper: value })}
+                  />
+                  <Input
+                    type="number"
+                    min={1000}
+                    max={4000}
+                    step={50}
+                    value={roundTo(state.damper, 0)}
+                    onChange={(event) => handleStateChange({ damper: Number(event.target.value) })}
+                    className="w-24"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <Label htmlFor="sandbox-arb">Anti-roll balance (front share)</Label>
+                <div className="flex items-center gap-3">
+                  <Slider
+                    id="sandbox-arb"
+                    value={[state.antiRoll]}
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    onValueChange={([value]) => handleStateChange({ antiRoll: Number(value.toFixed(2)) })}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={roundTo(state.antiRoll, 2)}
+                    onChange={(event) => handleStateChange({ antiRoll: Number(event.target.value) })}
+                    className="w-24"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <Label htmlFor="sandbox-static-camber">Static camber (deg)</Label>
+                <div className="flex items-center gap-3">
+                  <Slider
+                    id="sandbox-static-camber"
+                    value={[state.camber]}
+                    min={-5}
+                    max={5}
+                    step={0.1}
+                    onValueChange={([value]) => handleStateChange({ camber: Number(value.toFixed(1)) })}
+                  />
+                  <Input
+                    type="number"
+                    min={-5}
+                    max={5}
+                    step={0.1}
+                    value={roundTo(state.camber, 1)}
+                    onChange={(event) => handleStateChange({ camber: Number(event.target.value) })}
+                    className="w-24"
+                  />
+                </div>
+              </div>
+
               <div className="space-y-3">
                 <Label htmlFor="sandbox-amplitude">Steering amplitude (deg)</Label>
                 <div className="flex items-center gap-3">
@@ -808,7 +961,7 @@ export function SandboxClient({ initialState, enable3D, isPro = false }: Sandbox
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="sandbox-crown">Road crown (deg)</Label>
+                  <Label htmlFor="sandbox-crown">Road crown / bank (deg)</Label>
                   <Input
                     id="sandbox-crown"
                     type="number"
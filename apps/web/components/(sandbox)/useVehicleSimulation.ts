@@ -10,9 +10,11 @@ import {
   steeringForState,
   stepBicycleModel,
   type SimulationSample,
-  type VehicleTelemetry
+  type VehicleTelemetry,
+  type WheelTelemetry
 } from "@/lib/physics";
 import { simStateBus } from "@/lib/sim/stateBus";
+import { DEFAULT_TYRE_THERMAL_PARAMS } from "@/lib/vehicle/tyreThermal";
 
 interface VehicleSimulationResult {
   samples: SimulationSample[];
@@ -23,6 +25,14 @@ const TARGET_DT = 1 / 60;
 const CHART_UPDATE_INTERVAL = 1 / 20;
 const SMOOTHING_WINDOW = 8;
 
+const idleWheel: WheelTelemetry = {
+  load: 0,
+  lateralForce: 0,
+  slipAngle: 0,
+  utilization: 0,
+  temperature: DEFAULT_TYRE_THERMAL_PARAMS.ambientTemp
+};
+
 const initialTelemetry: VehicleTelemetry = {
   yawRate: 0,
   lateralAcceleration: 0,
@@ -40,7 +50,21 @@ const initialTelemetry: VehicleTelemetry = {
   lateralVelocity: 0,
   longitudinalSpeed: 0,
   understeerGradient: 0,
-  steeringAngle: 0
+  steeringAngle: 0,
+  rollAngle: 0,
+  rollRate: 0,
+  frontLoadTransfer: 0,
+  rearLoadTransfer: 0,
+  frontTyreTemp: DEFAULT_TYRE_THERMAL_PARAMS.ambientTemp,
+  rearTyreTemp: DEFAULT_TYRE_THERMAL_PARAMS.ambientTemp,
+  frontMu: 1,
+  rearMu: 1,
+  wheels: {
+    frontLeft: idleWheel,
+    frontRight: idleWheel,
+    rearLeft: idleWheel,
+    rearRight: idleWheel
+  }
 };
 
 export function useVehicleSimulation(state: SandboxState): VehicleSimulationResult {
@@ -82,8 +106,7 @@ export function useVehicleSimulation(state: SandboxState): VehicleSimulationResu
         inputs.steeringAngle = steeringForState(state, elapsed);
 
         const result = stepBicycleModel(vehicleState, inputs, params, TARGET_DT);
-        vehicleState.yawRate = result.state.yawRate;
-        vehicleState.lateralVelocity = result.state.lateralVelocity;
+        Object.assign(vehicleState, result.state);
         latestTelemetry = result.telemetry;
 
         simStateBus.publish({
@@ -97,6 +120,7 @@ export function useVehicleSimulation(state: SandboxState): VehicleSimulationResu
           state: {
             r: result.state.yawRate,
             vy: result.state.lateralVelocity,
+            phi: result.state.roll,
           },
           params: state,
           modelId: "sandbox-bicycle",
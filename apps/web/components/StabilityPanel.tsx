@@ -0,0 +1,164 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+  ZAxis,
+} from "recharts";
+
+import { InfoTooltip } from "@/components/InfoTooltip";
+import { Slider } from "@/components/ui/slider";
+import { computeHandlingSpeeds, sweepStability } from "@/lib/theory/stability";
+import type { ActiveChassisParams } from "@/lib/vehicle/activeChassis";
+import type { VehicleParams } from "@/lib/vehicle/params";
+
+type StabilityPanelProps = {
+  vehicle: VehicleParams;
+  actuators?: ActiveChassisParams;
+};
+
+const MIN_SWEEP_SPEED = 60;
+const MAX_SWEEP_SPEED = 120;
+
+const formatSpeed = (speed: number | null) =>
+  speed === null ? "—" : speed.toFixed(1) + " m/s (" + (speed * 3.6).toFixed(0) + " km/h)";
+
+export function StabilityPanel({ vehicle, actuators }: StabilityPanelProps) {
+  const [rearStiffnessScale, setRearStiffnessScale] = useState(1);
+
+  const sweep = useMemo(() => {
+    const scaled = { ...vehicle, Cr: vehicle.Cr * rearStiffnessScale };
+    const speeds = computeHandlingSpeeds(scaled);
+    const marker = speeds.criticalSpeed ?? speeds.characteristicSpeed ?? 0;
+    const maxSpeed = Math.min(MAX_SWEEP_SPEED, Math.max(MIN_SWEEP_SPEED, Math.ceil(marker * 1.3)));
+    return sweepStability(
+      scaled,
+      Array.from({ length: maxSpeed }, (_, index) => index + 1),
+      actuators
+    );
+  }, [vehicle, actuators, rearStiffnessScale]);
+
+  const locus = useMemo(() => {
+    const stable: { re: number; im: number; speed: number }[] = [];
+    const unstable: { re: number; im: number; speed: number }[] = [];
+    sweep.points.forEach((point) => {
+      point.eigenvalues.forEach((lambda) => {
+        (lambda.re < 0 ? stable : unstable).push({ re: lambda.re, im: lambda.im, speed: point.speed });
+      });
+    });
+    return { stable, unstable };
+  }, [sweep]);
+
+  const modal = useMemo(
+    () => sweep.points.map((point) => ({ speed: point.speed, omegaN: point.omegaN, zeta: point.zeta })),
+    [sweep]
+  );
+
+  const understeering = sweep.understeerGradient > 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 rounded-2xl border border-slate-200 bg-white/80 p-4 text-sm text-slate-600 shadow-sm dark:border-slate-800 dark:bg-slate-900/70 dark:text-slate-300 sm:grid-cols-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+            Understeer gradient
+          </p>
+          <p className="mt-1 font-semibold text-slate-900 dark:text-white">
+            {sweep.understeerGradient.toFixed(4)} rad/(m/s²)
+          </p>
+          <p className="text-xs">{understeering ? "Understeer" : sweep.understeerGradient < 0 ? "Oversteer" : "Neutral"}</p>
+        </div>
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+            {understeering ? "Characteristic speed" : "Critical speed"}
+          </p>
+          <p className="mt-1 font-semibold text-slate-900 dark:text-white">
+            {formatSpeed(understeering ? sweep.characteristicSpeed : sweep.criticalSpeed)}
+          </p>
+          <p className="text-xs">
+            {understeering ? "Yaw-rate gain peaks here." : "The yaw mode diverges above this speed."}
+          </p>
+        </div>
+        <div>
+          <div className="flex items-center gap-2">
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+              Rear stiffness ×{rearStiffnessScale.toFixed(2)}
+            </p>
+            <InfoTooltip
+              label="Rear cornering stiffness"
+              content="Soften the rear tyres to move the car from understeer to oversteer and watch a real pole cross into the right half-plane."
+            />
+          </div>
+          <Slider
+            value={[rearStiffnessScale]}
+            min={0.4}
+            max={1.6}
+            step={0.02}
+            className="mt-3"
+            onValueChange={(values) => setRearStiffnessScale(values[0] ?? 1)}
+          />
+        </div>
+      </div>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <h2 className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+          Root locus, 1 to {sweep.points.length} m/s (1/s)
+        </h2>
+        <ResponsiveContainer width="100%" height={320}>
+          <ScatterChart margin={{ left: 4, right: 12, top: 4, bottom: 4 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis type="number" dataKey="re" name="Re" tick={{ fontSize: 10 }} stroke="#94a3b8" domain={["auto", "auto"]} />
+            <YAxis type="number" dataKey="im" name="Im" tick={{ fontSize: 10 }} stroke="#94a3b8" domain={["auto", "auto"]} />
+            <ZAxis type="number" dataKey="speed" name="Speed [m/s]" range={[16, 16]} />
+            <Tooltip cursor={{ strokeDasharray: "3 3" }} formatter={(value: number) => value.toFixed(2)} />
+            <Legend wrapperStyle={{ fontSize: 10 }} />
+            <ReferenceLine x={0} stroke="#f43f5e" strokeDasharray="4 4" />
+            <Scatter name="Stable" data={locus.stable} fill="#2563eb" />
+            <Scatter name="Unstable" data={locus.unstable} fill="#f43f5e" />
+          </ScatterChart>
+        </ResponsiveContainer>
+      </section>
+
+      <section className="grid gap-4 md:grid-cols-2">
+        {[
+          { key: "omegaN", title: "Natural frequency ωn", unit: "rad/s", color: "#2563eb" },
+          { key: "zeta", title: "Damping ratio ζ", unit: "-", color: "#0ea5e9" },
+        ].map((plot) => (
+          <div
+            key={plot.key}
+            className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm dark:border-slate-800 dark:bg-slate-900"
+          >
+            <h2 className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+              {plot.title} ({plot.unit}) vs speed (m/s)
+            </h2>
+            <ResponsiveContainer width="100%" height={220}>
+              <LineChart data={modal} margin={{ left: 4, right: 12, top: 4, bottom: 4 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="speed" type="number" tick={{ fontSize: 10 }} stroke="#94a3b8" domain={["dataMin", "dataMax"]} />
+                <YAxis tick={{ fontSize: 10 }} stroke="#94a3b8" domain={["auto", "auto"]} />
+                <Tooltip formatter={(value: number) => value.toFixed(3)} />
+                {sweep.characteristicSpeed !== null && (
+                  <ReferenceLine x={sweep.characteristicSpeed} stroke="#10b981" strokeDasharray="4 4" label={{ value: "v_char", fontSize: 10 }} />
+                )}
+                {sweep.criticalSpeed !== null && (
+                  <ReferenceLine x={sweep.criticalSpeed} stroke="#f43f5e" strokeDasharray="4 4" label={{ value: "v_crit", fontSize: 10 }} />
+                )}
+                <Line type="monotone" dataKey={plot.key} stroke={plot.color} strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import { useFrame } from "@react-three/fiber";
 import { useGLTF } from "@react-three/drei";
 import type { GLTF } from "three-stdlib";
-import { Euler, Mesh, Object3D, Quaternion, Vector3 } from "three";
+import { Euler, Mesh, MeshStandardMaterial, Object3D, Quaternion, Vector3 } from "three";
 
 import {
   deriveKinematics,
@@ -24,6 +24,8 @@ interface VehicleRigProps {
   showTrack: boolean;
   groundRotation: Vector3Tuple;
   vehicleSpeedMps: number;
+  /** Per-wheel tyre colour overrides, e.g. a temperature map. */
+  wheelColors?: Partial<Record<WheelId, string>>;
 }
 
 const WHEEL_WIDTH = 0.32;
@@ -91,11 +93,11 @@ function VehicleBodyPrimitive() {
   );
 }
 
-function WheelPrimitive({ radius }: { radius: number }) {
+function WheelPrimitive({ radius, color = WHEEL_COLOR }: { radius: number; color?: string }) {
   return (
     <mesh castShadow rotation={[0, 0, Math.PI / 2]}>
       <cylinderGeometry args={[radius, radius, WHEEL_WIDTH, WHEEL_SEGMENTS]} />
-      <meshStandardMaterial color={WHEEL_COLOR} metalness={0.2} roughness={0.45} />
+      <meshStandardMaterial color={color} metalness={0.2} roughness={0.45} />
     </mesh>
   );
 }
@@ -103,9 +105,10 @@ function WheelPrimitive({ radius }: { radius: number }) {
 interface VehicleModelWheelProps {
   radius: number;
   wheelId: WheelId;
+  color?: string;
 }
 
-function VehicleModelWheel({ radius, wheelId }: VehicleModelWheelProps) {
+function VehicleModelWheel({ radius, wheelId, color }: VehicleModelWheelProps) {
   const result = useGLTF("/models/vehicle.glb") as VehicleModelGLTF;
   // Models are expected to have wheel pivots centred on the hubs so we can reuse the rig transforms.
   const wheelNames = [
@@ -116,10 +119,15 @@ function VehicleModelWheel({ radius, wheelId }: VehicleModelWheelProps) {
   ];
   const wheelNode = wheelNames.map((name) => result.nodes[name]).find(Boolean);
   if (!(wheelNode instanceof Mesh)) {
-    return <WheelPrimitive radius={radius} />;
+    return <WheelPrimitive radius={radius} color={color} />;
   }
   const wheel = wheelNode.clone();
   wheel.scale.setScalar(radius);
+  if (color && wheel.material instanceof MeshStandardMaterial) {
+    // The clone shares its material with the loaded model, so tint a copy.
+    wheel.material = wheel.material.clone();
+    wheel.material.color.set(color);
+  }
   return <primitive object={wheel} rotation={[0, 0, Math.PI / 2]} />;
 }
 
@@ -140,7 +148,14 @@ function VehicleModelBody({ bodyScale }: VehicleModelBodyProps) {
   return <primitive object={body} />;
 }
 
-export function VehicleRig({ state, alignmentDebug, showTrack, groundRotation, vehicleSpeedMps }: VehicleRigProps) {
+export function VehicleRig({
+  state,
+  alignmentDebug,
+  showTrack,
+  groundRotation,
+  vehicleSpeedMps,
+  wheelColors
+}: VehicleRigProps) {
   const [modelAvailable, setModelAvailable] = useState(false);
   const [assetChecked, setAssetChecked] = useState(false);
   const wheelSpinRefs = useRef<Record<WheelId, Object3D | null>>({
@@ -300,9 +315,9 @@ export function VehicleRig({ state, alignmentDebug, showTrack, groundRotation, v
                   }}
                 >
                   {modelAvailable ? (
-                    <VehicleModelWheel wheelId={id} radius={state.wheelRadius} />
+                    <VehicleModelWheel wheelId={id} radius={state.wheelRadius} color={wheelColors?.[id]} />
                   ) : (
-                    <WheelPrimitive radius={state.wheelRadius} />
+                    <WheelPrimitive radius={state.wheelRadius} color={wheelColors?.[id]} />
                   )}
                 </group>
               </group>
@@ -26,7 +26,12 @@ type PlotProps = {
   unit: string;
   data: { t: number; value: number }[];
   color?: string;
-  overlay?: { label: string; data: { t: number; value: number }[]; color?: string } | null;
+  overlay?: {
+    label: string;
+    data: { t: number; value: number }[];
+    color?: string;
+    reference?: { label: string; data: { t: number; value: number }[] };
+  } | null;
 };
 
 const PlotCard = ({ title, unit, data, color = "#2563eb", overlay }: PlotProps) => (
@@ -57,6 +62,18 @@ const PlotCard = ({ title, unit, data, color = "#2563eb", overlay }: PlotProps)
             name={overlay.label}
           />
         )}
+        {overlay?.reference && (
+          <Line
+            type="monotone"
+            data={overlay.reference.data}
+            dataKey="value"
+            stroke="#94a3b8"
+            strokeWidth={1.5}
+            dot={false}
+            strokeDasharray="2 4"
+            name={overlay.reference.label}
+          />
+        )}
       </LineChart>
     </ResponsiveContainer>
   </div>
@@ -82,6 +99,8 @@ export const BottomPlots = () => {
     return base;
   }, [trimmed, lateralUnit]);
   const betaSeries = useMemo(() => buildSeries(trimmed, "beta"), [trimmed]);
+  const speedSeries = useMemo(() => buildSeries(trimmed, "vx"), [trimmed]);
+  const leanSeries = useMemo(() => buildSeries(trimmed, "phi"), [trimmed]);
   const lateralUnitLabel = lateralUnit === "g" ? "g" : "m/s^2";
 
   const overlaySeries = useMemo(() => {
@@ -91,6 +110,7 @@ export const BottomPlots = () => {
           label: overlay.yawRate.label,
           data: overlay.yawRate.data,
           color: "#0ea5e9",
+          reference: overlay.yawRate.reference,
         }
       : null;
     const ayData = overlay.ay
@@ -101,6 +121,13 @@ export const BottomPlots = () => {
               ? overlay.ay.data.map((entry) => ({ t: entry.t, value: entry.value / GRAVITY }))
               : overlay.ay.data,
           color: "#0284c7",
+          reference: overlay.ay.reference && {
+            label: overlay.ay.reference.label,
+            data:
+              lateralUnit === "g"
+                ? overlay.ay.reference.data.map((entry) => ({ t: entry.t, value: entry.value / GRAVITY }))
+                : overlay.ay.reference.data,
+          },
         }
       : null;
     const beta = overlay.beta
@@ -131,10 +158,12 @@ export const BottomPlots = () => {
         <span className="text-xs text-slate-400 dark:text-slate-500" data-test="telemetry-sample-count">{trimmed.length} samples</span>
       </div>
       {!collapsed && (
-        <div className="grid gap-4 px-4 pb-4 md:grid-cols-3">
+        <div className="grid gap-4 px-4 pb-4 md:grid-cols-2 xl:grid-cols-4">
           <PlotCard title="Yaw rate" unit="rad/s" data={yawRateSeries} overlay={overlaySeries.yaw} />
           <PlotCard title="Lateral accel" unit={lateralUnitLabel} data={aySeries} color="#7c3aed" overlay={overlaySeries.ay} />
           <PlotCard title="Sideslip" unit="rad" data={betaSeries} color="#16a34a" overlay={overlaySeries.beta} />
+          <PlotCard title="Speed" unit="m/s" data={speedSeries} color="#ea580c" />
+          {leanSeries.length > 0 && <PlotCard title="Lean" unit="rad" data={leanSeries} color="#db2777" />}
         </div>
       )}
     </div>
@@ -24,10 +24,16 @@ import type {
   RampResult,
 } from "@/lib/scenarios/canonical";
 
+type OverlaySeries = {
+  label: string;
+  data: { t: number; value: number }[];
+  reference?: { label: string; data: { t: number; value: number }[] };
+};
+
 type PlotOverlayPayload = {
   label: string;
-  yawRate?: { label: string; data: { t: number; value: number }[] };
-  ay?: { label: string; data: { t: number; value: number }[] };
+  yawRate?: OverlaySeries;
+  ay?: OverlaySeries;
 };
 
 type CanonicalResult =
@@ -69,25 +75,46 @@ function overlayFromResult(result: CanonicalResult): PlotOverlayPayload | null {
         t: index * dt,
         value,
       }));
+      if (!result.result.flags.activeChassis || result.result.flags.linearisedTheory) {
+        const label = result.result.flags.linearisedTheory ? "Linearised" : "Theory";
+        return {
+          label: "Step-steer theory",
+          yawRate: { label, data: yawTheory },
+          ay: { label, data: ayTheory },
+        };
+      }
+      const { passive } = result.result.theory;
+      const passiveYaw = passive.yawRate.map((value, index) => ({ t: index * dt, value }));
+      const passiveAy = passive.ay.map((value, index) => ({ t: index * dt, value }));
       return {
-        label: "Step-steer theory",
-        yawRate: { label: "Theory", data: yawTheory },
-        ay: { label: "Theory", data: ayTheory },
+        label: "Step-steer theory, actuators vs passive",
+        yawRate: { label: "Active", data: yawTheory, reference: { label: "Passive", data: passiveYaw } },
+        ay: { label: "Active", data: ayTheory, reference: { label: "Passive", data: passiveAy } },
       };
     }
     case "frequency": {
       const run = result.result.runs[result.result.runs.length - 1];
       if (!run) return null;
       const dt = result.config.dt ?? 0.01;
-      const yawTheory = run.telemetry.map((_, index) => ({
-        t: index * dt,
-        value:
-          (result.result.theory.yawRateMag[index % result.result.theory.yawRateMag.length] || 0) *
-          (result.config.amplitude || 0),
-      }));
+      const magnitudeSeries = (magnitudes: number[]) =>
+        run.telemetry.map((_, index) => ({
+          t: index * dt,
+          value: (magnitudes[index % magnitudes.length] || 0) * (result.config.amplitude || 0),
+        }));
+      const yawTheory = magnitudeSeries(result.result.theory.yawRateMag);
+      if (!result.result.flags.activeChassis || result.result.flags.linearisedTheory) {
+        return {
+          label: "Frequency theory",
+          yawRate: { label: result.result.flags.linearisedTheory ? "Linearised" : "Linear", data: yawTheory },
+        };
+      }
       return {
-        label: "Frequency theory",
-        yawRate: { label: "Linear", data: yawTheory },
+        label: "Frequency theory, actuators vs passive",
+        yawRate: {
+          label: "Active",
+          data: yawTheory,
+          reference: { label: "Passive", data: magnitudeSeries(result.result.theory.passive.yawRateMag) },
+        },
       };
     }
     case "ramp-limit": {
@@ -130,6 +157,7 @@ function exportJSON(result: CanonicalResult) {
   const telemetry = collectTelemetry(result);
   const payload = {
     id: result.id,
+    seed: result.config.seed,
     config: result.config,
     metrics: result.result.metrics,
     grades: result.result.grades,
@@ -144,7 +172,8 @@ function exportCSV(result: CanonicalResult) {
   const telemetry = collectTelemetry(result);
   if (!telemetry.length) return;
   const headers = Object.keys(telemetry[0]);
-  const lines = [headers.join(",")];
+  const lines = [[...headers, "seed"].join(",")];
+  const seed = result.config.seed ?? "";
   telemetry.forEach((sample) => {
     const values = headers.map((key) => {
       const raw = (sample as Record<string, unknown>)[key];
@@ -156,7 +185,7 @@ function exportCSV(result: CanonicalResult) {
       }
       return raw ?? "";
     });
-    lines.push(values.join(","));
+    lines.push([...values, seed].join(","));
   });
   downloadFile(result.id + "-telemetry.csv", lines.join("\n"), "text/csv");
 }
@@ -222,11 +251,20 @@ const metricLabel: Record<string, string> = {
   gainError: "Linear slope",
   ayAtLimit: "ay limit",
   steerAtLimit: "Steer limit",
+  maxSideslip: "Peak β",
+  omegaN: "ωn",
+  zeta: "ζ",
+  omegaNPassive: "ωn passive",
+  zetaPassive: "ζ passive",
+  theoryDcGain: "DC gain theory",
+  passiveDcGain: "DC gain passive",
 };
 
 export const ReferenceTestsPanel = () => {
   const modelId = useSimStore((state) => state.modelId);
   const params = useSimStore((state) => state.params);
+  const escEnabled = useSimStore((state) => state.escEnabled);
+  const seed = useSimStore((state) => state.seed);
   const setOverlay = useSimStore((state) => state.actions.setOverlay);
   const [activeOverlayId, setActiveOverlayId] = useState<TestId | null>(null);
   const [states, setStates] = useState<Record<TestId, TestCardState>>(() =>
@@ -239,18 +277,21 @@ export const ReferenceTestsPanel = () => {
     (id: TestId) => {
       setStates((prev) => ({ ...prev, [id]: { ...prev[id], running: true } }));
       try {
+        // Graded runs stay noise-free even when the sandbox has process noise on; the seed still
+        // travels with the config so exports record it.
+        const modelParams = { ...params, processNoise: false };
         let canonicalResult: CanonicalResult | null = null;
         if (id === "skidpad") {
-          const config: SkidpadConfig = { ...SKIDPAD_DEFAULTS, modelId, modelParams: params };
+          const config: SkidpadConfig = { ...SKIDPAD_DEFAULTS, modelId, modelParams, seed };
           canonicalResult = { id, config, result: runSkidpadRun(config) };
         } else if (id === "step-steer") {
-          const config: StepSteerConfig = { ...STEP_STEER_DEFAULTS, modelId, modelParams: params };
+          const config: StepSteerConfig = { ...STEP_STEER_DEFAULTS, modelId, modelParams, seed };
           canonicalResult = { id, config, result: runStepSteerRun(config) };
         } else if (id === "frequency") {
-          const config: FrequencyConfig = { ...FREQUENCY_DEFAULTS, modelId, modelParams: params };
+          const config: FrequencyConfig = { ...FREQUENCY_DEFAULTS, modelId, modelParams, seed };
           canonicalResult = { id, config, result: runFrequencyRun(config) };
         } else {
-          const config: RampConfig = { ...RAMP_DEFAULTS, modelId, modelParams: params };
+          const config: RampConfig = { ...RAMP_DEFAULTS, modelId, modelParams, seed, esc: { enabled: escEnabled } };
           canonicalResult = { id, config, result: runRampToLimitRun(config) };
         }
         if (!canonicalResult) return;
@@ -267,7 +308,7 @@ export const ReferenceTestsPanel = () => {
         setStates((prev) => ({ ...prev, [id]: { ...prev[id], running: false } }));
       }
     },
-    [modelId, params, setOverlay, states]
+    [escEnabled, modelId, params, seed, setOverlay, states]
   );
 
   const toggleOverlay = useCallback(
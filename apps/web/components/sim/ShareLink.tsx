@@ -11,6 +11,8 @@ export type ShareConfig = {
   scenarioId: string;
   params: ModelParams;
   lateralUnit?: "g" | "mps2";
+  /** Process-noise seed, so the shared run replays the same noise. */
+  seed?: number;
 };
 
 type ShareLinkProps = {
@@ -10,14 +10,18 @@ import { createVehicleParams } from "@/lib/vehicle/params";
 import { computeUndersteerGradient, steadyStateSteerAngle } from "@/lib/vehicle/understeer";
 import { useSimStore } from "@/lib/store/simStore";
 import { getModel } from "@/lib/sim/registry";
+import type { TrailerGeometry } from "@/lib/sim/core";
+import { deriveKinematics } from "@/lib/kinematics";
 
 const lerp = (current: number, target: number, alpha: number) => current + (target - current) * alpha;
 
 type VehicleGeometry = {
-  type: "vehicle";
+  type: "vehicle" | "motorcycle";
   length: number;
   width: number;
   wheelbase?: number;
+  cgHeight?: number;
+  trailer?: TrailerGeometry;
 };
 
 type VehicleProps = {
@@ -84,9 +88,111 @@ const VehicleBody = ({ geometry, wheelRadius }: { geometry: VehicleGeometry; whe
   );
 };
 
+const TrailerBody = ({ trailer, wheelRadius }: { trailer: TrailerGeometry; wheelRadius: number }) => {
+  const deckHeight = wheelRadius * 2.4;
+  const boxHeight = wheelRadius * 4.2;
+  const kingpinSetback = 1.0;
+  const halfTrack = trailer.width * 0.5 * 0.86;
+  return (
+    <group>
+      <mesh castShadow receiveShadow position={[kingpinSetback - trailer.length * 0.5, deckHeight + boxHeight * 0.5, 0]}>
+        <boxGeometry args={[trailer.length, boxHeight, trailer.width]} />
+        <meshStandardMaterial color="#cbd5e1" metalness={0.18} roughness={0.6} />
+      </mesh>
+      <Wheel position={[-trailer.hitchToAxle, wheelRadius, halfTrack]} radius={wheelRadius} />
+      <Wheel position={[-trailer.hitchToAxle, wheelRadius, -halfTrack]} radius={wheelRadius} />
+    </group>
+  );
+};
+
+const MotorcycleBody = ({ geometry, wheelRadius }: { geometry: VehicleGeometry; wheelRadius: number }) => {
+  const wheelbase = geometry.wheelbase ?? geometry.length * 0.62;
+  const cgHeight = geometry.cgHeight ?? wheelRadius * 2;
+  return (
+    <group>
+      <mesh castShadow position={[0, wheelRadius * 1.45, 0]}>
+        <boxGeometry args={[wheelbase * 0.78, wheelRadius * 0.7, geometry.width * 0.32]} />
+        <meshStandardMaterial color="#b91c1c" metalness={0.35} roughness={0.4} />
+      </mesh>
+      <mesh castShadow position={[-wheelbase * 0.1, cgHeight + wheelRadius * 0.35, 0]}>
+        <boxGeometry args={[wheelbase * 0.28, wheelRadius * 1.5, geometry.width * 0.4]} />
+        <meshStandardMaterial color="#1f2937" metalness={0.2} roughness={0.6} />
+      </mesh>
+      <mesh castShadow position={[wheelbase * 0.5, wheelRadius * 2.4, 0]}>
+        <boxGeometry args={[0.06, 0.06, geometry.width * 0.9]} />
+        <meshStandardMaterial color="#4b5563" metalness={0.5} roughness={0.3} />
+      </mesh>
+    </group>
+  );
+};
+
+const Motorcycle = ({ geometry, state, wheelRadius }: VehicleProps) => {
+  const ref = useRef<THREE.Group>(null);
+  const leanRef = useRef<THREE.Group>(null);
+  const frontRef = useRef<THREE.Group>(null);
+  const wheelbase = geometry.wheelbase ?? geometry.length * 0.62;
+
+  useFrame(() => {
+    if (!ref.current) return;
+    // Body-local kinematics: the scene group already carries position and yaw.
+    const kinematics = deriveKinematics({
+      x: 0,
+      z: 0,
+      psi: 0,
+      phi: state?.phi ?? 0,
+      hRide: 0,
+      wheelbase,
+      a: wheelbase * 0.5,
+      b: wheelbase * 0.5,
+      trackF: 0,
+      trackR: 0,
+      wheelRadius,
+      steer: state?.steerAngle ?? 0,
+      groundY: 0,
+    });
+
+    ref.current.position.x = lerp(ref.current.position.x, state?.x ?? 0, 0.12);
+    ref.current.position.z = lerp(ref.current.position.z, state?.y ?? 0, 0.12);
+    const targetYaw = -(state?.psi ?? 0);
+    let delta = targetYaw - ref.current.rotation.y;
+    while (delta > Math.PI) delta -= Math.PI * 2;
+    while (delta < -Math.PI) delta += Math.PI * 2;
+    ref.current.rotation.y += delta * 0.1;
+
+    if (leanRef.current) {
+      // Scene forward is local +x and left is local +z, so a positive roll about x leans left.
+      leanRef.current.rotation.x = lerp(leanRef.current.rotation.x, kinematics.body.roll, 0.2);
+    }
+    if (frontRef.current) {
+      const [, wheelY, wheelForward] = kinematics.wheels.frontLeft;
+      frontRef.current.position.set(wheelForward, wheelY, 0);
+      // Scene yaw is -psi, so a left (positive) steer is a negative rotation about y.
+      frontRef.current.rotation.y = -kinematics.steer;
+    }
+  });
+
+  return (
+    <group ref={ref}>
+      <group ref={leanRef}>
+        <MotorcycleBody geometry={geometry} wheelRadius={wheelRadius} />
+        <group ref={frontRef} position={[wheelbase * 0.5, wheelRadius, 0]}>
+          <group rotation={[0, Math.PI * 0.5, 0]}>
+            <Wheel position={[0, 0, 0]} radius={wheelRadius} />
+          </group>
+        </group>
+        <group position={[-wheelbase * 0.5, wheelRadius, 0]} rotation={[0, Math.PI * 0.5, 0]}>
+          <Wheel position={[0, 0, 0]} radius={wheelRadius} />
+        </group>
+      </group>
+    </group>
+  );
+};
+
 const Vehicle = ({ geometry, state, wheelRadius }: VehicleProps) => {
   const ref = useRef<THREE.Group>(null);
+  const trailerRef = useRef<THREE.Group>(null);
   const wheelPositions = useMemo(() => buildWheelPositions(geometry, wheelRadius), [geometry, wheelRadius]);
+  const hitchX = geometry.trailer ? wheelPositions.rearLeft[0] + geometry.trailer.hitchAheadOfRearAxle : 0;
 
   useFrame(() => {
     if (!ref.current) return;
@@ -102,6 +208,12 @@ const Vehicle = ({ geometry, state, wheelRadius }: VehicleProps) => {
     while (delta > Math.PI) delta -= Math.PI * 2;
     while (delta < -Math.PI) delta += Math.PI * 2;
     ref.current.rotation.y = currentYaw + delta * 0.1;
+
+    if (trailerRef.current) {
+      // Scene yaw is -psi, so the trailer turns by +hitchAngle relative to the tractor.
+      const targetHitch = state?.hitchAngle ?? 0;
+      trailerRef.current.rotation.y = lerp(trailerRef.current.rotation.y, targetHitch, 0.1);
+    }
   });
 
   return (
@@ -111,6 +223,11 @@ const Vehicle = ({ geometry, state, wheelRadius }: VehicleProps) => {
       <Wheel position={wheelPositions.frontRight} radius={wheelRadius} />
       <Wheel position={wheelPositions.rearLeft} radius={wheelRadius} />
       <Wheel position={wheelPositions.rearRight} radius={wheelRadius} />
+      {geometry.trailer && (
+        <group ref={trailerRef} position={[hitchX, 0, 0]}>
+          <TrailerBody trailer={geometry.trailer} wheelRadius={wheelRadius} />
+        </group>
+      )}
     </group>
   );
 };
@@ -146,7 +263,13 @@ export const SimCanvas = () => {
     );
   }, [modelId, params]);
 
-  const wheelRadius = useMemo(() => clamp(geometry.width * 0.14, 0.18, 0.42), [geometry.width]);
+  const wheelRadius = useMemo(
+    () =>
+      geometry.type === "motorcycle"
+        ? clamp(geometry.length * 0.14, 0.26, 0.36)
+        : clamp(geometry.width * 0.14, 0.18, 0.42),
+    [geometry.length, geometry.type, geometry.width]
+  );
 
   const vehicleReadouts = useMemo(() => {
     if (!lastTelemetry) {
@@ -159,6 +282,11 @@ export const SimCanvas = () => {
         deltaSs: null as number | null,
         frictionLimited: false,
         slipWarning: false,
+        hitchAngle: null as number | null,
+        lean: null as number | null,
+        jackKnife: false,
+        trailerSway: false,
+        adaptive: null as { stepSize: number; accepted: number; rejected: number } | null,
       };
     }
 
@@ -179,7 +307,7 @@ export const SimCanvas = () => {
       typeof paramObject.Cf === "number" &&
       typeof paramObject.Cr === "number";
 
-    const speed = typeof paramObject.v === "number" ? paramObject.v : Math.max(Math.abs((lastTelemetry.notes?.vxEffective as number) ?? 0), 1);
+    const speed = typeof lastTelemetry.vx === "number" ? lastTelemetry.vx : typeof paramObject.v === "number" ? paramObject.v : Math.max(Math.abs((lastTelemetry.notes?.vxEffective as number) ?? 0), 1);
     if (hasLinearParams && Math.abs(speed) > 0.1 && Math.abs(yawRate) > 1e-4) {
       try {
         const vehicleParams = createVehicleParams({
@@ -192,8 +320,12 @@ export const SimCanvas = () => {
           mu: (paramObject.mu as number) ?? 1,
           track: (paramObject.trackWidth as number) ?? 1.6,
           hCg: (paramObject.hCg as number) ?? 0.55,
+          ClFront: paramObject.ClFront as number | undefined,
+          ClRear: paramObject.ClRear as number | undefined,
+          Cd: paramObject.Cd as number | undefined,
+          frontalArea: paramObject.frontalArea as number | undefined,
         });
-        understeer = computeUndersteerGradient(vehicleParams);
+        understeer = computeUndersteerGradient(vehicleParams, speed);
         const radius = speed / yawRate;
         if (Number.isFinite(radius)) {
           deltaSs = steadyStateSteerAngle(speed, radius, vehicleParams);
@@ -209,6 +341,12 @@ export const SimCanvas = () => {
     );
     const slipWarning = maxSlip > (6 * Math.PI) / 180;
     const frictionLimited = Boolean(lastTelemetry.notes?.frontLimited || lastTelemetry.notes?.rearLimited);
+    const hitchAngle = typeof lastTelemetry.notes?.hitchAngle === "number" ? lastTelemetry.notes.hitchAngle : null;
+    const notes = lastTelemetry.notes ?? {};
+    const adaptive =
+      (params as Record<string, unknown>).integrator === "rk45" && typeof notes.stepSize === "number"
+        ? { stepSize: notes.stepSize, accepted: notes.stepsAccepted ?? 0, rejected: notes.stepsRejected ?? 0 }
+        : null;
 
     return {
       psi,
@@ -219,6 +357,11 @@ export const SimCanvas = () => {
       deltaSs,
       frictionLimited,
       slipWarning,
+      hitchAngle,
+      lean: typeof lastTelemetry.phi === "number" ? lastTelemetry.phi : null,
+      jackKnife: Boolean(lastTelemetry.notes?.jackKnife),
+      trailerSway: Boolean(lastTelemetry.notes?.trailerSway),
+      adaptive,
     };
   }, [lastTelemetry, params]);
 
@@ -234,7 +377,11 @@ export const SimCanvas = () => {
           <planeGeometry args={[240, 240]} />
           <meshStandardMaterial color="#e2e8f0" />
         </mesh>
-        <Vehicle geometry={geometry} state={(lastState as Record<string, number>) ?? null} wheelRadius={wheelRadius} />
+        {geometry.type === "motorcycle" ? (
+          <Motorcycle geometry={geometry} state={(lastState as Record<string, number>) ?? null} wheelRadius={wheelRadius} />
+        ) : (
+          <Vehicle geometry={geometry} state={(lastState as Record<string, number>) ?? null} wheelRadius={wheelRadius} />
+        )}
         <OrbitControls enablePan enableZoom zoomSpeed={0.6} />
       </Canvas>
       <div className="pointer-events-none absolute right-4 top-4 space-y-1 rounded-xl bg-white/90 p-3 text-xs font-medium text-slate-700 shadow-lg ring-1 ring-slate-200 backdrop-blur dark:bg-slate-900/85 dark:text-slate-200 dark:ring-slate-700">
@@ -246,6 +393,16 @@ export const SimCanvas = () => {
         {vehicleReadouts.deltaSs !== null && <div>δ<sub>ss</sub> {radToDeg(vehicleReadouts.deltaSs).toFixed(1)}°</div>}
         {vehicleReadouts.frictionLimited && <div className="text-amber-600">Friction-limited</div>}
         {vehicleReadouts.slipWarning && <div className="text-rose-600">|α| &gt; 6°</div>}
+        {vehicleReadouts.hitchAngle !== null && <div>Γ {radToDeg(vehicleReadouts.hitchAngle).toFixed(1)}°</div>}
+        {vehicleReadouts.lean !== null && <div>φ {radToDeg(vehicleReadouts.lean).toFixed(1)}°</div>}
+        {vehicleReadouts.jackKnife && <div className="text-rose-600">Jack-knife</div>}
+        {vehicleReadouts.trailerSway && <div className="text-amber-600">Trailer sway</div>}
+        {vehicleReadouts.adaptive && (
+          <div>
+            h {(vehicleReadouts.adaptive.stepSize * 1000).toFixed(2)} ms · {vehicleReadouts.adaptive.accepted}/
+            {vehicleReadouts.adaptive.rejected} acc/rej
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,7 +1,7 @@
 "use client";
 
 import Link from "next/link";
-import { useMemo, type ChangeEvent } from "react";
+import { useEffect, useMemo, useState, type ChangeEvent } from "react";
 
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
@@ -10,7 +10,8 @@ import { cn } from "@/lib/utils";
 import type { ScenarioPreset } from "@/lib/scenarios";
 import type { ModelDef } from "@/lib/sim/core";
 import { useSimStore } from "@/lib/store/simStore";
-import { createVehicleParams } from "@/lib/vehicle/params";
+import { computeHandlingSpeeds, isStableSpectrum, modelEigenvalues } from "@/lib/theory/stability";
+import { createVehicleParams, type VehicleParams } from "@/lib/vehicle/params";
 import { computeUndersteerGradient, steadyStateSteerAngle } from "@/lib/vehicle/understeer";
 import { TERMINOLOGY } from "@/src/constants/terminology";
 
@@ -38,6 +39,38 @@ type TopBarProps = {
   };
 };
 
+/** Quiet time after a parameter change before the model is linearised again [ms]. */
+const LINEARISE_DEBOUNCE_MS = 300;
+
+/** Bicycle parameters from models that expose m, Iz, a, b, Cf and Cr directly. */
+const linearVehicleParams = (paramObject: Record<string, unknown>): VehicleParams | null => {
+  const hasLinearParams =
+    typeof paramObject.m === "number" &&
+    typeof paramObject.Iz === "number" &&
+    typeof paramObject.a === "number" &&
+    typeof paramObject.b === "number" &&
+    typeof paramObject.Cf === "number" &&
+    typeof paramObject.Cr === "number";
+  if (!hasLinearParams) {
+    return null;
+  }
+  return createVehicleParams({
+    m: paramObject.m as number,
+    Iz: paramObject.Iz as number,
+    a: paramObject.a as number,
+    b: paramObject.b as number,
+    Cf: paramObject.Cf as number,
+    Cr: paramObject.Cr as number,
+    mu: (paramObject.mu as number) ?? 1,
+    track: (paramObject.trackWidth as number) ?? 1.6,
+    hCg: (paramObject.hCg as number) ?? 0.55,
+    ClFront: paramObject.ClFront as number | undefined,
+    ClRear: paramObject.ClRear as number | undefined,
+    Cd: paramObject.Cd as number | undefined,
+    frontalArea: paramObject.frontalArea as number | undefined,
+  });
+};
+
 export const TopBar = ({
   models,
   scenarios,
@@ -62,37 +95,23 @@ export const TopBar = ({
   const activeModel = models.find((item) => item.id === modelId);
   const lastTelemetry = useSimStore((state) => state.lastTelemetry);
   const storeParams = useSimStore((state) => state.params);
+  const timing = useSimStore((state) => state.timing);
 
   const steadyStateReadout = useMemo(() => {
     const paramObject = storeParams as Record<string, unknown>;
     const yawRate = lastTelemetry?.r ?? 0;
     const speed = typeof paramObject.v === "number" ? paramObject.v : undefined;
-    const hasLinearParams =
-      typeof paramObject.m === "number" &&
-      typeof paramObject.Iz === "number" &&
-      typeof paramObject.a === "number" &&
-      typeof paramObject.b === "number" &&
-      typeof paramObject.Cf === "number" &&
-      typeof paramObject.Cr === "number" &&
-      typeof speed === "number";
 
-    if (!hasLinearParams || !speed || Math.abs(yawRate) < 1e-5) {
+    if (!speed || Math.abs(yawRate) < 1e-5) {
       return { understeer: null as number | null, delta: null as number | null };
     }
 
     try {
-      const vehicleParams = createVehicleParams({
-        m: paramObject.m as number,
-        Iz: paramObject.Iz as number,
-        a: paramObject.a as number,
-        b: paramObject.b as number,
-        Cf: paramObject.Cf as number,
-        Cr: paramObject.Cr as number,
-        mu: (paramObject.mu as number) ?? 1,
-        track: (paramObject.trackWidth as number) ?? 1.6,
-        hCg: (paramObject.hCg as number) ?? 0.55,
-      });
-      const understeer = computeUndersteerGradient(vehicleParams);
+      const vehicleParams = linearVehicleParams(paramObject);
+      if (!vehicleParams) {
+        return { understeer: null as number | null, delta: null as number | null };
+      }
+      const understeer = computeUndersteerGradient(vehicleParams, speed);
       const radius = speed / yawRate;
       if (!Number.isFinite(radius)) {
         return { understeer, delta: null as number | null };
@@ -105,6 +124,38 @@ export const TopBar = ({
     }
   }, [lastTelemetry, storeParams]);
 
+  const stability = useMemo(() => {
+    const paramObject = storeParams as Record<string, unknown>;
+    const speed = typeof paramObject.v === "number" ? paramObject.v : null;
+    let speeds: ReturnType<typeof computeHandlingSpeeds> | null = null;
+    try {
+      const vehicleParams = linearVehicleParams(paramObject);
+      speeds = vehicleParams ? computeHandlingSpeeds(vehicleParams) : null;
+    } catch (error) {
+      console.warn("Unable to compute handling speeds", error);
+    }
+    const aboveCritical = speeds?.criticalSpeed != null && speed !== null && speed > speeds.criticalSpeed;
+    return { speeds, aboveCritical };
+  }, [storeParams]);
+
+  // Linearising takes many model steps, so wait until a slider has settled.
+  const [unstable, setUnstable] = useState(false);
+  useEffect(() => {
+    if (!activeModel) {
+      setUnstable(false);
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      try {
+        setUnstable(!isStableSpectrum(modelEigenvalues(activeModel, storeParams as Record<string, unknown>)));
+      } catch {
+        // Kinematic models have no dynamic states to linearise.
+        setUnstable(false);
+      }
+    }, LINEARISE_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [activeModel, storeParams]);
+
   return (
     <div className="flex flex-wrap items-center gap-4 border-b border-slate-200 bg-white/80 px-6 py-3 backdrop-blur-md dark:border-slate-800 dark:bg-slate-950/80">
       <div className="flex items-center gap-2">
@@ -167,11 +218,22 @@ export const TopBar = ({
         <Slider
           value={[speedMultiplier]}
           min={0.25}
-          max={2}
+          max={4}
           step={0.05}
           className="w-32"
           onValueChange={(values) => onSpeedChange(values[0] ?? 1)}
         />
+        {running && timing && (
+          <span
+            className={cn(
+              "text-xs font-semibold",
+              timing.droppedFrames > 0 ? "text-amber-600 dark:text-amber-300" : "text-slate-500 dark:text-slate-400"
+            )}
+            title="Real-time factor: simulated seconds per wall-clock second. Dropped frames: backlogs discarded because the simulation could not keep up."
+          >
+            RTF {timing.realTimeFactor.toFixed(2)}x · {timing.droppedFrames} dropped
+          </span>
+        )}
       </div>
 
       <div className="flex flex-wrap items-center gap-2">
@@ -221,8 +283,27 @@ export const TopBar = ({
         <div>
           δ<sub>ss</sub> {steadyStateReadout.delta !== null ? (steadyStateReadout.delta * 57.2958).toFixed(1) : "—"}°
         </div>
+        {stability.speeds?.characteristicSpeed != null && (
+          <div title="Characteristic speed: yaw-rate gain peaks here">
+            v<sub>ch</sub> {stability.speeds.characteristicSpeed.toFixed(1)} m/s
+          </div>
+        )}
+        {stability.speeds?.criticalSpeed != null && (
+          <div title="Critical speed: the oversteering yaw mode diverges above it">
+            v<sub>crit</sub> {stability.speeds.criticalSpeed.toFixed(1)} m/s
+          </div>
+        )}
       </div>
 
+      {(unstable || stability.aboveCritical) && (
+        <div
+          role="alert"
+          className="rounded-md border border-rose-500 bg-rose-100 px-3 py-1 text-xs font-semibold text-rose-700 dark:border-rose-400/80 dark:bg-rose-900/40 dark:text-rose-200"
+        >
+          {stability.aboveCritical ? "Above critical speed: unstable" : "Unstable eigenvalues"}
+        </div>
+      )}
+
       {baselineBadge && (
         <div className="flex items-center gap-2 rounded-md border border-slate-200 bg-white/70 px-3 py-1 text-sm dark:border-slate-800 dark:bg-slate-900/70">
           <span>Baseline</span>
@@ -1,6 +1,11 @@
 ﻿import { registerModel } from "../sim/registry";
 import { Unicycle } from "./unicycle";
 import { Lin2DOF } from "./lin2dof";
+import { Pacejka2DOF } from "./pacejka2dof";
+import { Long3DOF } from "./long3dof";
+import { TwinTrack } from "./twintrack";
+import { TractorTrailer } from "./tractorTrailer";
+import { Motorcycle } from "./motorcycle";
 
 export const bootModels = () => {
   registerModel(Unicycle);
@@ -11,4 +16,39 @@ export const bootModels = () => {
       console.warn("Failed to register Lin2DOF model", error);
     }
   }
+  try {
+    registerModel(Pacejka2DOF);
+  } catch (error) {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn("Failed to register Pacejka2DOF model", error);
+    }
+  }
+  try {
+    registerModel(Long3DOF);
+  } catch (error) {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn("Failed to register Long3DOF model", error);
+    }
+  }
+  try {
+    registerModel(TwinTrack);
+  } catch (error) {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn("Failed to register TwinTrack model", error);
+    }
+  }
+  try {
+    registerModel(TractorTrailer);
+  } catch (error) {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn("Failed to register TractorTrailer model", error);
+    }
+  }
+  try {
+    registerModel(Motorcycle);
+  } catch (error) {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn("Failed to register Motorcycle model", error);
+    }
+  }
 };
@@ -1,8 +1,18 @@
 import { z } from "zod";
 import type { ModelDef, SimInputs } from "../sim/core";
+import { addNoise, type Rng } from "../sim/random";
 import {
+  adaptiveToleranceFields,
+  handlesStiffness,
+  integrateState,
+  integratorField,
+} from "../sim/integrators";
+import {
+  computeAeroLoads,
+  computeStaticLoads,
   createVehicleParams,
   deriveLinearBicycleCoeffs,
+  type AeroLoads,
   type LinearBicycleCoefficients,
   type VehicleParams,
 } from "@/lib/vehicle/params";
@@ -12,8 +22,34 @@ import {
   type SlipAngles,
 } from "@/lib/vehicle/slipAndForces";
 import { computeAy } from "@/lib/vehicle/ayYaw";
-import { clampLateralForces } from "@/lib/vehicle/frictionClamp";
+import { clampAxleForces, frictionDemandRatio } from "@/lib/vehicle/frictionClamp";
 import { enforceDtBounds } from "@/lib/vehicle/dtGuards";
+import { wheelBrakeYawMoment } from "@/lib/vehicle/esc";
+import { computeWheelLoads } from "@/lib/vehicle/twinTrack";
+import { loadSensitiveAxleStiffness } from "@/lib/vehicle/tyres";
+import {
+  DEFAULT_TYRE_THERMAL_PARAMS,
+  slipPower,
+  stepTyreThermal,
+  thermalGripFactor,
+  tyreThermalNotes,
+  type TyreThermalParams,
+  type TyreThermalState,
+} from "@/lib/vehicle/tyreThermal";
+import {
+  activeChassisFromParams,
+  actuatorCommand,
+  actuatorGains,
+  type ActuatorGains,
+} from "@/lib/vehicle/activeChassis";
+import {
+  bodyToWorld,
+  createRoadDescription,
+  muAt,
+  roadGravity,
+  type RoadDescription,
+  type RoadGravity,
+} from "@/lib/vehicle/road";
 
 const schema = z
   .object({
@@ -77,10 +113,138 @@ const schema = z
       .max(1.2)
       .default(0.55)
       .describe("CG height [m]|advanced"),
-    integrator: z
-      .enum(["rk4", "semiImplicitEuler"])
-      .default("rk4")
-      .describe("Integrator|advanced"),
+    ClFront: z
+      .number()
+      .min(0)
+      .max(3)
+      .default(0)
+      .describe("Front downforce coefficient Cl|advanced"),
+    ClRear: z
+      .number()
+      .min(0)
+      .max(3)
+      .default(0)
+      .describe("Rear downforce coefficient Cl|advanced"),
+    frontalArea: z
+      .number()
+      .min(0.5)
+      .max(5)
+      .default(2.2)
+      .describe("Frontal area [m²]|advanced"),
+    Cd: z
+      .number()
+      .min(0.1)
+      .max(1.5)
+      .default(0.3)
+      .describe("Drag coefficient Cd|advanced"),
+    bankDeg: z
+      .number()
+      .min(-20)
+      .max(20)
+      .default(0)
+      .describe("Road bank angle [deg] (+ raises the right edge)|advanced"),
+    muLayout: z
+      .enum(["uniform", "splitMu", "wetPatch"])
+      .default("uniform")
+      .describe("Road friction layout|advanced"),
+    muLow: z
+      .number()
+      .min(0.05)
+      .max(2)
+      .default(0.3)
+      .describe("Low-mu zone friction|advanced"),
+    muZoneStart: z
+      .number()
+      .min(0)
+      .max(500)
+      .default(20)
+      .describe("Low-mu zone start x [m]|advanced"),
+    muZoneLength: z
+      .number()
+      .min(1)
+      .max(500)
+      .default(30)
+      .describe("Wet patch length [m]|advanced"),
+    loadSensitiveStiffness: z
+      .boolean()
+      .default(false)
+      .describe("Cornering stiffness varies with lateral load transfer|advanced"),
+    tyreDegressivity: z
+      .number()
+      .min(0)
+      .max(1)
+      .default(0.3)
+      .describe("Tyre load degressivity [-]|advanced"),
+    frontRollShare: z
+      .number()
+      .min(0)
+      .max(1)
+      .default(0.55)
+      .describe("Front share of lateral load transfer|advanced"),
+    tyreThermal: z
+      .boolean()
+      .default(false)
+      .describe("Tyre temperature and wear scale mu|advanced"),
+    ambientTemp: z
+      .number()
+      .min(-20)
+      .max(50)
+      .default(20)
+      .describe("Ambient temperature [°C]|advanced"),
+    tyreOptimalTemp: z
+      .number()
+      .min(30)
+      .max(150)
+      .default(90)
+      .describe("Tyre optimal temperature [°C]|advanced"),
+    tyreHeatCapacity: z
+      .number()
+      .min(1000)
+      .max(100000)
+      .default(12000)
+      .describe("Tyre heat capacity per axle [J/K]|advanced"),
+    relaxationLength: z
+      .number()
+      .min(0)
+      .max(2)
+      .default(0)
+      .describe("Tyre relaxation length [m] (0 = instant slip)|advanced"),
+    rearSteerMode: z
+      .enum(["off", "speedRatio", "yawFeedback"])
+      .default("off")
+      .describe("Active rear steer|advanced"),
+    rearSteerRatio: z
+      .number()
+      .min(0)
+      .max(0.5)
+      .default(0.15)
+      .describe("Rear/front steer ratio at high speed|advanced"),
+    rearSteerCrossover: z
+      .number()
+      .min(1)
+      .max(60)
+      .default(15)
+      .describe("Rear steer phase crossover speed [m/s]|advanced"),
+    rearSteerYawGain: z
+      .number()
+      .min(-0.5)
+      .max(0.5)
+      .default(0.1)
+      .describe("Rear steer per yaw rate [s]|advanced"),
+    yawMomentSteerGain: z
+      .number()
+      .min(-100000)
+      .max(100000)
+      .default(0)
+      .describe("Torque vectoring yaw moment per steer [N·m/rad]|advanced"),
+    yawMomentYawGain: z
+      .number()
+      .min(-50000)
+      .max(50000)
+      .default(0)
+      .describe("Torque vectoring yaw moment per yaw rate [N·m·s/rad]|advanced"),
+    integrator: integratorField,
+    ...adaptiveToleranceFields,
     dt: z
       .number()
       .min(0.002)
@@ -112,16 +276,38 @@ type Lin2DofState = {
   psi: number;
   x: number;
   y: number;
+  alphaFront: number;
+  alphaRear: number;
   vyDot: number;
   ay: number;
   slipFront: number;
   slipRear: number;
   FyFront: number;
   FyRear: number;
+  /** Axle cornering stiffness in use after load transfer [N/rad]. */
+  CfEffective: number;
+  CrEffective: number;
+  frontUtilization: number;
+  rearUtilization: number;
   frontLimited: number;
   rearLimited: number;
   vxEffective: number;
+  downforce: number;
+  dragForce: number;
+  muFront: number;
+  muRear: number;
+  /** Tread temperature [°C] and worn tread share [-] per axle. */
+  tyreTempFront: number;
+  tyreTempRear: number;
+  tyreWearFront: number;
+  tyreWearRear: number;
+  rearSteer: number;
+  activeYawMoment: number;
   dtClamped: number;
+  /** Integrator substeps accepted and rejected so far, and the largest substep of the last frame [s]. */
+  stepsAccepted: number;
+  stepsRejected: number;
+  stepSize: number;
 };
 
 type StateDerivative = {
@@ -130,34 +316,47 @@ type StateDerivative = {
   psi: number;
   x: number;
   y: number;
+  alphaFront: number;
+  alphaRear: number;
 };
 
 type StepDiagnostics = {
   slipAngles: SlipAngles;
   forces: LateralForces;
+  stiffness: { front: number; rear: number };
   vyDot: number;
   ay: number;
+  utilization: { front: number; rear: number };
+  mu: { front: number; rear: number };
   limitFront: boolean;
   limitRear: boolean;
+  rearSteer: number;
+  yawMoment: number;
 };
 
 type BicycleContext = {
   vehicle: VehicleParams;
   coeffs: LinearBicycleCoefficients;
+  /** Aero loads at the model's constant speed; downforce is already in `coeffs.staticLoads`. */
+  aero: AeroLoads;
+  road: RoadDescription;
+  gravity: RoadGravity;
   frictionEnabled: boolean;
-  processNoise: boolean;
+  /** vx/σ of the tyre lag states [1/s]; 0 applies slip instantly. */
+  relaxationRate: number;
+  /** Degressivity and roll split when stiffness follows load transfer; null keeps Cf/Cr. */
+  loadSensitivity: { degressivity: number; frontRollShare: number } | null;
+  /** Rear steer and direct yaw-moment laws at the model's constant speed. */
+  actuators: ActuatorGains;
+  /** Tread heating and wear; null keeps the road mu as it is. */
+  thermal: TyreThermalParams | null;
+  /** Process noise source; null when noise is off or the caller passed no context. */
+  rng: Rng | null;
   noiseStd: number;
   dtClamped: boolean;
 };
 
-const addNoise = (value: number, enabled: boolean, std: number) => {
-  if (!enabled || std <= 0) {
-    return value;
-  }
-  return value + (Math.random() * 2 - 1) * std;
-};
-
-const buildContext = (params: Lin2DofParams, dtClamped: boolean): BicycleContext => {
+const buildContext = (params: Lin2DofParams, dt: number, dtClamped: boolean, rng: Rng | null): BicycleContext => {
   const vehicle = createVehicleParams({
     m: params.m,
     Iz: params.Iz,
@@ -168,18 +367,79 @@ const buildContext = (params: Lin2DofParams, dtClamped: boolean): BicycleContext
     mu: params.mu,
     track: params.trackWidth,
     hCg: params.hCg,
+    ClFront: params.ClFront,
+    ClRear: params.ClRear,
+    Cd: params.Cd,
+    frontalArea: params.frontalArea,
   });
   const coeffs = deriveLinearBicycleCoeffs(vehicle, params.v);
+  const relaxationLength = params.relaxationLength ?? 0;
+  // A lag shorter than half a step cannot be resolved by the explicit fixed-step integrators; treat it
+  // as instant. RK45 shrinks its substeps to follow the lag and TR-BDF2 stays stable across it.
+  const resolvable = handlesStiffness(params.integrator) || relaxationLength / Math.abs(coeffs.vx) >= dt / 2;
+  const relaxationRate =
+    relaxationLength > 0 && resolvable
+      ? Math.abs(coeffs.vx) / relaxationLength
+      : 0;
+  const road = createRoadDescription(params);
   return {
     vehicle,
     coeffs,
+    aero: computeAeroLoads(vehicle, coeffs.vx),
+    road,
+    gravity: roadGravity(road, vehicle.g),
     frictionEnabled: params.useFrictionClamp,
-    processNoise: params.processNoise,
+    relaxationRate,
+    loadSensitivity: params.loadSensitiveStiffness
+      ? { degressivity: params.tyreDegressivity, frontRollShare: params.frontRollShare }
+      : null,
+    actuators: actuatorGains(activeChassisFromParams(params), coeffs.vx),
+    thermal: params.tyreThermal
+      ? {
+          ...DEFAULT_TYRE_THERMAL_PARAMS,
+          ambientTemp: params.ambientTemp,
+          optimalTemp: params.tyreOptimalTemp,
+          heatCapacity: params.tyreHeatCapacity,
+        }
+      : null,
+    rng: params.processNoise ? rng : null,
     noiseStd: params.noiseStd,
     dtClamped,
   };
 };
 
+/**
+ * Axle cornering stiffness after lateral load transfer. The transfer follows the felt ay of the
+ * previous step, as in the twin-track model, so it does not form an algebraic loop.
+ */
+const axleStiffness = (state: Lin2DofState, ctx: BicycleContext): { front: number; rear: number } => {
+  const { vehicle, loadSensitivity } = ctx;
+  if (!loadSensitivity) {
+    return { front: vehicle.Cf, rear: vehicle.Cr };
+  }
+  const loads = computeWheelLoads(vehicle, { ax: 0, ay: state.ay, frontRollShare: loadSensitivity.frontRollShare });
+  const nominal = computeStaticLoads(vehicle);
+  return {
+    front: loadSensitiveAxleStiffness(
+      vehicle.Cf,
+      { left: loads.frontLeft, right: loads.frontRight },
+      nominal.front / 2,
+      loadSensitivity.degressivity
+    ),
+    rear: loadSensitiveAxleStiffness(
+      vehicle.Cr,
+      { left: loads.rearLeft, right: loads.rearRight },
+      nominal.rear / 2,
+      loadSensitivity.degressivity
+    ),
+  };
+};
+
+const thermalState = (state: Lin2DofState): TyreThermalState => ({
+  front: { temperature: state.tyreTempFront, wear: state.tyreWearFront },
+  rear: { temperature: state.tyreTempRear, wear: state.tyreWearRear },
+});
+
 const derivatives = (
   state: Lin2DofState,
   inputs: SimInputs,
@@ -188,6 +448,17 @@ const derivatives = (
   diagnostics?: StepDiagnostics
 ): StateDerivative => {
   const delta = inputs.steer ?? 0;
+  const command = actuatorCommand(ctx.actuators, delta, state.r);
+  const rearSteer = command.rearSteer + (inputs.rearSteer ?? 0);
+  const activeYawMoment = command.yawMoment + (inputs.yawMoment ?? 0);
+  const tyres = thermalState(state);
+  const grip = ctx.thermal
+    ? { front: thermalGripFactor(tyres.front, ctx.thermal), rear: thermalGripFactor(tyres.rear, ctx.thermal) }
+    : { front: 1, rear: 1 };
+  // Tread temperature and wear scale the linear tyre as well as its friction limit, so a hot or cold
+  // tyre changes the response even with the clamp off.
+  const baseStiffness = axleStiffness(state, ctx);
+  const stiffness = { front: baseStiffness.front * grip.front, rear: baseStiffness.rear * grip.rear };
 
   const slipResult = computeSlipAndForces(
     {
@@ -197,33 +468,65 @@ const derivatives = (
       a: ctx.vehicle.a,
       b: ctx.vehicle.b,
       steer: delta,
+      rearSteer,
     },
-    { Cf: ctx.vehicle.Cf, Cr: ctx.vehicle.Cr }
+    { Cf: stiffness.front, Cr: stiffness.rear }
   );
 
-  let FyFront = slipResult.forces.front;
-  let FyRear = slipResult.forces.rear;
+  const lagged = ctx.relaxationRate > 0;
+  const slipAngles = lagged
+    ? { front: state.alphaFront, rear: state.alphaRear }
+    : slipResult.angles;
+  const alphaFrontDot = lagged ? ctx.relaxationRate * (slipResult.angles.front - state.alphaFront) : 0;
+  const alphaRearDot = lagged ? ctx.relaxationRate * (slipResult.angles.rear - state.alphaRear) : 0;
+
+  let FyFront = lagged ? stiffness.front * slipAngles.front : slipResult.forces.front;
+  let FyRear = lagged ? stiffness.rear * slipAngles.rear : slipResult.forces.rear;
   let limitFront = false;
   let limitRear = false;
+  const { normalScale } = ctx.gravity;
+  const loads = {
+    front: ctx.coeffs.staticLoads.front * normalScale,
+    rear: ctx.coeffs.staticLoads.rear * normalScale,
+  };
+  const frontAxle = bodyToWorld(state.x, state.y, state.psi, ctx.vehicle.a, 0);
+  const rearAxle = bodyToWorld(state.x, state.y, state.psi, -ctx.vehicle.b, 0);
+  const mu = {
+    front: muAt(ctx.road, frontAxle.x, frontAxle.y, ctx.vehicle.mu) * grip.front,
+    rear: muAt(ctx.road, rearAxle.x, rearAxle.y, ctx.vehicle.mu) * grip.rear,
+  };
+  const utilization = {
+    front: frictionDemandRatio({ Fx: 0, Fy: FyFront }, loads.front, mu.front),
+    rear: frictionDemandRatio({ Fx: 0, Fy: FyRear }, loads.rear, mu.rear),
+  };
 
   if (ctx.frictionEnabled) {
-    const clampResult = clampLateralForces({
-      FyFront,
-      FyRear,
-      params: ctx.vehicle,
+    const clampResult = clampAxleForces({
+      front: { Fx: 0, Fy: FyFront },
+      rear: { Fx: 0, Fy: FyRear },
+      loads,
+      mu,
     });
-    FyFront = clampResult.front;
-    FyRear = clampResult.rear;
+    FyFront = clampResult.front.Fy;
+    FyRear = clampResult.rear.Fy;
+    utilization.front = clampResult.front.utilization;
+    utilization.rear = clampResult.rear.utilization;
     limitFront = clampResult.limitFlags.front;
     limitRear = clampResult.limitFlags.rear;
   }
 
-  let vyDot = (FyFront + FyRear) / ctx.vehicle.m - ctx.coeffs.vx * state.r;
-  let rDot = (ctx.vehicle.a * FyFront - ctx.vehicle.b * FyRear) / ctx.vehicle.Iz;
+  const external = inputs.disturbance;
+  let vyDot = (FyFront + FyRear + (external?.Fy ?? 0)) / ctx.vehicle.m + ctx.gravity.ay - ctx.coeffs.vx * state.r;
+  // Constant speed: individual wheel brakes act only through their yaw moment.
+  const brakeMoment = wheelBrakeYawMoment(inputs.wheelBrakeForces, ctx.vehicle.track);
+  // The rear tyre force is taken along the body y-axis; rear steer stays small enough for that.
+  let rDot =
+    (ctx.vehicle.a * FyFront - ctx.vehicle.b * FyRear + (external?.Mz ?? 0) + brakeMoment + activeYawMoment) /
+    ctx.vehicle.Iz;
 
-  if (stochastic && ctx.processNoise) {
-    vyDot = addNoise(vyDot, true, ctx.noiseStd);
-    rDot = addNoise(rDot, true, ctx.noiseStd);
+  if (stochastic && ctx.rng) {
+    vyDot = addNoise(vyDot, ctx.noiseStd, ctx.rng);
+    rDot = addNoise(rDot, ctx.noiseStd, ctx.rng);
   }
 
   const psiDot = state.r;
@@ -233,12 +536,18 @@ const derivatives = (
   const yDot = ctx.coeffs.vx * sinPsi + state.vy * cosPsi;
 
   if (diagnostics) {
-    diagnostics.slipAngles = slipResult.angles;
+    diagnostics.slipAngles = slipAngles;
     diagnostics.forces = { front: FyFront, rear: FyRear };
+    diagnostics.stiffness = stiffness;
     diagnostics.vyDot = vyDot;
-    diagnostics.ay = computeAy(ctx.coeffs.vx, state.r, vyDot);
+    // Report the tyre-force (accelerometer) lateral acceleration; the bank's gravity share is not felt.
+    diagnostics.ay = computeAy(ctx.coeffs.vx, state.r, vyDot) - ctx.gravity.ay;
+    diagnostics.utilization = utilization;
+    diagnostics.mu = mu;
     diagnostics.limitFront = limitFront;
     diagnostics.limitRear = limitRear;
+    diagnostics.rearSteer = rearSteer;
+    diagnostics.yawMoment = activeYawMoment;
   }
 
   return {
@@ -247,50 +556,45 @@ const derivatives = (
     psi: psiDot,
     x: xDot,
     y: yDot,
+    alphaFront: alphaFrontDot,
+    alphaRear: alphaRearDot,
   };
 };
 
-const addScaled = (
-  state: Lin2DofState,
-  derivative: StateDerivative,
-  scale: number
-): Lin2DofState => ({
-  ...state,
-  vy: state.vy + derivative.vy * scale,
-  r: state.r + derivative.r * scale,
-  psi: state.psi + derivative.psi * scale,
-  x: state.x + derivative.x * scale,
-  y: state.y + derivative.y * scale,
-});
-
-const finalizeState = (
-  state: Lin2DofState,
-  deriv: StateDerivative,
-  dt: number
-): Lin2DofState => ({
-  ...state,
-  vy: state.vy + deriv.vy * dt,
-  r: state.r + deriv.r * dt,
-  psi: state.psi + deriv.psi * dt,
-  x: state.x + deriv.x * dt,
-  y: state.y + deriv.y * dt,
-});
-
 const postStep = (
   state: Lin2DofState,
   inputs: SimInputs,
-  ctx: BicycleContext
+  ctx: BicycleContext,
+  dt: number
 ): Lin2DofState => {
   const diagnostics: StepDiagnostics = {
     slipAngles: { front: state.slipFront, rear: state.slipRear },
     forces: { front: state.FyFront, rear: state.FyRear },
+    stiffness: { front: state.CfEffective, rear: state.CrEffective },
     vyDot: state.vyDot,
     ay: state.ay,
+    utilization: { front: state.frontUtilization, rear: state.rearUtilization },
+    mu: { front: state.muFront, rear: state.muRear },
     limitFront: Boolean(state.frontLimited),
     limitRear: Boolean(state.rearLimited),
+    rearSteer: state.rearSteer,
+    yawMoment: state.activeYawMoment,
   };
 
   const deriv = derivatives(state, inputs, ctx, true, diagnostics);
+  // The tread heats on the forces of the finished step; one Euler step is ample for its slow dynamics.
+  const tyres = ctx.thermal
+    ? stepTyreThermal(
+        thermalState(state),
+        {
+          front: slipPower(diagnostics.forces.front, diagnostics.slipAngles.front, ctx.coeffs.vx),
+          rear: slipPower(diagnostics.forces.rear, diagnostics.slipAngles.rear, ctx.coeffs.vx),
+        },
+        ctx.coeffs.vx,
+        dt,
+        ctx.thermal
+      )
+    : thermalState(state);
 
   return {
     ...state,
@@ -298,57 +602,56 @@ const postStep = (
     ay: diagnostics.ay,
     slipFront: diagnostics.slipAngles.front,
     slipRear: diagnostics.slipAngles.rear,
+    // Without lag the slip states track the steady slip so the lag can be switched on mid-run.
+    alphaFront: diagnostics.slipAngles.front,
+    alphaRear: diagnostics.slipAngles.rear,
     FyFront: diagnostics.forces.front,
     FyRear: diagnostics.forces.rear,
+    CfEffective: diagnostics.stiffness.front,
+    CrEffective: diagnostics.stiffness.rear,
+    frontUtilization: diagnostics.utilization.front,
+    rearUtilization: diagnostics.utilization.rear,
     frontLimited: diagnostics.limitFront ? 1 : 0,
     rearLimited: diagnostics.limitRear ? 1 : 0,
     vxEffective: ctx.coeffs.vx,
+    downforce: ctx.aero.front + ctx.aero.rear,
+    dragForce: ctx.aero.drag,
+    muFront: diagnostics.mu.front,
+    muRear: diagnostics.mu.rear,
+    tyreTempFront: tyres.front.temperature,
+    tyreTempRear: tyres.rear.temperature,
+    tyreWearFront: tyres.front.wear,
+    tyreWearRear: tyres.rear.wear,
+    rearSteer: diagnostics.rearSteer,
+    activeYawMoment: diagnostics.yawMoment,
     dtClamped: ctx.dtClamped ? 1 : 0,
   };
 };
 
-const rk4Step = (
-  state: Lin2DofState,
-  inputs: SimInputs,
-  ctx: BicycleContext,
-  dt: number
-): Lin2DofState => {
-  const k1 = derivatives(state, inputs, ctx);
-  const k2 = derivatives(addScaled(state, k1, dt / 2), inputs, ctx);
-  const k3 = derivatives(addScaled(state, k2, dt / 2), inputs, ctx);
-  const k4 = derivatives(addScaled(state, k3, dt), inputs, ctx);
-
-  const next: Lin2DofState = {
-    ...state,
-    vy:
-      state.vy +
-      (dt / 6) * (k1.vy + 2 * k2.vy + 2 * k3.vy + k4.vy),
-    r:
-      state.r +
-      (dt / 6) * (k1.r + 2 * k2.r + 2 * k3.r + k4.r),
-    psi:
-      state.psi +
-      (dt / 6) * (k1.psi + 2 * k2.psi + 2 * k3.psi + k4.psi),
-    x:
-      state.x +
-      (dt / 6) * (k1.x + 2 * k2.x + 2 * k3.x + k4.x),
-    y:
-      state.y +
-      (dt / 6) * (k1.y + 2 * k2.y + 2 * k3.y + k4.y),
-  };
+const INTEGRATED_KEYS = ["vy", "r", "psi", "x", "y", "alphaFront", "alphaRear"] as const;
 
-  return postStep(next, inputs, ctx);
-};
-
-const semiImplicitEulerStep = (
+const integrateStep = (
   state: Lin2DofState,
   inputs: SimInputs,
   ctx: BicycleContext,
-  dt: number
+  dt: number,
+  params: Lin2DofParams
 ): Lin2DofState => {
-  const deriv = derivatives(state, inputs, ctx);
-  const predicted = finalizeState(state, deriv, dt);
-  return postStep(predicted, inputs, ctx);
+  const { state: integrated, stats } = integrateState(
+    params.integrator,
+    (current) => derivatives(current, inputs, ctx),
+    state,
+    INTEGRATED_KEYS,
+    dt,
+    { rtol: params.rtol, atol: params.atol, initialStep: state.stepSize > 0 ? state.stepSize : dt }
+  );
+  const next = postStep(integrated, inputs, ctx, dt);
+  return {
+    ...next,
+    stepsAccepted: state.stepsAccepted + stats.accepted,
+    stepsRejected: state.stepsRejected + stats.rejected,
+    stepSize: stats.stepSize,
+  };
 };
 
 export const Lin2DOF: ModelDef<Lin2DofParams, Lin2DofState> = {
@@ -356,38 +659,60 @@ export const Lin2DOF: ModelDef<Lin2DofParams, Lin2DofState> = {
   label: "2-DOF Linear Bicycle",
   schema,
   defaults: schema.parse({}),
-  init: () => ({
+  init: (params) => ({
     vy: 0,
     r: 0,
     psi: 0,
     x: 0,
     y: 0,
+    alphaFront: 0,
+    alphaRear: 0,
     vyDot: 0,
     ay: 0,
     slipFront: 0,
     slipRear: 0,
     FyFront: 0,
     FyRear: 0,
+    CfEffective: params.Cf,
+    CrEffective: params.Cr,
+    frontUtilization: 0,
+    rearUtilization: 0,
     frontLimited: 0,
     rearLimited: 0,
     vxEffective: 0,
+    downforce: 0,
+    dragForce: 0,
+    muFront: params.mu,
+    muRear: params.mu,
+    tyreTempFront: params.ambientTemp,
+    tyreTempRear: params.ambientTemp,
+    tyreWearFront: 0,
+    tyreWearRear: 0,
+    rearSteer: 0,
+    activeYawMoment: 0,
     dtClamped: 0,
+    stepsAccepted: 0,
+    stepsRejected: 0,
+    stepSize: params.dt,
   }),
-  step: (state, inputs, dtArg, params) => {
+  step: (state, inputs, dtArg, params, context) => {
     const requestedDt = params.dt ?? dtArg;
-    const guard = enforceDtBounds("lin2dof", requestedDt);
-    const ctx = buildContext(params, guard.clamped);
-
-    if (params.integrator === "semiImplicitEuler") {
-      return semiImplicitEulerStep(state, inputs, ctx, guard.dt);
-    }
-    return rk4Step(state, inputs, ctx, guard.dt);
+    const guard = enforceDtBounds("lin2dof", requestedDt, params.integrator);
+    const ctx = buildContext(params, guard.dt, guard.clamped, context?.rng ?? null);
+    return integrateStep(state, inputs, ctx, guard.dt, params);
+  },
+  derivatives: (state, inputs, params) => {
+    const ctx = buildContext(params, params.dt, false, null);
+    const { alphaFront, alphaRear, ...rigidBody } = derivatives(state, inputs, ctx);
+    // Without tyre lag the slip states are algebraic, so they are only states when lagged.
+    return ctx.relaxationRate > 0 ? { ...rigidBody, alphaFront, alphaRear } : rigidBody;
   },
   outputs: (state, params) => ({
     t: 0,
     x: state.x,
     y: state.y,
     psi: state.psi,
+    vx: state.vxEffective,
     vy: state.vy,
     r: state.r,
     ay: state.ay,
@@ -398,10 +723,24 @@ export const Lin2DOF: ModelDef<Lin2DofParams, Lin2DofState> = {
       slipRear: state.slipRear,
       FyFront: state.FyFront,
       FyRear: state.FyRear,
+      CfEffective: state.CfEffective,
+      CrEffective: state.CrEffective,
+      frontUtilization: state.frontUtilization,
+      rearUtilization: state.rearUtilization,
       frontLimited: state.frontLimited,
       rearLimited: state.rearLimited,
       vxEffective: state.vxEffective,
+      downforce: state.downforce,
+      dragForce: state.dragForce,
+      muFront: state.muFront,
+      muRear: state.muRear,
+      ...tyreThermalNotes(thermalState(state)),
+      rearSteer: state.rearSteer,
+      activeYawMoment: state.activeYawMoment,
       dtClamped: state.dtClamped,
+      stepsAccepted: state.stepsAccepted,
+      stepsRejected: state.stepsRejected,
+      stepSize: state.stepSize,
     },
   }),
   geometry: (params) => ({
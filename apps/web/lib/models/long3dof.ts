@@ -0,0 +1,600 @@
+import { z } from "zod";
+import type { ModelDef, SimInputs } from "../sim/core";
+import { adaptiveToleranceFields, integrateState, integratorField } from "../sim/integrators";
+import { addNoise, type Rng } from "../sim/random";
+import { computeAeroLoads, computeAxleLoads, createVehicleParams, type VehicleParams } from "@/lib/vehicle/params";
+import {
+  computeSlipAndForces,
+  type LateralForces,
+  type SlipAngles,
+} from "@/lib/vehicle/slipAndForces";
+import {
+  computeAeroDrag,
+  computeLongitudinalForces,
+  computeRollingResistance,
+  type DrivelineParams,
+  type LongitudinalForces,
+} from "@/lib/vehicle/longitudinal";
+import { clampAxleForces, frictionDemandRatio } from "@/lib/vehicle/frictionClamp";
+import { enforceDtBounds } from "@/lib/vehicle/dtGuards";
+import { wheelBrakeAxleForces, wheelBrakeYawMoment } from "@/lib/vehicle/esc";
+import {
+  bodyToWorld,
+  createRoadDescription,
+  muAt,
+  roadGravity,
+  type RoadDescription,
+  type RoadGravity,
+} from "@/lib/vehicle/road";
+
+const schema = z
+  .object({
+    m: z
+      .number()
+      .min(200)
+      .max(5000)
+      .default(1500)
+      .describe("Mass [kg]|basic"),
+    Iz: z
+      .number()
+      .min(500)
+      .max(10000)
+      .default(2250)
+      .describe("Yaw inertia [kg·m²]|basic"),
+    a: z
+      .number()
+      .min(0.5)
+      .max(2.5)
+      .default(1.2)
+      .describe("CG to front axle [m]|basic"),
+    b: z
+      .number()
+      .min(0.5)
+      .max(2.5)
+      .default(1.6)
+      .describe("CG to rear axle [m]|basic"),
+    Cf: z
+      .number()
+      .min(1000)
+      .max(300000)
+      .default(80000)
+      .describe("Front cornering stiffness [N/rad]|basic"),
+    Cr: z
+      .number()
+      .min(1000)
+      .max(300000)
+      .default(80000)
+      .describe("Rear cornering stiffness [N/rad]|basic"),
+    v: z
+      .number()
+      .min(0)
+      .max(80)
+      .default(25)
+      .describe("Initial forward speed [m/s]|basic"),
+    maxDriveForce: z
+      .number()
+      .min(0)
+      .max(20000)
+      .default(6000)
+      .describe("Max drive force [N]|basic"),
+    maxBrakeForce: z
+      .number()
+      .min(0)
+      .max(30000)
+      .default(12000)
+      .describe("Max brake force [N]|basic"),
+    brakeBias: z
+      .number()
+      .min(0)
+      .max(1)
+      .default(0.65)
+      .describe("Front brake bias|advanced"),
+    driveFront: z
+      .number()
+      .min(0)
+      .max(1)
+      .default(0)
+      .describe("Front drive share (0 = RWD, 1 = FWD)|advanced"),
+    Crr: z
+      .number()
+      .min(0)
+      .max(0.05)
+      .default(0.012)
+      .describe("Rolling resistance coefficient|advanced"),
+    CdA: z
+      .number()
+      .min(0)
+      .max(3)
+      .default(0.7)
+      .describe("Drag area CdA [m²]|advanced"),
+    ClFront: z
+      .number()
+      .min(0)
+      .max(3)
+      .default(0)
+      .describe("Front downforce coefficient Cl|advanced"),
+    ClRear: z
+      .number()
+      .min(0)
+      .max(3)
+      .default(0)
+      .describe("Rear downforce coefficient Cl|advanced"),
+    frontalArea: z
+      .number()
+      .min(0.5)
+      .max(5)
+      .default(2.2)
+      .describe("Frontal area [m²]|advanced"),
+    mu: z
+      .number()
+      .min(0.1)
+      .max(2)
+      .default(1)
+      .describe("Friction coefficient mu|advanced"),
+    trackWidth: z
+      .number()
+      .min(1)
+      .max(2.5)
+      .default(1.6)
+      .describe("Track width [m]|advanced"),
+    hCg: z
+      .number()
+      .min(0.2)
+      .max(1.2)
+      .default(0.55)
+      .describe("CG height [m]|advanced"),
+    bankDeg: z
+      .number()
+      .min(-20)
+      .max(20)
+      .default(0)
+      .describe("Road bank angle [deg] (+ raises the right edge)|advanced"),
+    gradeDeg: z
+      .number()
+      .min(-20)
+      .max(20)
+      .default(0)
+      .describe("Road grade [deg] (+ uphill)|advanced"),
+    muLayout: z
+      .enum(["uniform", "splitMu", "wetPatch"])
+      .default("uniform")
+      .describe("Road friction layout|advanced"),
+    muLow: z
+      .number()
+      .min(0.05)
+      .max(2)
+      .default(0.3)
+      .describe("Low-mu zone friction|advanced"),
+    muZoneStart: z
+      .number()
+      .min(0)
+      .max(500)
+      .default(20)
+      .describe("Low-mu zone start x [m]|advanced"),
+    muZoneLength: z
+      .number()
+      .min(1)
+      .max(500)
+      .default(30)
+      .describe("Wet patch length [m]|advanced"),
+    integrator: integratorField,
+    ...adaptiveToleranceFields,
+    dt: z
+      .number()
+      .min(0.002)
+      .max(0.05)
+      .default(0.01)
+      .describe("Time step [s]|advanced"),
+    useFrictionClamp: z
+      .boolean()
+      .default(true)
+      .describe("Clamp tyre forces by mu|advanced"),
+    processNoise: z
+      .boolean()
+      .default(false)
+      .describe("Process noise|advanced"),
+    noiseStd: z
+      .number()
+      .min(0)
+      .max(2)
+      .default(0.05)
+      .describe("Process noise std|advanced"),
+  })
+  .describe("3-DOF bicycle model with longitudinal dynamics");
+
+type Long3DofParams = z.infer<typeof schema>;
+
+type Long3DofState = {
+  vx: number;
+  vy: number;
+  r: number;
+  psi: number;
+  x: number;
+  y: number;
+  vxDot: number;
+  vyDot: number;
+  ax: number;
+  ay: number;
+  slipFront: number;
+  slipRear: number;
+  FxFront: number;
+  FxRear: number;
+  FyFront: number;
+  FyRear: number;
+  dragForce: number;
+  downforce: number;
+  rollingForce: number;
+  frontUtilization: number;
+  rearUtilization: number;
+  frontLimited: number;
+  rearLimited: number;
+  vxEffective: number;
+  muFront: number;
+  muRear: number;
+  dtClamped: number;
+  /** Integrator substeps accepted and rejected so far, and the largest substep of the last frame [s]. */
+  stepsAccepted: number;
+  stepsRejected: number;
+  stepSize: number;
+};
+
+type StateDerivative = {
+  vx: number;
+  vy: number;
+  r: number;
+  psi: number;
+  x: number;
+  y: number;
+};
+
+type StepDiagnostics = {
+  slipAngles: SlipAngles;
+  lateral: LateralForces;
+  longitudinal: LongitudinalForces;
+  drag: number;
+  rolling: number;
+  ax: number;
+  ay: number;
+  vxEffective: number;
+  utilization: { front: number; rear: number };
+  mu: { front: number; rear: number };
+  limitFront: boolean;
+  limitRear: boolean;
+};
+
+type LongitudinalContext = {
+  vehicle: VehicleParams;
+  driveline: DrivelineParams;
+  Crr: number;
+  CdA: number;
+  road: RoadDescription;
+  gravity: RoadGravity;
+  frictionEnabled: boolean;
+  /** Process noise source; null when noise is off or the caller passed no context. */
+  rng: Rng | null;
+  noiseStd: number;
+  dtClamped: boolean;
+};
+
+const downforceAt = (vehicle: VehicleParams, vx: number) => {
+  const aero = computeAeroLoads(vehicle, vx);
+  return aero.front + aero.rear;
+};
+
+const buildContext = (params: Long3DofParams, dtClamped: boolean, rng: Rng | null): LongitudinalContext => {
+  const vehicle = createVehicleParams({
+    m: params.m,
+    Iz: params.Iz,
+    a: params.a,
+    b: params.b,
+    Cf: params.Cf,
+    Cr: params.Cr,
+    mu: params.mu,
+    track: params.trackWidth,
+    hCg: params.hCg,
+    ClFront: params.ClFront,
+    ClRear: params.ClRear,
+    Cd: params.CdA / params.frontalArea,
+    frontalArea: params.frontalArea,
+  });
+  const road = createRoadDescription(params);
+  return {
+    vehicle,
+    driveline: {
+      maxDriveForce: params.maxDriveForce,
+      maxBrakeForce: params.maxBrakeForce,
+      brakeBias: params.brakeBias,
+      driveFront: params.driveFront,
+    },
+    Crr: params.Crr,
+    CdA: params.CdA,
+    road,
+    gravity: roadGravity(road, vehicle.g),
+    frictionEnabled: params.useFrictionClamp,
+    rng: params.processNoise ? rng : null,
+    noiseStd: params.noiseStd,
+    dtClamped,
+  };
+};
+
+const derivatives = (
+  state: Long3DofState,
+  inputs: SimInputs,
+  ctx: LongitudinalContext,
+  stochastic = false,
+  diagnostics?: StepDiagnostics
+): StateDerivative => {
+  const delta = inputs.steer ?? 0;
+  const vx = Math.max(state.vx, 0);
+
+  const slipResult = computeSlipAndForces(
+    {
+      vy: state.vy,
+      r: state.r,
+      vx,
+      a: ctx.vehicle.a,
+      b: ctx.vehicle.b,
+      steer: delta,
+    },
+    { Cf: ctx.vehicle.Cf, Cr: ctx.vehicle.Cr }
+  );
+
+  let FyFront = slipResult.forces.front;
+  let FyRear = slipResult.forces.rear;
+  const wheelBrakes = wheelBrakeAxleForces(inputs.wheelBrakeForces);
+  const axleDrive = computeLongitudinalForces(inputs, ctx.driveline, vx);
+  let FxFront = axleDrive.front - wheelBrakes.front;
+  let FxRear = axleDrive.rear - wheelBrakes.rear;
+  let limitFront = false;
+  let limitRear = false;
+
+  // Axle loads lag one step behind ax so the friction limit does not form an algebraic loop.
+  const { normalScale } = ctx.gravity;
+  const axleLoads = computeAxleLoads(ctx.vehicle, state.ax, vx);
+  const loads = { front: axleLoads.front * normalScale, rear: axleLoads.rear * normalScale };
+  const frontAxle = bodyToWorld(state.x, state.y, state.psi, ctx.vehicle.a, 0);
+  const rearAxle = bodyToWorld(state.x, state.y, state.psi, -ctx.vehicle.b, 0);
+  const mu = {
+    front: muAt(ctx.road, frontAxle.x, frontAxle.y, ctx.vehicle.mu),
+    rear: muAt(ctx.road, rearAxle.x, rearAxle.y, ctx.vehicle.mu),
+  };
+  const utilization = {
+    front: frictionDemandRatio({ Fx: FxFront, Fy: FyFront }, loads.front, mu.front),
+    rear: frictionDemandRatio({ Fx: FxRear, Fy: FyRear }, loads.rear, mu.rear),
+  };
+
+  if (ctx.frictionEnabled) {
+    const clampResult = clampAxleForces({
+      front: { Fx: FxFront, Fy: FyFront },
+      rear: { Fx: FxRear, Fy: FyRear },
+      loads,
+      mu,
+    });
+    FxFront = clampResult.front.Fx;
+    FyFront = clampResult.front.Fy;
+    FxRear = clampResult.rear.Fx;
+    FyRear = clampResult.rear.Fy;
+    utilization.front = clampResult.front.utilization;
+    utilization.rear = clampResult.rear.utilization;
+    limitFront = clampResult.limitFlags.front;
+    limitRear = clampResult.limitFlags.rear;
+  }
+
+  const drag = computeAeroDrag(ctx.CdA, vx);
+  const rolling = computeRollingResistance(ctx.vehicle.m, ctx.vehicle.g * normalScale, ctx.Crr, vx);
+
+  const cosDelta = Math.cos(delta);
+  const sinDelta = Math.sin(delta);
+  const frontX = FxFront * cosDelta - FyFront * sinDelta;
+  const frontY = FxFront * sinDelta + FyFront * cosDelta;
+
+  const ax = (frontX + FxRear - drag - rolling) / ctx.vehicle.m;
+  const external = inputs.disturbance;
+  const ay = (frontY + FyRear + (external?.Fy ?? 0)) / ctx.vehicle.m;
+
+  // ax/ay stay the tyre-force (accelerometer) values that drive load transfer; gravity only moves the body.
+  let vxDot = ax + ctx.gravity.ax + state.vy * state.r;
+  let vyDot = ay + ctx.gravity.ay - vx * state.r;
+  // Single-track body: side-to-side brake differences only show up as a yaw moment.
+  const brakeMoment = wheelBrakeYawMoment(inputs.wheelBrakeForces, ctx.vehicle.track);
+  let rDot = (ctx.vehicle.a * frontY - ctx.vehicle.b * FyRear + (external?.Mz ?? 0) + brakeMoment) / ctx.vehicle.Iz;
+
+  if (vx <= 0 && vxDot < 0) {
+    vxDot = 0;
+  }
+
+  if (stochastic && ctx.rng) {
+    vyDot = addNoise(vyDot, ctx.noiseStd, ctx.rng);
+    rDot = addNoise(rDot, ctx.noiseStd, ctx.rng);
+  }
+
+  const cosPsi = Math.cos(state.psi);
+  const sinPsi = Math.sin(state.psi);
+
+  if (diagnostics) {
+    diagnostics.slipAngles = slipResult.angles;
+    diagnostics.lateral = { front: FyFront, rear: FyRear };
+    diagnostics.longitudinal = { front: FxFront, rear: FxRear };
+    diagnostics.drag = drag;
+    diagnostics.rolling = rolling;
+    diagnostics.ax = ax;
+    diagnostics.ay = ay;
+    diagnostics.vxEffective = slipResult.vxEffective;
+    diagnostics.utilization = utilization;
+    diagnostics.mu = mu;
+    diagnostics.limitFront = limitFront;
+    diagnostics.limitRear = limitRear;
+  }
+
+  return {
+    vx: vxDot,
+    vy: vyDot,
+    r: rDot,
+    psi: state.r,
+    x: vx * cosPsi - state.vy * sinPsi,
+    y: vx * sinPsi + state.vy * cosPsi,
+  };
+};
+
+const postStep = (
+  state: Long3DofState,
+  inputs: SimInputs,
+  ctx: LongitudinalContext
+): Long3DofState => {
+  const settled: Long3DofState = { ...state, vx: Math.max(state.vx, 0) };
+  const diagnostics: StepDiagnostics = {
+    slipAngles: { front: state.slipFront, rear: state.slipRear },
+    lateral: { front: state.FyFront, rear: state.FyRear },
+    longitudinal: { front: state.FxFront, rear: state.FxRear },
+    drag: state.dragForce,
+    rolling: state.rollingForce,
+    ax: state.ax,
+    ay: state.ay,
+    vxEffective: state.vxEffective,
+    utilization: { front: state.frontUtilization, rear: state.rearUtilization },
+    mu: { front: state.muFront, rear: state.muRear },
+    limitFront: Boolean(state.frontLimited),
+    limitRear: Boolean(state.rearLimited),
+  };
+
+  const deriv = derivatives(settled, inputs, ctx, true, diagnostics);
+
+  return {
+    ...settled,
+    vxDot: deriv.vx,
+    vyDot: deriv.vy,
+    ax: diagnostics.ax,
+    ay: diagnostics.ay,
+    slipFront: diagnostics.slipAngles.front,
+    slipRear: diagnostics.slipAngles.rear,
+    FxFront: diagnostics.longitudinal.front,
+    FxRear: diagnostics.longitudinal.rear,
+    FyFront: diagnostics.lateral.front,
+    FyRear: diagnostics.lateral.rear,
+    dragForce: diagnostics.drag,
+    downforce: downforceAt(ctx.vehicle, settled.vx),
+    rollingForce: diagnostics.rolling,
+    frontUtilization: diagnostics.utilization.front,
+    rearUtilization: diagnostics.utilization.rear,
+    frontLimited: diagnostics.limitFront ? 1 : 0,
+    rearLimited: diagnostics.limitRear ? 1 : 0,
+    vxEffective: diagnostics.vxEffective,
+    muFront: diagnostics.mu.front,
+    muRear: diagnostics.mu.rear,
+    dtClamped: ctx.dtClamped ? 1 : 0,
+  };
+};
+
+const INTEGRATED_KEYS = ["vx", "vy", "r", "psi", "x", "y"] as const;
+
+const integrateStep = (
+  state: Long3DofState,
+  inputs: SimInputs,
+  ctx: LongitudinalContext,
+  dt: number,
+  params: Long3DofParams
+): Long3DofState => {
+  const { state: integrated, stats } = integrateState(
+    params.integrator,
+    (current) => derivatives(current, inputs, ctx),
+    state,
+    INTEGRATED_KEYS,
+    dt,
+    { rtol: params.rtol, atol: params.atol, initialStep: state.stepSize > 0 ? state.stepSize : dt }
+  );
+  return {
+    ...postStep(integrated, inputs, ctx),
+    stepsAccepted: state.stepsAccepted + stats.accepted,
+    stepsRejected: state.stepsRejected + stats.rejected,
+    stepSize: stats.stepSize,
+  };
+};
+
+export const Long3DOF: ModelDef<Long3DofParams, Long3DofState> = {
+  id: "long3dof",
+  label: "3-DOF Longitudinal Bicycle",
+  schema,
+  defaults: schema.parse({}),
+  init: (params) => ({
+    vx: params.v,
+    vy: 0,
+    r: 0,
+    psi: 0,
+    x: 0,
+    y: 0,
+    vxDot: 0,
+    vyDot: 0,
+    ax: 0,
+    ay: 0,
+    slipFront: 0,
+    slipRear: 0,
+    FxFront: 0,
+    FxRear: 0,
+    FyFront: 0,
+    FyRear: 0,
+    dragForce: 0,
+    downforce: 0,
+    rollingForce: 0,
+    frontUtilization: 0,
+    rearUtilization: 0,
+    frontLimited: 0,
+    rearLimited: 0,
+    vxEffective: params.v,
+    muFront: params.mu,
+    muRear: params.mu,
+    dtClamped: 0,
+    stepsAccepted: 0,
+    stepsRejected: 0,
+    stepSize: params.dt,
+  }),
+  step: (state, inputs, dtArg, params, context) => {
+    const requestedDt = params.dt ?? dtArg;
+    const guard = enforceDtBounds("long3dof", requestedDt, params.integrator);
+    const ctx = buildContext(params, guard.clamped, context?.rng ?? null);
+    return integrateStep(state, inputs, ctx, guard.dt, params);
+  },
+  derivatives: (state, inputs, params) => derivatives(state, inputs, buildContext(params, false, null)),
+  outputs: (state) => ({
+    t: 0,
+    x: state.x,
+    y: state.y,
+    psi: state.psi,
+    vx: state.vx,
+    vy: state.vy,
+    r: state.r,
+    ay: state.ay,
+    beta: Math.atan2(state.vy, Math.max(state.vx, 1e-3)),
+    notes: {
+      vxDot: state.vxDot,
+      vyDot: state.vyDot,
+      ax: state.ax,
+      slipFront: state.slipFront,
+      slipRear: state.slipRear,
+      FxFront: state.FxFront,
+      FxRear: state.FxRear,
+      FyFront: state.FyFront,
+      FyRear: state.FyRear,
+      dragForce: state.dragForce,
+      downforce: state.downforce,
+      rollingForce: state.rollingForce,
+      frontUtilization: state.frontUtilization,
+      rearUtilization: state.rearUtilization,
+      frontLimited: state.frontLimited,
+      rearLimited: state.rearLimited,
+      vxEffective: state.vxEffective,
+      muFront: state.muFront,
+      muRear: state.muRear,
+      dtClamped: state.dtClamped,
+      stepsAccepted: state.stepsAccepted,
+      stepsRejected: state.stepsRejected,
+      stepSize: state.stepSize,
+    },
+  }),
+  geometry: (params) => ({
+    type: "vehicle",
+    length: params.a + params.b,
+    width: params.trackWidth,
+    wheelbase: params.a + params.b,
+  }),
+  docsSlug: "/docs/models/long3dof",
+};
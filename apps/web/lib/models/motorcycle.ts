@@ -0,0 +1,556 @@
+import { z } from "zod";
+import type { ModelDef, SimInputs } from "../sim/core";
+import { adaptiveToleranceFields, integrateState, integratorField } from "../sim/integrators";
+import { addNoise, type Rng } from "../sim/random";
+import {
+  computeStaticLoads,
+  createVehicleParams,
+  type StaticLoadSplit,
+  type VehicleParams,
+} from "@/lib/vehicle/params";
+import { computeAy } from "@/lib/vehicle/ayYaw";
+import { clamp, clampAxleForces, frictionDemandRatio } from "@/lib/vehicle/frictionClamp";
+import { enforceDtBounds } from "@/lib/vehicle/dtGuards";
+
+const schema = z
+  .object({
+    m: z
+      .number()
+      .min(100)
+      .max(600)
+      .default(250)
+      .describe("Mass incl. rider [kg]|basic"),
+    Ix: z
+      .number()
+      .min(5)
+      .max(200)
+      .default(25)
+      .describe("Roll inertia about CG [kg·m²]|basic"),
+    Iz: z
+      .number()
+      .min(10)
+      .max(300)
+      .default(45)
+      .describe("Yaw inertia [kg·m²]|basic"),
+    a: z
+      .number()
+      .min(0.3)
+      .max(1.2)
+      .default(0.75)
+      .describe("CG to front contact [m]|basic"),
+    b: z
+      .number()
+      .min(0.3)
+      .max(1.2)
+      .default(0.7)
+      .describe("CG to rear contact [m]|basic"),
+    h: z
+      .number()
+      .min(0.3)
+      .max(1.2)
+      .default(0.6)
+      .describe("CG height [m]|basic"),
+    Cf: z
+      .number()
+      .min(1000)
+      .max(60000)
+      .default(14000)
+      .describe("Front cornering stiffness [N/rad]|basic"),
+    Cr: z
+      .number()
+      .min(1000)
+      .max(60000)
+      .default(17000)
+      .describe("Rear cornering stiffness [N/rad]|basic"),
+    CgammaF: z
+      .number()
+      .min(0)
+      .max(5000)
+      .default(1100)
+      .describe("Front camber stiffness [N/rad]|advanced"),
+    CgammaR: z
+      .number()
+      .min(0)
+      .max(5000)
+      .default(1400)
+      .describe("Rear camber stiffness [N/rad]|advanced"),
+    trail: z
+      .number()
+      .min(0)
+      .max(0.25)
+      .default(0.1)
+      .describe("Mechanical trail [m]|advanced"),
+    steerStiffness: z
+      .number()
+      .min(500)
+      .max(50000)
+      .default(5000)
+      .describe("Rider arm/steering stiffness [N·m/rad]|advanced"),
+    rollDamping: z
+      .number()
+      .min(0)
+      .max(1000)
+      .default(100)
+      .describe("Roll damping [N·m·s/rad]|advanced"),
+    v: z
+      .number()
+      .min(3)
+      .max(80)
+      .default(15)
+      .describe("Forward speed [m/s]|basic"),
+    mu: z
+      .number()
+      .min(0.1)
+      .max(2)
+      .default(1)
+      .describe("Friction coefficient mu|advanced"),
+    riderControl: z
+      .boolean()
+      .default(true)
+      .describe("Rider balances the bike (steer input = turn request)|basic"),
+    riderLeanGain: z
+      .number()
+      .min(1.2)
+      .max(10)
+      .default(4)
+      .describe("Rider lean gain (>1 to balance)|advanced"),
+    riderLeanDamping: z
+      .number()
+      .min(0)
+      .max(2)
+      .default(0.35)
+      .describe("Rider lean-rate lead [s]|advanced"),
+    riderTrimTime: z
+      .number()
+      .min(0.5)
+      .max(20)
+      .default(3)
+      .describe("Rider trim (integral) time [s]|advanced"),
+    integrator: integratorField,
+    ...adaptiveToleranceFields,
+    dt: z
+      .number()
+      .min(0.002)
+      .max(0.01)
+      .default(0.005)
+      .describe("Time step [s]|advanced"),
+    useFrictionClamp: z
+      .boolean()
+      .default(true)
+      .describe("Clamp tyre forces by mu|advanced"),
+    processNoise: z
+      .boolean()
+      .default(false)
+      .describe("Process noise|advanced"),
+    noiseStd: z
+      .number()
+      .min(0)
+      .max(2)
+      .default(0.05)
+      .describe("Process noise std|advanced"),
+  })
+  .describe("Motorcycle lean-steer model");
+
+type MotorcycleParams = z.infer<typeof schema>;
+
+type MotorcycleState = {
+  vy: number;
+  r: number;
+  /** Lean angle, positive leaning left (into a left turn) [rad]. */
+  phi: number;
+  phiRate: number;
+  /** Rider trim: integral of the lean error [rad·s]. */
+  leanErrorIntegral: number;
+  psi: number;
+  x: number;
+  y: number;
+  steerAngle: number;
+  leanTarget: number;
+  steerTorque: number;
+  vyDot: number;
+  ay: number;
+  slipFront: number;
+  slipRear: number;
+  FyFront: number;
+  FyRear: number;
+  camberThrustFront: number;
+  camberThrustRear: number;
+  frontUtilization: number;
+  rearUtilization: number;
+  frontLimited: number;
+  rearLimited: number;
+  capsized: number;
+  vxEffective: number;
+  dtClamped: number;
+  /** Integrator substeps accepted and rejected so far, and the largest substep of the last frame [s]. */
+  stepsAccepted: number;
+  stepsRejected: number;
+  stepSize: number;
+};
+
+type StateDerivative = {
+  vy: number;
+  r: number;
+  phi: number;
+  phiRate: number;
+  leanErrorIntegral: number;
+  psi: number;
+  x: number;
+  y: number;
+};
+
+type StepDiagnostics = {
+  steerAngle: number;
+  leanTarget: number;
+  steerTorque: number;
+  slipFront: number;
+  slipRear: number;
+  FyFront: number;
+  FyRear: number;
+  camberThrustFront: number;
+  camberThrustRear: number;
+  vyDot: number;
+  ay: number;
+  utilization: { front: number; rear: number };
+  limitFront: boolean;
+  limitRear: boolean;
+};
+
+type MotorcycleContext = {
+  vehicle: VehicleParams;
+  loads: StaticLoadSplit;
+  vx: number;
+  Ix: number;
+  h: number;
+  CgammaF: number;
+  CgammaR: number;
+  trail: number;
+  steerStiffness: number;
+  rollDamping: number;
+  rider: {
+    enabled: boolean;
+    leanGain: number;
+    leanDamping: number;
+    trimTime: number;
+  };
+  frictionEnabled: boolean;
+  /** Process noise source; null when noise is off or the caller passed no context. */
+  rng: Rng | null;
+  noiseStd: number;
+  dtClamped: boolean;
+};
+
+/** Lean beyond which the bike is on the ground; the lean DOF is frozen there. */
+const CAPSIZE_LEAN = (75 * Math.PI) / 180;
+const MAX_BAR_ANGLE = 0.6;
+const MAX_LEAN_TARGET = (60 * Math.PI) / 180;
+
+const buildContext = (params: MotorcycleParams, dtClamped: boolean, rng: Rng | null): MotorcycleContext => {
+  const vehicle = createVehicleParams({
+    m: params.m,
+    Iz: params.Iz,
+    a: params.a,
+    b: params.b,
+    Cf: params.Cf,
+    Cr: params.Cr,
+    mu: params.mu,
+    track: 0,
+    hCg: params.h,
+  });
+  return {
+    vehicle,
+    loads: computeStaticLoads(vehicle),
+    vx: Math.max(params.v, 0.5),
+    Ix: params.Ix,
+    h: params.h,
+    CgammaF: params.CgammaF,
+    CgammaR: params.CgammaR,
+    trail: params.trail,
+    steerStiffness: params.steerStiffness,
+    rollDamping: params.rollDamping,
+    rider: {
+      enabled: params.riderControl,
+      leanGain: params.riderLeanGain,
+      leanDamping: params.riderLeanDamping,
+      trimTime: params.riderTrimTime,
+    },
+    frictionEnabled: params.useFrictionClamp,
+    rng: params.processNoise ? rng : null,
+    noiseStd: params.noiseStd,
+    dtClamped,
+  };
+};
+
+/** Steady lean for the turn a kinematic steer angle would give at speed vx: tan φ = v²·tan δ / (L·g). */
+const leanForTurn = (steer: number, ctx: MotorcycleContext) =>
+  clamp(
+    Math.atan((ctx.vx * ctx.vx * Math.tan(steer)) / (ctx.vehicle.L * ctx.vehicle.g)),
+    -MAX_LEAN_TARGET,
+    MAX_LEAN_TARGET
+  );
+
+/**
+ * Handlebar angle from the rider. With rider control on, the steer input is a turn request: the
+ * rider holds the kinematic steer for it and corrects the lean error with gains scheduled by L/v²,
+ * so a lean into the turn starts by steering away from it (counter-steer). Off, the input goes
+ * straight to the bars.
+ */
+const riderBarAngle = (state: MotorcycleState, request: number, leanTarget: number, ctx: MotorcycleContext) => {
+  if (!ctx.rider.enabled) {
+    return request;
+  }
+  const schedule = (ctx.vehicle.L * ctx.vehicle.g * ctx.rider.leanGain) / (ctx.vx * ctx.vx);
+  const correction =
+    state.phi - leanTarget + ctx.rider.leanDamping * state.phiRate + state.leanErrorIntegral / ctx.rider.trimTime;
+  return clamp(request + schedule * correction, -MAX_BAR_ANGLE, MAX_BAR_ANGLE);
+};
+
+const derivatives = (
+  state: MotorcycleState,
+  inputs: SimInputs,
+  ctx: MotorcycleContext,
+  stochastic = false,
+  diagnostics?: StepDiagnostics
+): StateDerivative => {
+  const { vehicle, vx, loads } = ctx;
+  const request = inputs.steer ?? 0;
+  const leanTarget = ctx.rider.enabled ? leanForTurn(request, ctx) : 0;
+  const bar = riderBarAngle(state, request, leanTarget, ctx);
+
+  // Trail torque about the steering axis, t·(Fzf·sin φ − Fyf), twists the front wheel against the
+  // rider's arms. Fyf depends on the steer angle, so solve the linear balance for it directly.
+  const betaFront = (state.vy + vehicle.a * state.r) / vx;
+  const camberFront = ctx.CgammaF * state.phi;
+  const compliance = ctx.trail / ctx.steerStiffness;
+  const steerAngle =
+    (bar + compliance * (loads.front * Math.sin(state.phi) + vehicle.Cf * betaFront - camberFront)) /
+    (1 + compliance * vehicle.Cf);
+
+  const slipFront = steerAngle - betaFront;
+  const slipRear = -(state.vy - vehicle.b * state.r) / vx;
+  const camberRear = ctx.CgammaR * state.phi;
+  let FyFront = vehicle.Cf * slipFront + camberFront;
+  let FyRear = vehicle.Cr * slipRear + camberRear;
+  const steerTorque = ctx.trail * (loads.front * Math.sin(state.phi) - FyFront);
+
+  let limitFront = false;
+  let limitRear = false;
+  const utilization = {
+    front: frictionDemandRatio({ Fx: 0, Fy: FyFront }, loads.front, vehicle.mu),
+    rear: frictionDemandRatio({ Fx: 0, Fy: FyRear }, loads.rear, vehicle.mu),
+  };
+  if (ctx.frictionEnabled) {
+    const clampResult = clampAxleForces({
+      front: { Fx: 0, Fy: FyFront },
+      rear: { Fx: 0, Fy: FyRear },
+      loads,
+      mu: vehicle.mu,
+    });
+    FyFront = clampResult.front.Fy;
+    FyRear = clampResult.rear.Fy;
+    utilization.front = clampResult.front.utilization;
+    utilization.rear = clampResult.rear.utilization;
+    limitFront = clampResult.limitFlags.front;
+    limitRear = clampResult.limitFlags.rear;
+  }
+
+  let vyDot = (FyFront + FyRear) / vehicle.m - vx * state.r;
+  let rDot = (vehicle.a * FyFront - vehicle.b * FyRear) / vehicle.Iz;
+  const ay = computeAy(vx, state.r, vyDot);
+
+  // Roll about the contact line: gravity tips the bike over, the turn's lateral acceleration rights it.
+  const rollInertia = ctx.Ix + vehicle.m * ctx.h * ctx.h;
+  const capsized = Math.abs(state.phi) >= CAPSIZE_LEAN;
+  let phiDdot = capsized
+    ? 0
+    : (vehicle.m * ctx.h * (vehicle.g * Math.sin(state.phi) - ay * Math.cos(state.phi)) -
+        ctx.rollDamping * state.phiRate) /
+      rollInertia;
+
+  if (stochastic && ctx.rng) {
+    vyDot = addNoise(vyDot, ctx.noiseStd, ctx.rng);
+    rDot = addNoise(rDot, ctx.noiseStd, ctx.rng);
+    phiDdot = capsized ? phiDdot : addNoise(phiDdot, ctx.noiseStd, ctx.rng);
+  }
+
+  const cosPsi = Math.cos(state.psi);
+  const sinPsi = Math.sin(state.psi);
+
+  if (diagnostics) {
+    diagnostics.steerAngle = steerAngle;
+    diagnostics.leanTarget = leanTarget;
+    diagnostics.steerTorque = steerTorque;
+    diagnostics.slipFront = slipFront;
+    diagnostics.slipRear = slipRear;
+    diagnostics.FyFront = FyFront;
+    diagnostics.FyRear = FyRear;
+    diagnostics.camberThrustFront = camberFront;
+    diagnostics.camberThrustRear = camberRear;
+    diagnostics.vyDot = vyDot;
+    diagnostics.ay = ay;
+    diagnostics.utilization = utilization;
+    diagnostics.limitFront = limitFront;
+    diagnostics.limitRear = limitRear;
+  }
+
+  return {
+    vy: vyDot,
+    r: rDot,
+    phi: capsized ? 0 : state.phiRate,
+    phiRate: phiDdot,
+    leanErrorIntegral: ctx.rider.enabled && !capsized ? state.phi - leanTarget : 0,
+    psi: state.r,
+    x: vx * cosPsi - state.vy * sinPsi,
+    y: vx * sinPsi + state.vy * cosPsi,
+  };
+};
+
+const postStep = (
+  state: MotorcycleState,
+  inputs: SimInputs,
+  ctx: MotorcycleContext
+): MotorcycleState => {
+  // Once down, the bike stays down: pin the lean at the capsize angle.
+  const capsized = state.capsized > 0 || Math.abs(state.phi) >= CAPSIZE_LEAN;
+  const settled = capsized
+    ? { ...state, phi: Math.sign(state.phi || 1) * CAPSIZE_LEAN, phiRate: 0 }
+    : state;
+
+  const diagnostics = {} as StepDiagnostics;
+  const deriv = derivatives(settled, inputs, ctx, true, diagnostics);
+
+  return {
+    ...settled,
+    steerAngle: diagnostics.steerAngle,
+    leanTarget: diagnostics.leanTarget,
+    steerTorque: diagnostics.steerTorque,
+    vyDot: deriv.vy,
+    ay: diagnostics.ay,
+    slipFront: diagnostics.slipFront,
+    slipRear: diagnostics.slipRear,
+    FyFront: diagnostics.FyFront,
+    FyRear: diagnostics.FyRear,
+    camberThrustFront: diagnostics.camberThrustFront,
+    camberThrustRear: diagnostics.camberThrustRear,
+    frontUtilization: diagnostics.utilization.front,
+    rearUtilization: diagnostics.utilization.rear,
+    frontLimited: diagnostics.limitFront ? 1 : 0,
+    rearLimited: diagnostics.limitRear ? 1 : 0,
+    capsized: capsized ? 1 : 0,
+    vxEffective: ctx.vx,
+    dtClamped: ctx.dtClamped ? 1 : 0,
+  };
+};
+
+// Rates ahead of the angles and position they drive, so semi-implicit Euler uses the new rates.
+const INTEGRATED_KEYS = ["vy", "r", "phiRate", "phi", "leanErrorIntegral", "psi", "x", "y"] as const;
+
+const integrateStep = (
+  state: MotorcycleState,
+  inputs: SimInputs,
+  ctx: MotorcycleContext,
+  dt: number,
+  params: MotorcycleParams
+): MotorcycleState => {
+  const { state: integrated, stats } = integrateState(
+    params.integrator,
+    (current) => derivatives(current, inputs, ctx),
+    state,
+    INTEGRATED_KEYS,
+    dt,
+    { rtol: params.rtol, atol: params.atol, initialStep: state.stepSize > 0 ? state.stepSize : dt }
+  );
+  return {
+    ...postStep(integrated, inputs, ctx),
+    stepsAccepted: state.stepsAccepted + stats.accepted,
+    stepsRejected: state.stepsRejected + stats.rejected,
+    stepSize: stats.stepSize,
+  };
+};
+
+export const Motorcycle: ModelDef<MotorcycleParams, MotorcycleState> = {
+  id: "motorcycle",
+  label: "Motorcycle (lean–steer)",
+  schema,
+  defaults: schema.parse({}),
+  init: (params) => ({
+    vy: 0,
+    r: 0,
+    phi: 0,
+    phiRate: 0,
+    leanErrorIntegral: 0,
+    psi: 0,
+    x: 0,
+    y: 0,
+    steerAngle: 0,
+    leanTarget: 0,
+    steerTorque: 0,
+    vyDot: 0,
+    ay: 0,
+    slipFront: 0,
+    slipRear: 0,
+    FyFront: 0,
+    FyRear: 0,
+    camberThrustFront: 0,
+    camberThrustRear: 0,
+    frontUtilization: 0,
+    rearUtilization: 0,
+    frontLimited: 0,
+    rearLimited: 0,
+    capsized: 0,
+    vxEffective: 0,
+    dtClamped: 0,
+    stepsAccepted: 0,
+    stepsRejected: 0,
+    stepSize: params.dt,
+  }),
+  step: (state, inputs, dtArg, params, context) => {
+    const requestedDt = params.dt ?? dtArg;
+    const guard = enforceDtBounds("motorcycle", requestedDt, params.integrator);
+    const ctx = buildContext(params, guard.clamped, context?.rng ?? null);
+    return integrateStep(state, inputs, ctx, guard.dt, params);
+  },
+  derivatives: (state, inputs, params) => derivatives(state, inputs, buildContext(params, false, null)),
+  outputs: (state, params) => ({
+    t: 0,
+    x: state.x,
+    y: state.y,
+    psi: state.psi,
+    vx: state.vxEffective,
+    vy: state.vy,
+    r: state.r,
+    ay: state.ay,
+    beta: Math.atan2(state.vy, state.vxEffective || params.v || 1e-3),
+    phi: state.phi,
+    frontSlipAngle: state.slipFront,
+    rearSlipAngle: state.slipRear,
+    notes: {
+      leanDeg: (state.phi * 180) / Math.PI,
+      leanTargetDeg: (state.leanTarget * 180) / Math.PI,
+      steerAngle: state.steerAngle,
+      steerTorque: state.steerTorque,
+      camberThrustFront: state.camberThrustFront,
+      camberThrustRear: state.camberThrustRear,
+      FyFront: state.FyFront,
+      FyRear: state.FyRear,
+      frontUtilization: state.frontUtilization,
+      rearUtilization: state.rearUtilization,
+      frontLimited: state.frontLimited,
+      rearLimited: state.rearLimited,
+      capsized: state.capsized,
+      vxEffective: state.vxEffective,
+      dtClamped: state.dtClamped,
+      stepsAccepted: state.stepsAccepted,
+      stepsRejected: state.stepsRejected,
+      stepSize: state.stepSize,
+    },
+  }),
+  geometry: (params) => ({
+    type: "motorcycle",
+    length: params.a + params.b + 0.7,
+    width: 0.8,
+    wheelbase: params.a + params.b,
+    cgHeight: params.h,
+  }),
+  docsSlug: "/docs/models/motorcycle",
+};
@@ -0,0 +1,399 @@
+import { z } from "zod";
+import type { ModelDef, SimInputs } from "../sim/core";
+import { adaptiveToleranceFields, integrateState, integratorField } from "../sim/integrators";
+import { addNoise, type Rng } from "../sim/random";
+import {
+  computeStaticLoads,
+  createVehicleParams,
+  type StaticLoadSplit,
+  type VehicleParams,
+} from "@/lib/vehicle/params";
+import { computeSlipAngles, type LateralForces, type SlipAngles } from "@/lib/vehicle/slipAndForces";
+import {
+  computeMagicFormulaForces,
+  magicFormulaPeakFactor,
+  magicFormulaPeakSlip,
+  type AxleTyres,
+} from "@/lib/vehicle/tyres";
+import { computeAy } from "@/lib/vehicle/ayYaw";
+import { enforceDtBounds } from "@/lib/vehicle/dtGuards";
+import { wheelBrakeYawMoment } from "@/lib/vehicle/esc";
+
+const schema = z
+  .object({
+    m: z
+      .number()
+      .min(200)
+      .max(5000)
+      .default(1500)
+      .describe("Mass [kg]|basic"),
+    Iz: z
+      .number()
+      .min(500)
+      .max(10000)
+      .default(2250)
+      .describe("Yaw inertia [kg·m²]|basic"),
+    a: z
+      .number()
+      .min(0.5)
+      .max(2.5)
+      .default(1.2)
+      .describe("CG to front axle [m]|basic"),
+    b: z
+      .number()
+      .min(0.5)
+      .max(2.5)
+      .default(1.6)
+      .describe("CG to rear axle [m]|basic"),
+    v: z
+      .number()
+      .min(0)
+      .max(80)
+      .default(25)
+      .describe("Forward speed [m/s]|basic"),
+    mu: z
+      .number()
+      .min(0.1)
+      .max(2)
+      .default(1)
+      .describe("Friction coefficient mu (D = mu·Fz)|basic"),
+    BFront: z
+      .number()
+      .min(1)
+      .max(30)
+      .default(6.3)
+      .describe("Front stiffness factor B|basic"),
+    CFront: z
+      .number()
+      .min(1)
+      .max(2.5)
+      .default(1.5)
+      .describe("Front shape factor C|basic"),
+    EFront: z
+      .number()
+      .min(-5)
+      .max(1)
+      .default(-1)
+      .describe("Front curvature factor E|basic"),
+    BRear: z
+      .number()
+      .min(1)
+      .max(30)
+      .default(8.5)
+      .describe("Rear stiffness factor B|basic"),
+    CRear: z
+      .number()
+      .min(1)
+      .max(2.5)
+      .default(1.5)
+      .describe("Rear shape factor C|basic"),
+    ERear: z
+      .number()
+      .min(-5)
+      .max(1)
+      .default(-1)
+      .describe("Rear curvature factor E|basic"),
+    trackWidth: z
+      .number()
+      .min(1)
+      .max(2.5)
+      .default(1.6)
+      .describe("Track width [m]|advanced"),
+    hCg: z
+      .number()
+      .min(0.2)
+      .max(1.2)
+      .default(0.55)
+      .describe("CG height [m]|advanced"),
+    integrator: integratorField,
+    ...adaptiveToleranceFields,
+    dt: z
+      .number()
+      .min(0.002)
+      .max(0.05)
+      .default(0.01)
+      .describe("Time step [s]|advanced"),
+    processNoise: z
+      .boolean()
+      .default(false)
+      .describe("Process noise|advanced"),
+    noiseStd: z
+      .number()
+      .min(0)
+      .max(2)
+      .default(0.05)
+      .describe("Process noise std|advanced"),
+  })
+  .describe("2-DOF bicycle model with Magic Formula tyres");
+
+type Pacejka2DofParams = z.infer<typeof schema>;
+
+type Pacejka2DofState = {
+  vy: number;
+  r: number;
+  psi: number;
+  x: number;
+  y: number;
+  vyDot: number;
+  ay: number;
+  slipFront: number;
+  slipRear: number;
+  FyFront: number;
+  FyRear: number;
+  frontUtilization: number;
+  rearUtilization: number;
+  frontLimited: number;
+  rearLimited: number;
+  vxEffective: number;
+  dtClamped: number;
+  /** Integrator substeps accepted and rejected so far, and the largest substep of the last frame [s]. */
+  stepsAccepted: number;
+  stepsRejected: number;
+  stepSize: number;
+};
+
+type StateDerivative = {
+  vy: number;
+  r: number;
+  psi: number;
+  x: number;
+  y: number;
+};
+
+type StepDiagnostics = {
+  slipAngles: SlipAngles;
+  forces: LateralForces;
+  vyDot: number;
+  ay: number;
+};
+
+type TyreContext = {
+  vehicle: VehicleParams;
+  vx: number;
+  tyres: AxleTyres;
+  loads: StaticLoadSplit;
+  peakSlip: SlipAngles;
+  /** Process noise source; null when noise is off or the caller passed no context. */
+  rng: Rng | null;
+  noiseStd: number;
+  dtClamped: boolean;
+};
+
+const buildContext = (params: Pacejka2DofParams, dtClamped: boolean, rng: Rng | null): TyreContext => {
+  const tyres: AxleTyres = {
+    front: { B: params.BFront, C: params.CFront, E: params.EFront },
+    rear: { B: params.BRear, C: params.CRear, E: params.ERear },
+  };
+  const loads = computeStaticLoads(
+    createVehicleParams({
+      m: params.m,
+      Iz: params.Iz,
+      a: params.a,
+      b: params.b,
+      Cf: 1,
+      Cr: 1,
+    })
+  );
+  const vehicle = createVehicleParams({
+    m: params.m,
+    Iz: params.Iz,
+    a: params.a,
+    b: params.b,
+    Cf: tyres.front.B * tyres.front.C * magicFormulaPeakFactor(loads.front, params.mu),
+    Cr: tyres.rear.B * tyres.rear.C * magicFormulaPeakFactor(loads.rear, params.mu),
+    mu: params.mu,
+    track: params.trackWidth,
+    hCg: params.hCg,
+  });
+  const vx = Math.sign(params.v || 1) * Math.max(Math.abs(params.v), 0.5);
+  return {
+    vehicle,
+    vx,
+    tyres,
+    loads,
+    peakSlip: {
+      front: magicFormulaPeakSlip(tyres.front),
+      rear: magicFormulaPeakSlip(tyres.rear),
+    },
+    rng: params.processNoise ? rng : null,
+    noiseStd: params.noiseStd,
+    dtClamped,
+  };
+};
+
+const derivatives = (
+  state: Pacejka2DofState,
+  inputs: SimInputs,
+  ctx: TyreContext,
+  stochastic = false,
+  diagnostics?: StepDiagnostics
+): StateDerivative => {
+  const angles = computeSlipAngles({
+    vy: state.vy,
+    r: state.r,
+    vx: ctx.vx,
+    a: ctx.vehicle.a,
+    b: ctx.vehicle.b,
+    steer: inputs.steer ?? 0,
+  });
+  const forces = computeMagicFormulaForces(angles, ctx.tyres, ctx.loads, ctx.vehicle.mu);
+
+  const external = inputs.disturbance;
+  let vyDot = (forces.front + forces.rear + (external?.Fy ?? 0)) / ctx.vehicle.m - ctx.vx * state.r;
+  // Constant speed: individual wheel brakes act only through their yaw moment.
+  const brakeMoment = wheelBrakeYawMoment(inputs.wheelBrakeForces, ctx.vehicle.track);
+  let rDot =
+    (ctx.vehicle.a * forces.front - ctx.vehicle.b * forces.rear + (external?.Mz ?? 0) + brakeMoment) / ctx.vehicle.Iz;
+
+  if (stochastic && ctx.rng) {
+    vyDot = addNoise(vyDot, ctx.noiseStd, ctx.rng);
+    rDot = addNoise(rDot, ctx.noiseStd, ctx.rng);
+  }
+
+  const cosPsi = Math.cos(state.psi);
+  const sinPsi = Math.sin(state.psi);
+
+  if (diagnostics) {
+    diagnostics.slipAngles = angles;
+    diagnostics.forces = forces;
+    diagnostics.vyDot = vyDot;
+    diagnostics.ay = computeAy(ctx.vx, state.r, vyDot);
+  }
+
+  return {
+    vy: vyDot,
+    r: rDot,
+    psi: state.r,
+    x: ctx.vx * cosPsi - state.vy * sinPsi,
+    y: ctx.vx * sinPsi + state.vy * cosPsi,
+  };
+};
+
+const postStep = (
+  state: Pacejka2DofState,
+  inputs: SimInputs,
+  ctx: TyreContext
+): Pacejka2DofState => {
+  const diagnostics: StepDiagnostics = {
+    slipAngles: { front: state.slipFront, rear: state.slipRear },
+    forces: { front: state.FyFront, rear: state.FyRear },
+    vyDot: state.vyDot,
+    ay: state.ay,
+  };
+
+  derivatives(state, inputs, ctx, true, diagnostics);
+
+  const frontPeak = magicFormulaPeakFactor(ctx.loads.front, ctx.vehicle.mu);
+  const rearPeak = magicFormulaPeakFactor(ctx.loads.rear, ctx.vehicle.mu);
+
+  return {
+    ...state,
+    vyDot: diagnostics.vyDot,
+    ay: diagnostics.ay,
+    slipFront: diagnostics.slipAngles.front,
+    slipRear: diagnostics.slipAngles.rear,
+    FyFront: diagnostics.forces.front,
+    FyRear: diagnostics.forces.rear,
+    frontUtilization: frontPeak > 0 ? Math.abs(diagnostics.forces.front) / frontPeak : 0,
+    rearUtilization: rearPeak > 0 ? Math.abs(diagnostics.forces.rear) / rearPeak : 0,
+    frontLimited: Math.abs(diagnostics.slipAngles.front) >= ctx.peakSlip.front ? 1 : 0,
+    rearLimited: Math.abs(diagnostics.slipAngles.rear) >= ctx.peakSlip.rear ? 1 : 0,
+    vxEffective: ctx.vx,
+    dtClamped: ctx.dtClamped ? 1 : 0,
+  };
+};
+
+const INTEGRATED_KEYS = ["vy", "r", "psi", "x", "y"] as const;
+
+const integrateStep = (
+  state: Pacejka2DofState,
+  inputs: SimInputs,
+  ctx: TyreContext,
+  dt: number,
+  params: Pacejka2DofParams
+): Pacejka2DofState => {
+  const { state: integrated, stats } = integrateState(
+    params.integrator,
+    (current) => derivatives(current, inputs, ctx),
+    state,
+    INTEGRATED_KEYS,
+    dt,
+    { rtol: params.rtol, atol: params.atol, initialStep: state.stepSize > 0 ? state.stepSize : dt }
+  );
+  return {
+    ...postStep(integrated, inputs, ctx),
+    stepsAccepted: state.stepsAccepted + stats.accepted,
+    stepsRejected: state.stepsRejected + stats.rejected,
+    stepSize: stats.stepSize,
+  };
+};
+
+export const Pacejka2DOF: ModelDef<Pacejka2DofParams, Pacejka2DofState> = {
+  id: "pacejka2dof",
+  label: "2-DOF Magic Formula Bicycle",
+  schema,
+  defaults: schema.parse({}),
+  init: (params) => ({
+    vy: 0,
+    r: 0,
+    psi: 0,
+    x: 0,
+    y: 0,
+    vyDot: 0,
+    ay: 0,
+    slipFront: 0,
+    slipRear: 0,
+    FyFront: 0,
+    FyRear: 0,
+    frontUtilization: 0,
+    rearUtilization: 0,
+    frontLimited: 0,
+    rearLimited: 0,
+    vxEffective: 0,
+    dtClamped: 0,
+    stepsAccepted: 0,
+    stepsRejected: 0,
+    stepSize: params.dt,
+  }),
+  step: (state, inputs, dtArg, params, context) => {
+    const requestedDt = params.dt ?? dtArg;
+    const guard = enforceDtBounds("pacejka2dof", requestedDt, params.integrator);
+    const ctx = buildContext(params, guard.clamped, context?.rng ?? null);
+    return integrateStep(state, inputs, ctx, guard.dt, params);
+  },
+  derivatives: (state, inputs, params) => derivatives(state, inputs, buildContext(params, false, null)),
+  outputs: (state, params) => ({
+    t: 0,
+    x: state.x,
+    y: state.y,
+    psi: state.psi,
+    vx: state.vxEffective,
+    vy: state.vy,
+    r: state.r,
+    ay: state.ay,
+    beta: Math.atan2(state.vy, state.vxEffective || params.v || 1e-3),
+    notes: {
+      vyDot: state.vyDot,
+      slipFront: state.slipFront,
+      slipRear: state.slipRear,
+      FyFront: state.FyFront,
+      FyRear: state.FyRear,
+      frontUtilization: state.frontUtilization,
+      rearUtilization: state.rearUtilization,
+      frontLimited: state.frontLimited,
+      rearLimited: state.rearLimited,
+      vxEffective: state.vxEffective,
+      dtClamped: state.dtClamped,
+      stepsAccepted: state.stepsAccepted,
+      stepsRejected: state.stepsRejected,
+      stepSize: state.stepSize,
+    },
+  }),
+  geometry: (params) => ({
+    type: "vehicle",
+    length: params.a + params.b,
+    width: params.trackWidth,
+    wheelbase: params.a + params.b,
+  }),
+  docsSlug: "/docs/models/pacejka2dof",
+};
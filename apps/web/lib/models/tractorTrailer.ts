@@ -0,0 +1,555 @@
+import { z } from "zod";
+import type { ModelDef, SimInputs } from "../sim/core";
+import { adaptiveToleranceFields, integrateState, integratorField } from "../sim/integrators";
+import { addNoise, type Rng } from "../sim/random";
+import { createVehicleParams, type VehicleParams } from "@/lib/vehicle/params";
+import { computeSlipAndForces } from "@/lib/vehicle/slipAndForces";
+import { applyFrictionEllipse } from "@/lib/vehicle/frictionClamp";
+import {
+  computeCombinationLoads,
+  isTrailerSway,
+  updateSwayTracker,
+  type CombinationLoads,
+  type SemitrailerParams,
+  type SwayTracker,
+} from "@/lib/vehicle/articulation";
+import { enforceDtBounds } from "@/lib/vehicle/dtGuards";
+import { solveLinearN } from "@/lib/theory/matrix";
+
+const schema = z
+  .object({
+    m: z
+      .number()
+      .min(2000)
+      .max(30000)
+      .default(8000)
+      .describe("Tractor mass [kg]|basic"),
+    Iz: z
+      .number()
+      .min(5000)
+      .max(200000)
+      .default(30000)
+      .describe("Tractor yaw inertia [kg·m²]|basic"),
+    a: z
+      .number()
+      .min(0.5)
+      .max(4)
+      .default(1.2)
+      .describe("Tractor CG to front axle [m]|basic"),
+    b: z
+      .number()
+      .min(0.5)
+      .max(5)
+      .default(2.6)
+      .describe("Tractor CG to drive axle [m]|basic"),
+    hitchOffset: z
+      .number()
+      .min(0)
+      .max(5)
+      .default(2.3)
+      .describe("Tractor CG to fifth wheel [m]|basic"),
+    Cf: z
+      .number()
+      .min(10000)
+      .max(2000000)
+      .default(360000)
+      .describe("Tractor front axle cornering stiffness [N/rad]|basic"),
+    Cr: z
+      .number()
+      .min(10000)
+      .max(2000000)
+      .default(650000)
+      .describe("Tractor drive axle cornering stiffness [N/rad]|basic"),
+    mTrailer: z
+      .number()
+      .min(1000)
+      .max(40000)
+      .default(20000)
+      .describe("Trailer mass [kg]|basic"),
+    IzTrailer: z
+      .number()
+      .min(5000)
+      .max(1000000)
+      .default(300000)
+      .describe("Trailer yaw inertia [kg·m²]|basic"),
+    hitchToCg: z
+      .number()
+      .min(0.5)
+      .max(14)
+      .default(6)
+      .describe("Fifth wheel to trailer CG [m]|basic"),
+    hitchToAxle: z
+      .number()
+      .min(2)
+      .max(15)
+      .default(11)
+      .describe("Fifth wheel to trailer axle [m]|basic"),
+    Ct: z
+      .number()
+      .min(10000)
+      .max(2000000)
+      .default(700000)
+      .describe("Trailer axle cornering stiffness [N/rad]|basic"),
+    v: z
+      .number()
+      .min(0)
+      .max(40)
+      .default(22)
+      .describe("Forward speed [m/s]|basic"),
+    mu: z
+      .number()
+      .min(0.1)
+      .max(2)
+      .default(0.9)
+      .describe("Friction coefficient mu|advanced"),
+    trackWidth: z
+      .number()
+      .min(1.5)
+      .max(2.6)
+      .default(2.05)
+      .describe("Track width [m]|advanced"),
+    jackKnifeAngleDeg: z
+      .number()
+      .min(10)
+      .max(90)
+      .default(45)
+      .describe("Jack-knife hitch angle threshold [deg]|advanced"),
+    swayThresholdDeg: z
+      .number()
+      .min(0.1)
+      .max(10)
+      .default(0.5)
+      .describe("Minimum hitch swing counted as sway [deg]|advanced"),
+    useFrictionClamp: z
+      .boolean()
+      .default(true)
+      .describe("Limit axle forces by mu|advanced"),
+    integrator: integratorField,
+    ...adaptiveToleranceFields,
+    dt: z
+      .number()
+      .min(0.002)
+      .max(0.05)
+      .default(0.01)
+      .describe("Time step [s]|advanced"),
+    processNoise: z
+      .boolean()
+      .default(false)
+      .describe("Process noise|advanced"),
+    noiseStd: z
+      .number()
+      .min(0)
+      .max(2)
+      .default(0.05)
+      .describe("Process noise std|advanced"),
+  })
+  .describe("Articulated tractor–semitrailer model");
+
+type TractorTrailerParams = z.infer<typeof schema>;
+
+type TractorTrailerState = {
+  vy: number;
+  r: number;
+  psi: number;
+  x: number;
+  y: number;
+  hitchAngle: number;
+  rTrailer: number;
+  hitchRate: number;
+  vyDot: number;
+  ay: number;
+  ayTrailer: number;
+  slipFront: number;
+  slipRear: number;
+  slipTrailer: number;
+  FyFront: number;
+  FyRear: number;
+  FyTrailer: number;
+  hitchForce: number;
+  frontUtilization: number;
+  rearUtilization: number;
+  trailerUtilization: number;
+  frontLimited: number;
+  rearLimited: number;
+  trailerLimited: number;
+  swayLastPeak: number;
+  swayLastSwing: number;
+  swayRatio: number;
+  swayHalfCycles: number;
+  jackKnife: number;
+  trailerSway: number;
+  vxEffective: number;
+  dtClamped: number;
+  /** Integrator substeps accepted and rejected so far, and the largest substep of the last frame [s]. */
+  stepsAccepted: number;
+  stepsRejected: number;
+  stepSize: number;
+};
+
+type StateDerivative = {
+  vy: number;
+  r: number;
+  psi: number;
+  x: number;
+  y: number;
+  hitchAngle: number;
+  rTrailer: number;
+};
+
+type AxleResult = {
+  slip: number;
+  Fy: number;
+  utilization: number;
+  limited: boolean;
+};
+
+type StepDiagnostics = {
+  front: AxleResult;
+  rear: AxleResult;
+  trailer: AxleResult;
+  vyDot: number;
+  ay: number;
+  ayTrailer: number;
+  hitchForce: number;
+};
+
+type TractorTrailerContext = {
+  tractor: VehicleParams;
+  trailer: SemitrailerParams;
+  hitchOffset: number;
+  loads: CombinationLoads;
+  Ct: number;
+  vx: number;
+  frictionEnabled: boolean;
+  jackKnifeAngle: number;
+  swayThreshold: number;
+  /** Process noise source; null when noise is off or the caller passed no context. */
+  rng: Rng | null;
+  noiseStd: number;
+  dtClamped: boolean;
+};
+
+const degToRad = (deg: number) => (deg * Math.PI) / 180;
+
+const buildContext = (params: TractorTrailerParams, dtClamped: boolean, rng: Rng | null): TractorTrailerContext => {
+  const tractor = createVehicleParams({
+    m: params.m,
+    Iz: params.Iz,
+    a: params.a,
+    b: params.b,
+    Cf: params.Cf,
+    Cr: params.Cr,
+    mu: params.mu,
+    track: params.trackWidth,
+  });
+  const trailer: SemitrailerParams = {
+    m: params.mTrailer,
+    Iz: params.IzTrailer,
+    hitchToCg: params.hitchToCg,
+    hitchToAxle: params.hitchToAxle,
+  };
+  return {
+    tractor,
+    trailer,
+    hitchOffset: params.hitchOffset,
+    loads: computeCombinationLoads(tractor, trailer, params.hitchOffset),
+    Ct: params.Ct,
+    vx: Math.max(params.v, 0.5),
+    frictionEnabled: params.useFrictionClamp,
+    jackKnifeAngle: degToRad(params.jackKnifeAngleDeg),
+    swayThreshold: degToRad(params.swayThresholdDeg),
+    rng: params.processNoise ? rng : null,
+    noiseStd: params.noiseStd,
+    dtClamped,
+  };
+};
+
+const limitAxle = (slip: number, FyRaw: number, Fz: number, ctx: TractorTrailerContext): AxleResult => {
+  const result = applyFrictionEllipse({ Fx: 0, Fy: FyRaw }, Fz, ctx.tractor.mu);
+  if (!ctx.frictionEnabled) {
+    return { slip, Fy: FyRaw, utilization: result.utilization, limited: false };
+  }
+  return { slip, Fy: result.Fy, utilization: result.utilization, limited: result.limited };
+};
+
+/**
+ * Planar tractor–semitrailer with constant tractor speed. Generalised velocities are the
+ * tractor lateral velocity and yaw rate plus the trailer yaw rate; each evaluation solves
+ * the five Newton–Euler equations for their rates and the fifth-wheel force.
+ */
+const derivatives = (
+  state: TractorTrailerState,
+  inputs: SimInputs,
+  ctx: TractorTrailerContext,
+  stochastic = false,
+  diagnostics?: StepDiagnostics
+): StateDerivative => {
+  const delta = inputs.steer ?? 0;
+  const { tractor, trailer, loads } = ctx;
+  const u = ctx.vx;
+  const c = ctx.hitchOffset;
+  const e = trailer.hitchToCg;
+  const f = trailer.hitchToAxle;
+  const cosT = Math.cos(state.hitchAngle);
+  const sinT = Math.sin(state.hitchAngle);
+
+  const tractorSlip = computeSlipAndForces(
+    { vy: state.vy, r: state.r, vx: u, a: tractor.a, b: tractor.b, steer: delta },
+    { Cf: tractor.Cf, Cr: tractor.Cr }
+  );
+
+  // Fifth-wheel velocity resolved in the trailer frame.
+  const hitchLateral = state.vy - c * state.r;
+  const uHitch = u * cosT - hitchLateral * sinT;
+  const vHitch = u * sinT + hitchLateral * cosT;
+  const uHitchSafe = Math.sign(uHitch || 1) * Math.max(Math.abs(uHitch), 0.5);
+  const trailerSlip = -Math.atan((vHitch - f * state.rTrailer) / uHitchSafe);
+
+  const front = limitAxle(tractorSlip.angles.front, tractorSlip.forces.front, loads.front, ctx);
+  const rear = limitAxle(tractorSlip.angles.rear, tractorSlip.forces.rear, loads.rear, ctx);
+  const trailerAxle = limitAxle(trailerSlip, ctx.Ct * trailerSlip, loads.trailer, ctx);
+
+  const m1 = tractor.m;
+  const m2 = trailer.m;
+  const hitchCentripetal = -state.r * state.vy + c * state.r * state.r;
+  // Unknowns: [vyDot, rDot, rTrailerDot, hitch Fx, hitch Fy] with the hitch force acting on the trailer.
+  const [vyDotRaw, rDotRaw, rTrailerDot, , hitchFy] = solveLinearN(
+    [
+      [m1, 0, 0, -sinT, cosT],
+      [0, tractor.Iz, 0, c * sinT, -c * cosT],
+      [-m2 * sinT, m2 * c * sinT, 0, -1, 0],
+      [m2 * cosT, -m2 * c * cosT, -m2 * e, 0, -1],
+      [0, 0, trailer.Iz, 0, -e],
+    ],
+    [
+      front.Fy + rear.Fy - m1 * u * state.r,
+      tractor.a * front.Fy - tractor.b * rear.Fy,
+      -m2 * (hitchCentripetal * cosT - u * state.r * sinT + e * state.rTrailer * state.rTrailer),
+      trailerAxle.Fy - m2 * (hitchCentripetal * sinT + u * state.r * cosT),
+      -(f - e) * trailerAxle.Fy,
+    ]
+  );
+
+  let vyDot = vyDotRaw;
+  let rDot = rDotRaw;
+  if (stochastic && ctx.rng) {
+    vyDot = addNoise(vyDot, ctx.noiseStd, ctx.rng);
+    rDot = addNoise(rDot, ctx.noiseStd, ctx.rng);
+  }
+
+  const cosPsi = Math.cos(state.psi);
+  const sinPsi = Math.sin(state.psi);
+
+  if (diagnostics) {
+    const hitchLateralDot = vyDot + u * state.r - c * rDot;
+    diagnostics.front = front;
+    diagnostics.rear = rear;
+    diagnostics.trailer = trailerAxle;
+    diagnostics.vyDot = vyDot;
+    diagnostics.ay = vyDot + u * state.r;
+    diagnostics.ayTrailer = hitchCentripetal * sinT + hitchLateralDot * cosT - e * rTrailerDot;
+    diagnostics.hitchForce = hitchFy;
+  }
+
+  return {
+    vy: vyDot,
+    r: rDot,
+    psi: state.r,
+    x: u * cosPsi - state.vy * sinPsi,
+    y: u * sinPsi + state.vy * cosPsi,
+    hitchAngle: state.r - state.rTrailer,
+    rTrailer: rTrailerDot,
+  };
+};
+
+const trackerFromState = (state: TractorTrailerState): SwayTracker => ({
+  lastPeak: state.swayLastPeak,
+  lastSwing: state.swayLastSwing,
+  swingRatio: state.swayRatio,
+  halfCycles: state.swayHalfCycles,
+});
+
+const postStep = (
+  state: TractorTrailerState,
+  previousHitchRate: number,
+  inputs: SimInputs,
+  ctx: TractorTrailerContext
+): TractorTrailerState => {
+  const diagnostics = {} as StepDiagnostics;
+  derivatives(state, inputs, ctx, true, diagnostics);
+
+  const hitchRate = state.r - state.rTrailer;
+  const tracker = updateSwayTracker(
+    trackerFromState(state),
+    state.hitchAngle,
+    previousHitchRate,
+    hitchRate,
+    ctx.swayThreshold
+  );
+
+  return {
+    ...state,
+    hitchRate,
+    vyDot: diagnostics.vyDot,
+    ay: diagnostics.ay,
+    ayTrailer: diagnostics.ayTrailer,
+    slipFront: diagnostics.front.slip,
+    slipRear: diagnostics.rear.slip,
+    slipTrailer: diagnostics.trailer.slip,
+    FyFront: diagnostics.front.Fy,
+    FyRear: diagnostics.rear.Fy,
+    FyTrailer: diagnostics.trailer.Fy,
+    hitchForce: diagnostics.hitchForce,
+    frontUtilization: diagnostics.front.utilization,
+    rearUtilization: diagnostics.rear.utilization,
+    trailerUtilization: diagnostics.trailer.utilization,
+    frontLimited: diagnostics.front.limited ? 1 : 0,
+    rearLimited: diagnostics.rear.limited ? 1 : 0,
+    trailerLimited: diagnostics.trailer.limited ? 1 : 0,
+    swayLastPeak: tracker.lastPeak,
+    swayLastSwing: tracker.lastSwing,
+    swayRatio: tracker.swingRatio,
+    swayHalfCycles: tracker.halfCycles,
+    // Latched: once the hitch passes the threshold the combination does not recover on its own.
+    jackKnife: state.jackKnife || Math.abs(state.hitchAngle) >= ctx.jackKnifeAngle ? 1 : 0,
+    trailerSway: isTrailerSway(tracker) ? 1 : 0,
+    vxEffective: ctx.vx,
+    dtClamped: ctx.dtClamped ? 1 : 0,
+  };
+};
+
+// Rates ahead of the angles and position they drive, so semi-implicit Euler uses the new rates.
+const INTEGRATED_KEYS = ["vy", "r", "rTrailer", "hitchAngle", "psi", "x", "y"] as const;
+
+const integrateStep = (
+  state: TractorTrailerState,
+  inputs: SimInputs,
+  ctx: TractorTrailerContext,
+  dt: number,
+  params: TractorTrailerParams
+): TractorTrailerState => {
+  const { state: integrated, stats } = integrateState(
+    params.integrator,
+    (current) => derivatives(current, inputs, ctx),
+    state,
+    INTEGRATED_KEYS,
+    dt,
+    { rtol: params.rtol, atol: params.atol, initialStep: state.stepSize > 0 ? state.stepSize : dt }
+  );
+  return {
+    ...postStep(integrated, state.hitchRate, inputs, ctx),
+    stepsAccepted: state.stepsAccepted + stats.accepted,
+    stepsRejected: state.stepsRejected + stats.rejected,
+    stepSize: stats.stepSize,
+  };
+};
+
+export const TractorTrailer: ModelDef<TractorTrailerParams, TractorTrailerState> = {
+  id: "tractortrailer",
+  label: "Tractor–Semitrailer",
+  schema,
+  defaults: schema.parse({}),
+  init: (params) => ({
+    vy: 0,
+    r: 0,
+    psi: 0,
+    x: 0,
+    y: 0,
+    hitchAngle: 0,
+    rTrailer: 0,
+    hitchRate: 0,
+    vyDot: 0,
+    ay: 0,
+    ayTrailer: 0,
+    slipFront: 0,
+    slipRear: 0,
+    slipTrailer: 0,
+    FyFront: 0,
+    FyRear: 0,
+    FyTrailer: 0,
+    hitchForce: 0,
+    frontUtilization: 0,
+    rearUtilization: 0,
+    trailerUtilization: 0,
+    frontLimited: 0,
+    rearLimited: 0,
+    trailerLimited: 0,
+    swayLastPeak: 0,
+    swayLastSwing: 0,
+    swayRatio: 0,
+    swayHalfCycles: 0,
+    jackKnife: 0,
+    trailerSway: 0,
+    vxEffective: Math.max(params.v, 0.5),
+    dtClamped: 0,
+    stepsAccepted: 0,
+    stepsRejected: 0,
+    stepSize: params.dt,
+  }),
+  step: (state, inputs, dtArg, params, context) => {
+    const requestedDt = params.dt ?? dtArg;
+    const guard = enforceDtBounds("tractortrailer", requestedDt, params.integrator);
+    const ctx = buildContext(params, guard.clamped, context?.rng ?? null);
+    return integrateStep(state, inputs, ctx, guard.dt, params);
+  },
+  derivatives: (state, inputs, params) => derivatives(state, inputs, buildContext(params, false, null)),
+  outputs: (state) => ({
+    t: 0,
+    x: state.x,
+    y: state.y,
+    psi: state.psi,
+    vx: state.vxEffective,
+    vy: state.vy,
+    r: state.r,
+    ay: state.ay,
+    beta: Math.atan2(state.vy, state.vxEffective || 1e-3),
+    frontSlipAngle: state.slipFront,
+    rearSlipAngle: state.slipRear,
+    notes: {
+      vyDot: state.vyDot,
+      slipFront: state.slipFront,
+      slipRear: state.slipRear,
+      slipTrailer: state.slipTrailer,
+      FyFront: state.FyFront,
+      FyRear: state.FyRear,
+      FyTrailer: state.FyTrailer,
+      hitchAngle: state.hitchAngle,
+      hitchRate: state.hitchRate,
+      hitchForce: state.hitchForce,
+      psiTrailer: state.psi - state.hitchAngle,
+      rTrailer: state.rTrailer,
+      ayTrailer: state.ayTrailer,
+      frontUtilization: state.frontUtilization,
+      rearUtilization: state.rearUtilization,
+      trailerUtilization: state.trailerUtilization,
+      frontLimited: state.frontLimited,
+      rearLimited: state.rearLimited,
+      trailerLimited: state.trailerLimited,
+      swayRatio: state.swayRatio,
+      swayHalfCycles: state.swayHalfCycles,
+      jackKnife: state.jackKnife,
+      trailerSway: state.trailerSway,
+      vxEffective: state.vxEffective,
+      dtClamped: state.dtClamped,
+      stepsAccepted: state.stepsAccepted,
+      stepsRejected: state.stepsRejected,
+      stepSize: state.stepSize,
+    },
+  }),
+  geometry: (params) => {
+    const wheelbase = params.a + params.b;
+    return {
+      type: "vehicle",
+      length: wheelbase + 2.2,
+      width: 2.5,
+      wheelbase,
+      trailer: {
+        length: params.hitchToAxle + 2.8,
+        width: 2.55,
+        hitchAheadOfRearAxle: params.b - params.hitchOffset,
+        hitchToAxle: params.hitchToAxle,
+      },
+    };
+  },
+  docsSlug: "/docs/models/tractortrailer",
+};
@@ -0,0 +1,588 @@
+import { z } from "zod";
+import type { ModelDef, SimInputs } from "../sim/core";
+import { adaptiveToleranceFields, integrateState, integratorField } from "../sim/integrators";
+import { addNoise, type Rng } from "../sim/random";
+import { computeStaticLoads, createVehicleParams, type StaticLoadSplit, type VehicleParams } from "@/lib/vehicle/params";
+import {
+  computeAeroDrag,
+  computeLongitudinalForces,
+  computeRollingResistance,
+  type DrivelineParams,
+} from "@/lib/vehicle/longitudinal";
+import {
+  WHEEL_CORNERS,
+  computeWheelLoads,
+  computeWheelSlipAngles,
+  perWheel,
+  wheelPosition,
+  type PerWheel,
+  type WheelCorner,
+} from "@/lib/vehicle/twinTrack";
+import { applyFrictionEllipse } from "@/lib/vehicle/frictionClamp";
+import { enforceDtBounds } from "@/lib/vehicle/dtGuards";
+import {
+  bodyToWorld,
+  createRoadDescription,
+  muAt,
+  roadGravity,
+  type RoadDescription,
+  type RoadGravity,
+} from "@/lib/vehicle/road";
+
+const schema = z
+  .object({
+    m: z
+      .number()
+      .min(200)
+      .max(5000)
+      .default(1500)
+      .describe("Mass [kg]|basic"),
+    Iz: z
+      .number()
+      .min(500)
+      .max(10000)
+      .default(2250)
+      .describe("Yaw inertia [kg·m²]|basic"),
+    a: z
+      .number()
+      .min(0.5)
+      .max(2.5)
+      .default(1.2)
+      .describe("CG to front axle [m]|basic"),
+    b: z
+      .number()
+      .min(0.5)
+      .max(2.5)
+      .default(1.6)
+      .describe("CG to rear axle [m]|basic"),
+    Cf: z
+      .number()
+      .min(1000)
+      .max(300000)
+      .default(80000)
+      .describe("Front axle cornering stiffness [N/rad]|basic"),
+    Cr: z
+      .number()
+      .min(1000)
+      .max(300000)
+      .default(80000)
+      .describe("Rear axle cornering stiffness [N/rad]|basic"),
+    v: z
+      .number()
+      .min(0)
+      .max(80)
+      .default(25)
+      .describe("Initial forward speed [m/s]|basic"),
+    trackWidth: z
+      .number()
+      .min(1)
+      .max(2.5)
+      .default(1.6)
+      .describe("Track width [m]|basic"),
+    hCg: z
+      .number()
+      .min(0.2)
+      .max(1.2)
+      .default(0.55)
+      .describe("CG height [m]|basic"),
+    frontRollShare: z
+      .number()
+      .min(0)
+      .max(1)
+      .default(0.55)
+      .describe("Front share of lateral load transfer|advanced"),
+    maxDriveForce: z
+      .number()
+      .min(0)
+      .max(20000)
+      .default(6000)
+      .describe("Max drive force [N]|advanced"),
+    maxBrakeForce: z
+      .number()
+      .min(0)
+      .max(30000)
+      .default(12000)
+      .describe("Max brake force [N]|advanced"),
+    brakeBias: z
+      .number()
+      .min(0)
+      .max(1)
+      .default(0.65)
+      .describe("Front brake bias|advanced"),
+    driveFront: z
+      .number()
+      .min(0)
+      .max(1)
+      .default(0)
+      .describe("Front drive share (0 = RWD, 1 = FWD)|advanced"),
+    Crr: z
+      .number()
+      .min(0)
+      .max(0.05)
+      .default(0.012)
+      .describe("Rolling resistance coefficient|advanced"),
+    CdA: z
+      .number()
+      .min(0)
+      .max(3)
+      .default(0.7)
+      .describe("Drag area CdA [m²]|advanced"),
+    ClFront: z
+      .number()
+      .min(0)
+      .max(3)
+      .default(0)
+      .describe("Front downforce coefficient Cl|advanced"),
+    ClRear: z
+      .number()
+      .min(0)
+      .max(3)
+      .default(0)
+      .describe("Rear downforce coefficient Cl|advanced"),
+    frontalArea: z
+      .number()
+      .min(0.5)
+      .max(5)
+      .default(2.2)
+      .describe("Frontal area [m²]|advanced"),
+    mu: z
+      .number()
+      .min(0.1)
+      .max(2)
+      .default(1)
+      .describe("Friction coefficient mu|advanced"),
+    bankDeg: z
+      .number()
+      .min(-20)
+      .max(20)
+      .default(0)
+      .describe("Road bank angle [deg] (+ raises the right edge)|advanced"),
+    gradeDeg: z
+      .number()
+      .min(-20)
+      .max(20)
+      .default(0)
+      .describe("Road grade [deg] (+ uphill)|advanced"),
+    muLayout: z
+      .enum(["uniform", "splitMu", "wetPatch"])
+      .default("uniform")
+      .describe("Road friction layout|advanced"),
+    muLow: z
+      .number()
+      .min(0.05)
+      .max(2)
+      .default(0.3)
+      .describe("Low-mu zone friction|advanced"),
+    muZoneStart: z
+      .number()
+      .min(0)
+      .max(500)
+      .default(20)
+      .describe("Low-mu zone start x [m]|advanced"),
+    muZoneLength: z
+      .number()
+      .min(1)
+      .max(500)
+      .default(30)
+      .describe("Wet patch length [m]|advanced"),
+    integrator: integratorField,
+    ...adaptiveToleranceFields,
+    dt: z
+      .number()
+      .min(0.002)
+      .max(0.05)
+      .default(0.01)
+      .describe("Time step [s]|advanced"),
+    processNoise: z
+      .boolean()
+      .default(false)
+      .describe("Process noise|advanced"),
+    noiseStd: z
+      .number()
+      .min(0)
+      .max(2)
+      .default(0.05)
+      .describe("Process noise std|advanced"),
+  })
+  .describe("Twin-track four-wheel vehicle model");
+
+type TwinTrackParams = z.infer<typeof schema>;
+
+type WheelChannel = "Fz" | "Fx" | "Fy" | "slip" | "util" | "mu";
+
+type WheelChannelKey = `${WheelChannel}${Capitalize<WheelCorner>}`;
+
+type TwinTrackState = {
+  vx: number;
+  vy: number;
+  r: number;
+  psi: number;
+  x: number;
+  y: number;
+  vxDot: number;
+  vyDot: number;
+  ax: number;
+  ay: number;
+  frontLimited: number;
+  rearLimited: number;
+  vxEffective: number;
+  dtClamped: number;
+  /** Integrator substeps accepted and rejected so far, and the largest substep of the last frame [s]. */
+  stepsAccepted: number;
+  stepsRejected: number;
+  stepSize: number;
+} & Record<WheelChannelKey, number>;
+
+type StateDerivative = {
+  vx: number;
+  vy: number;
+  r: number;
+  psi: number;
+  x: number;
+  y: number;
+};
+
+type WheelResult = {
+  Fz: number;
+  Fx: number;
+  Fy: number;
+  slip: number;
+  util: number;
+  mu: number;
+  limited: boolean;
+};
+
+type StepDiagnostics = {
+  wheels: PerWheel<WheelResult>;
+  ax: number;
+  ay: number;
+};
+
+type TwinTrackContext = {
+  vehicle: VehicleParams;
+  staticLoads: StaticLoadSplit;
+  driveline: DrivelineParams;
+  frontRollShare: number;
+  Crr: number;
+  CdA: number;
+  road: RoadDescription;
+  gravity: RoadGravity;
+  /** Process noise source; null when noise is off or the caller passed no context. */
+  rng: Rng | null;
+  noiseStd: number;
+  dtClamped: boolean;
+};
+
+const WHEEL_CHANNELS: readonly WheelChannel[] = ["Fz", "Fx", "Fy", "slip", "util", "mu"];
+
+const wheelKey = (channel: WheelChannel, corner: WheelCorner) =>
+  (channel + corner.charAt(0).toUpperCase() + corner.slice(1)) as WheelChannelKey;
+
+const buildContext = (params: TwinTrackParams, dtClamped: boolean, rng: Rng | null): TwinTrackContext => {
+  const vehicle = createVehicleParams({
+    m: params.m,
+    Iz: params.Iz,
+    a: params.a,
+    b: params.b,
+    Cf: params.Cf,
+    Cr: params.Cr,
+    mu: params.mu,
+    track: params.trackWidth,
+    hCg: params.hCg,
+    ClFront: params.ClFront,
+    ClRear: params.ClRear,
+    Cd: params.CdA / params.frontalArea,
+    frontalArea: params.frontalArea,
+  });
+  const road = createRoadDescription(params);
+  return {
+    vehicle,
+    staticLoads: computeStaticLoads(vehicle),
+    driveline: {
+      maxDriveForce: params.maxDriveForce,
+      maxBrakeForce: params.maxBrakeForce,
+      brakeBias: params.brakeBias,
+      driveFront: params.driveFront,
+    },
+    frontRollShare: params.frontRollShare,
+    Crr: params.Crr,
+    CdA: params.CdA,
+    road,
+    gravity: roadGravity(road, vehicle.g),
+    rng: params.processNoise ? rng : null,
+    noiseStd: params.noiseStd,
+    dtClamped,
+  };
+};
+
+const derivatives = (
+  state: TwinTrackState,
+  inputs: SimInputs,
+  ctx: TwinTrackContext,
+  stochastic = false,
+  diagnostics?: StepDiagnostics
+): StateDerivative => {
+  const delta = inputs.steer ?? 0;
+  const vx = Math.max(state.vx, 0);
+  const { vehicle } = ctx;
+
+  // Load transfer uses the accelerations from the previous step to avoid an algebraic loop.
+  const loads = computeWheelLoads(vehicle, {
+    ax: state.ax,
+    ay: state.ay,
+    vx,
+    frontRollShare: ctx.frontRollShare,
+  });
+  const slips = computeWheelSlipAngles({
+    vx,
+    vy: state.vy,
+    r: state.r,
+    a: vehicle.a,
+    b: vehicle.b,
+    track: vehicle.track,
+    steer: delta,
+  });
+  const axleDrive = computeLongitudinalForces(inputs, ctx.driveline, vx);
+
+  let sumX = 0;
+  let sumY = 0;
+  let yawMoment = 0;
+
+  const wheels = perWheel<WheelResult>((corner) => {
+    const position = wheelPosition(corner, vehicle.a, vehicle.b, vehicle.track);
+    const isFront = position.axle === "front";
+    const axleStatic = isFront ? ctx.staticLoads.front : ctx.staticLoads.rear;
+    const axleStiffness = isFront ? vehicle.Cf : vehicle.Cr;
+    const Fz = loads[corner] * ctx.gravity.normalScale;
+    const stiffness = axleStatic > 0 ? axleStiffness * (Fz / axleStatic) : 0;
+    const contact = bodyToWorld(state.x, state.y, state.psi, position.x, position.y);
+    const mu = muAt(ctx.road, contact.x, contact.y, vehicle.mu);
+    const { Fx, Fy, utilization, limited } = applyFrictionEllipse(
+      {
+        Fx: (isFront ? axleDrive.front : axleDrive.rear) / 2 - (inputs.wheelBrakeForces?.[corner] ?? 0),
+        Fy: stiffness * slips[corner],
+      },
+      Fz,
+      mu
+    );
+
+    const steer = isFront ? delta : 0;
+    const cosSteer = Math.cos(steer);
+    const sinSteer = Math.sin(steer);
+    const bodyX = Fx * cosSteer - Fy * sinSteer;
+    const bodyY = Fx * sinSteer + Fy * cosSteer;
+    sumX += bodyX;
+    sumY += bodyY;
+    yawMoment += position.x * bodyY - position.y * bodyX;
+
+    return {
+      Fz,
+      Fx,
+      Fy,
+      slip: slips[corner],
+      util: utilization,
+      mu,
+      limited,
+    };
+  });
+
+  const drag = computeAeroDrag(ctx.CdA, vx);
+  const rolling = computeRollingResistance(vehicle.m, vehicle.g * ctx.gravity.normalScale, ctx.Crr, vx);
+  const ax = (sumX - drag - rolling) / vehicle.m;
+  const external = inputs.disturbance;
+  const ay = (sumY + (external?.Fy ?? 0)) / vehicle.m;
+
+  // ax/ay stay the tyre-force (accelerometer) values that drive load transfer; gravity only moves the body.
+  let vxDot = ax + ctx.gravity.ax + state.vy * state.r;
+  let vyDot = ay + ctx.gravity.ay - vx * state.r;
+  let rDot = (yawMoment + (external?.Mz ?? 0)) / vehicle.Iz;
+
+  if (vx <= 0 && vxDot < 0) {
+    vxDot = 0;
+  }
+
+  if (stochastic && ctx.rng) {
+    vyDot = addNoise(vyDot, ctx.noiseStd, ctx.rng);
+    rDot = addNoise(rDot, ctx.noiseStd, ctx.rng);
+  }
+
+  if (diagnostics) {
+    diagnostics.wheels = wheels;
+    diagnostics.ax = ax;
+    diagnostics.ay = ay;
+  }
+
+  const cosPsi = Math.cos(state.psi);
+  const sinPsi = Math.sin(state.psi);
+
+  return {
+    vx: vxDot,
+    vy: vyDot,
+    r: rDot,
+    psi: state.r,
+    x: vx * cosPsi - state.vy * sinPsi,
+    y: vx * sinPsi + state.vy * cosPsi,
+  };
+};
+
+const postStep = (
+  state: TwinTrackState,
+  inputs: SimInputs,
+  ctx: TwinTrackContext
+): TwinTrackState => {
+  const settled: TwinTrackState = { ...state, vx: Math.max(state.vx, 0) };
+  const diagnostics = { ax: state.ax, ay: state.ay } as StepDiagnostics;
+  const deriv = derivatives(settled, inputs, ctx, true, diagnostics);
+
+  const next: TwinTrackState = {
+    ...settled,
+    vxDot: deriv.vx,
+    vyDot: deriv.vy,
+    ax: diagnostics.ax,
+    ay: diagnostics.ay,
+    frontLimited: diagnostics.wheels.frontLeft.limited || diagnostics.wheels.frontRight.limited ? 1 : 0,
+    rearLimited: diagnostics.wheels.rearLeft.limited || diagnostics.wheels.rearRight.limited ? 1 : 0,
+    vxEffective: Math.max(settled.vx, 0.5),
+    dtClamped: ctx.dtClamped ? 1 : 0,
+  };
+  WHEEL_CORNERS.forEach((corner) => {
+    const wheel = diagnostics.wheels[corner];
+    WHEEL_CHANNELS.forEach((channel) => {
+      next[wheelKey(channel, corner)] = wheel[channel];
+    });
+  });
+  return next;
+};
+
+const INTEGRATED_KEYS = ["vx", "vy", "r", "psi", "x", "y"] as const;
+
+const integrateStep = (
+  state: TwinTrackState,
+  inputs: SimInputs,
+  ctx: TwinTrackContext,
+  dt: number,
+  params: TwinTrackParams
+): TwinTrackState => {
+  const { state: integrated, stats } = integrateState(
+    params.integrator,
+    (current) => derivatives(current, inputs, ctx),
+    state,
+    INTEGRATED_KEYS,
+    dt,
+    { rtol: params.rtol, atol: params.atol, initialStep: state.stepSize > 0 ? state.stepSize : dt }
+  );
+  return {
+    ...postStep(integrated, inputs, ctx),
+    stepsAccepted: state.stepsAccepted + stats.accepted,
+    stepsRejected: state.stepsRejected + stats.rejected,
+    stepSize: stats.stepSize,
+  };
+};
+
+const initialWheelChannels = (params: TwinTrackParams) => {
+  const loads = computeWheelLoads(
+    createVehicleParams({
+      m: params.m,
+      Iz: params.Iz,
+      a: params.a,
+      b: params.b,
+      Cf: params.Cf,
+      Cr: params.Cr,
+      track: params.trackWidth,
+      hCg: params.hCg,
+      ClFront: params.ClFront,
+      ClRear: params.ClRear,
+      frontalArea: params.frontalArea,
+    }),
+    { ax: 0, ay: 0, vx: params.v }
+  );
+  const channels = {} as Record<WheelChannelKey, number>;
+  WHEEL_CORNERS.forEach((corner) => {
+    WHEEL_CHANNELS.forEach((channel) => {
+      channels[wheelKey(channel, corner)] = channel === "Fz" ? loads[corner] : channel === "mu" ? params.mu : 0;
+    });
+  });
+  return channels;
+};
+
+export const TwinTrack: ModelDef<TwinTrackParams, TwinTrackState> = {
+  id: "twintrack",
+  label: "Twin-Track Four-Wheel",
+  schema,
+  defaults: schema.parse({}),
+  init: (params) => ({
+    vx: params.v,
+    vy: 0,
+    r: 0,
+    psi: 0,
+    x: 0,
+    y: 0,
+    vxDot: 0,
+    vyDot: 0,
+    ax: 0,
+    ay: 0,
+    frontLimited: 0,
+    rearLimited: 0,
+    vxEffective: params.v,
+    dtClamped: 0,
+    stepsAccepted: 0,
+    stepsRejected: 0,
+    stepSize: params.dt,
+    ...initialWheelChannels(params),
+  }),
+  step: (state, inputs, dtArg, params, context) => {
+    const requestedDt = params.dt ?? dtArg;
+    const guard = enforceDtBounds("twintrack", requestedDt, params.integrator);
+    const ctx = buildContext(params, guard.clamped, context?.rng ?? null);
+    return integrateStep(state, inputs, ctx, guard.dt, params);
+  },
+  derivatives: (state, inputs, params) => derivatives(state, inputs, buildContext(params, false, null)),
+  outputs: (state) => {
+    const wheelNotes: Record<string, number> = {};
+    WHEEL_CORNERS.forEach((corner) => {
+      WHEEL_CHANNELS.forEach((channel) => {
+        const key = wheelKey(channel, corner);
+        wheelNotes[key] = state[key];
+      });
+    });
+    return {
+      t: 0,
+      x: state.x,
+      y: state.y,
+      psi: state.psi,
+      vx: state.vx,
+      vy: state.vy,
+      r: state.r,
+      ay: state.ay,
+      beta: Math.atan2(state.vy, Math.max(state.vx, 1e-3)),
+      frontSlipAngle: (state.slipFrontLeft + state.slipFrontRight) / 2,
+      rearSlipAngle: (state.slipRearLeft + state.slipRearRight) / 2,
+      notes: {
+        vxDot: state.vxDot,
+        vyDot: state.vyDot,
+        ax: state.ax,
+        slipFront: (state.slipFrontLeft + state.slipFrontRight) / 2,
+        slipRear: (state.slipRearLeft + state.slipRearRight) / 2,
+        FyFront: state.FyFrontLeft + state.FyFrontRight,
+        FyRear: state.FyRearLeft + state.FyRearRight,
+        frontUtilization: Math.max(state.utilFrontLeft, state.utilFrontRight),
+        rearUtilization: Math.max(state.utilRearLeft, state.utilRearRight),
+        ...wheelNotes,
+        frontLimited: state.frontLimited,
+        rearLimited: state.rearLimited,
+        vxEffective: state.vxEffective,
+        dtClamped: state.dtClamped,
+        stepsAccepted: state.stepsAccepted,
+        stepsRejected: state.stepsRejected,
+        stepSize: state.stepSize,
+      },
+    };
+  },
+  geometry: (params) => ({
+    type: "vehicle",
+    length: params.a + params.b,
+    width: params.trackWidth,
+    wheelbase: params.a + params.b,
+  }),
+  docsSlug: "/docs/models/twintrack",
+};
@@ -1,12 +1,17 @@
 ﻿import { z } from "zod";
 import { enforceDtBounds } from "@/lib/vehicle/dtGuards";
 import type { ModelDef, SimInputs } from "../sim/core";
+import { adaptiveToleranceFields, integrateState, integratorField } from "../sim/integrators";
+import { addNoise } from "../sim/random";
 
 type UnicycleState = {
   x: number;
   y: number;
   psi: number;
   yawRate: number;
+  stepsAccepted: number;
+  stepsRejected: number;
+  stepSize: number;
 };
 
 const schema = z
@@ -23,10 +28,8 @@ const schema = z
       .max(5)
       .default(2.7)
       .describe("Effective wheelbase [m]|basic"),
-    integrator: z
-      .enum(["rk4", "semiImplicitEuler"])
-      .default("rk4")
-      .describe("Integrator|advanced"),
+    integrator: integratorField,
+    ...adaptiveToleranceFields,
     dt: z
       .number()
       .min(0.002)
@@ -48,92 +51,63 @@ const schema = z
 
 type UnicycleParams = z.infer<typeof schema>;
 
-const addNoise = (value: number, enabled: boolean, std: number) => {
-  if (!enabled || std <= 0) return value;
-  return value + (Math.random() * 2 - 1) * std;
-};
-
 const yawRateFromInputs = (inputs: SimInputs, params: UnicycleParams) => {
   const steer = inputs.steer ?? 0;
   const curvature = Math.tan(steer) / params.L_eff;
   return params.v * curvature;
 };
 
-const rk4Step = (
-  state: UnicycleState,
-  inputs: SimInputs,
-  params: UnicycleParams,
-  dt: number
-): UnicycleState => {
-  const yawRate = addNoise(
-    yawRateFromInputs(inputs, params),
-    params.processNoise,
-    params.noiseStd
-  );
-
-  const f = (psi: number) => ({
-    dx: params.v * Math.cos(psi),
-    dy: params.v * Math.sin(psi),
-    dpsi: yawRate,
-  });
+const kinematics = (state: UnicycleState, yawRate: number, params: UnicycleParams) => ({
+  psi: yawRate,
+  x: params.v * Math.cos(state.psi),
+  y: params.v * Math.sin(state.psi),
+});
 
-  const k1 = f(state.psi);
-  const k2 = f(state.psi + (dt / 2) * k1.dpsi);
-  const k3 = f(state.psi + (dt / 2) * k2.dpsi);
-  const k4 = f(state.psi + dt * k3.dpsi);
-
-  return {
-    x:
-      state.x +
-      (dt / 6) * (k1.dx + 2 * k2.dx + 2 * k3.dx + k4.dx),
-    y:
-      state.y +
-      (dt / 6) * (k1.dy + 2 * k2.dy + 2 * k3.dy + k4.dy),
-    psi:
-      state.psi +
-      (dt / 6) * (k1.dpsi + 2 * k2.dpsi + 2 * k3.dpsi + k4.dpsi),
-    yawRate,
-  };
-};
-
-const semiImplicitEulerStep = (
-  state: UnicycleState,
-  inputs: SimInputs,
-  params: UnicycleParams,
-  dt: number
-): UnicycleState => {
-  const yawRate = addNoise(
-    yawRateFromInputs(inputs, params),
-    params.processNoise,
-    params.noiseStd
-  );
-  const psiNext = state.psi + yawRate * dt;
-  const vx = params.v * Math.cos(psiNext);
-  const vy = params.v * Math.sin(psiNext);
-
-  return {
-    x: state.x + vx * dt,
-    y: state.y + vy * dt,
-    psi: psiNext,
-    yawRate,
-  };
-};
+// Heading first, so semi-implicit Euler moves the car along the updated heading.
+const INTEGRATED_KEYS = ["psi", "x", "y"] as const;
 
 export const Unicycle: ModelDef<UnicycleParams, UnicycleState> = {
   id: "unicycle",
   label: "Kinematic Unicycle",
   schema,
   defaults: schema.parse({}),
-  init: () => ({ x: 0, y: 0, psi: 0, yawRate: 0 }),
-  step: (state, inputs, dtArg, params) => {
+  init: (params) => ({
+    x: 0,
+    y: 0,
+    psi: 0,
+    yawRate: 0,
+    stepsAccepted: 0,
+    stepsRejected: 0,
+    stepSize: params.dt,
+  }),
+  step: (state, inputs, dtArg, params, context) => {
     const requestedDt = params.dt ?? dtArg;
-    const guard = enforceDtBounds("unicycle", requestedDt);
+    const guard = enforceDtBounds("unicycle", requestedDt, params.integrator);
     const dt = guard.dt;
-    if (params.integrator === "semiImplicitEuler") {
-      return semiImplicitEulerStep(state, inputs, params, dt);
-    }
-    return rk4Step(state, inputs, params, dt);
+    // Noise is drawn once per step and held, so every integrator sees the same yaw rate.
+    const yawRate = addNoise(
+      yawRateFromInputs(inputs, params),
+      params.noiseStd,
+      params.processNoise ? context?.rng : null
+    );
+    const { state: next, stats } = integrateState(
+      params.integrator,
+      (current) => kinematics(current, yawRate, params),
+      state,
+      INTEGRATED_KEYS,
+      dt,
+      { rtol: params.rtol, atol: params.atol, initialStep: state.stepSize > 0 ? state.stepSize : dt }
+    );
+    return {
+      ...next,
+      yawRate,
+      stepsAccepted: state.stepsAccepted + stats.accepted,
+      stepsRejected: state.stepsRejected + stats.rejected,
+      stepSize: stats.stepSize,
+    };
   },
+  derivatives: (state, inputs, params) =>
+    kinematics(state, yawRateFromInputs(inputs, params), params),
   outputs: (state, params) => {
     const ay = params.v * state.yawRate;
 
@@ -142,9 +116,15 @@ export const Unicycle: ModelDef<UnicycleParams, UnicycleState> = {
       x: state.x,
       y: state.y,
       psi: state.psi,
+      vx: params.v,
       r: state.yawRate,
       beta: 0,
       ay,
+      notes: {
+        stepsAccepted: state.stepsAccepted,
+        stepsRejected: state.stepsRejected,
+        stepSize: state.stepSize,
+      },
     };
   },
   geometry: (params) => ({
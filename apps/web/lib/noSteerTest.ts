@@ -1,3 +1,4 @@
+import type { ExternalDisturbance } from "@/lib/sim/core";
 import type { SandboxState } from "@/lib/stateSchema";
 import {
   createVehicleParameters,
@@ -18,6 +19,8 @@ export interface NoSteerTestResult {
   maxYawRate: number;
   maxLateralAcceleration: number;
   maxLateralAccelerationG: number;
+  /** Largest sideways drift from the starting line [m]. */
+  maxLateralOffset: number;
   pass: boolean;
   thresholds: {
     yawRate: number;
@@ -27,7 +30,14 @@ export interface NoSteerTestResult {
   samplesEvaluated: number;
 }
 
-export function runNoSteerTest(state: SandboxState): NoSteerTestResult {
+/**
+ * Hands-off straight running. An optional `disturbance` (crosswind, impulse) turns the check into
+ * a crosswind-sensitivity run: the same thresholds then bound the vehicle's response to it.
+ */
+export function runNoSteerTest(
+  state: SandboxState,
+  disturbance?: (t: number) => ExternalDisturbance
+): NoSteerTestResult {
   const params = createVehicleParameters(state);
   const vehicleState = createVehicleState();
   const speed = speedToMetersPerSecond(state.speed);
@@ -36,6 +46,7 @@ export function runNoSteerTest(state: SandboxState): NoSteerTestResult {
   let elapsed = 0;
   let maxYawRate = 0;
   let maxLateralAcceleration = 0;
+  let maxLateralOffset = 0;
   let samplesEvaluated = 0;
 
   for (let step = 0; step < steps; step += 1) {
@@ -43,14 +54,14 @@ export function runNoSteerTest(state: SandboxState): NoSteerTestResult {
       vehicleState,
       {
         steeringAngle: 0,
-        speed
+        speed,
+        disturbance: disturbance?.(elapsed)
       },
       params,
       DT
     );
 
-    vehicleState.yawRate = result.state.yawRate;
-    vehicleState.lateralVelocity = result.state.lateralVelocity;
+    Object.assign(vehicleState, result.state);
     elapsed += DT;
 
     if (elapsed < SETTLE_TIME) {
@@ -60,6 +71,7 @@ export function runNoSteerTest(state: SandboxState): NoSteerTestResult {
     samplesEvaluated += 1;
     maxYawRate = Math.max(maxYawRate, Math.abs(result.telemetry.yawRate));
     maxLateralAcceleration = Math.max(maxLateralAcceleration, Math.abs(result.telemetry.lateralAcceleration));
+    maxLateralOffset = Math.max(maxLateralOffset, Math.abs(vehicleState.y));
   }
 
   const pass = maxYawRate <= YAW_THRESHOLD && maxLateralAcceleration <= LATERAL_THRESHOLD;
@@ -68,6 +80,7 @@ export function runNoSteerTest(state: SandboxState): NoSteerTestResult {
     maxYawRate,
     maxLateralAcceleration,
     maxLateralAccelerationG: maxLateralAcceleration / GRAVITY,
+    maxLateralOffset,
     pass,
     thresholds: {
       yawRate: YAW_THRESHOLD,
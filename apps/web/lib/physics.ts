@@ -1,13 +1,46 @@
+import type { ExternalDisturbance } from "@/lib/sim/core";
 import type { SandboxState } from "@/lib/stateSchema";
 import { computeSlipAndForces } from "@/lib/vehicle/slipAndForces";
-import { clampLateralForces } from "@/lib/vehicle/frictionClamp";
+import { clampAxleForces } from "@/lib/vehicle/frictionClamp";
 import { computeAy } from "@/lib/vehicle/ayYaw";
-import { createVehicleParams } from "@/lib/vehicle/params";
+import { computeStaticLoads, createVehicleParams } from "@/lib/vehicle/params";
+import {
+  bodyToWorld,
+  createRoadDescription,
+  muAt,
+  roadGravity,
+  type RoadDescription,
+} from "@/lib/vehicle/road";
 import { computeUndersteerGradient } from "@/lib/vehicle/understeer";
+import {
+  DEFAULT_TYRE_THERMAL_PARAMS,
+  createTyreThermalState,
+  slipPower,
+  stepTyreThermal,
+  thermalGripFactor,
+  type TyreThermalParams,
+  type TyreThermalState,
+} from "@/lib/vehicle/tyreThermal";
+import {
+  computeWheelSlipAngles,
+  perWheel,
+  splitAxleForceByLoad,
+  type PerWheel,
+} from "@/lib/vehicle/twinTrack";
 import { clamp, roundTo } from "@/lib/utils";
 
 const G = 9.81;
 const TRACK_WIDTH = 1.6;
+const ROLL_CENTRE_HEIGHT = 0.1;
+const ROLL_INERTIA_PER_KG = 0.35;
+const ANTI_ROLL_BAR_STIFFNESS = 40000;
+const ROLL_STEER_FRONT = -0.08;
+const ROLL_STEER_REAR = 0.04;
+const LOAD_SENSITIVITY = 0.5;
+const CAMBER_STIFFNESS_PER_LOAD = 1;
+/** Where the sandbox's low-mu zone begins and how long a wet patch runs [m]. */
+const SANDBOX_MU_ZONE_START = 10;
+const SANDBOX_WET_PATCH_LENGTH = 20;
 
 export interface VehicleParameters {
   mass: number;
@@ -16,16 +49,30 @@ export interface VehicleParameters {
   frontWeightDistribution: number;
   tyreGrip: number;
   corneringStiffnessFactor: number;
+  springRate: number;
+  damper: number;
+  antiRoll: number;
+  camber: number;
+  road: RoadDescription;
+  /** Tread heating and wear; null keeps the tyres at constant grip. */
+  tyreThermal: TyreThermalParams | null;
 }
 
 export interface VehicleState {
   yawRate: number;
   lateralVelocity: number;
+  roll: number;
+  rollRate: number;
+  heading: number;
+  x: number;
+  y: number;
+  tyres: TyreThermalState;
 }
 
 export interface VehicleInputs {
   steeringAngle: number;
   speed: number;
+  disturbance?: ExternalDisturbance;
 }
 
 export interface SimulationSample {
@@ -37,6 +84,15 @@ export interface SimulationSample {
   rearSlipAngle: number;
 }
 
+export interface WheelTelemetry {
+  load: number;
+  lateralForce: number;
+  slipAngle: number;
+  utilization: number;
+  /** Tread temperature of the wheel's axle [°C]. */
+  temperature: number;
+}
+
 export interface VehicleTelemetry {
   yawRate: number;
   lateralAcceleration: number;
@@ -55,6 +111,16 @@ export interface VehicleTelemetry {
   longitudinalSpeed: number;
   understeerGradient: number;
   steeringAngle: number;
+  rollAngle: number;
+  rollRate: number;
+  frontLoadTransfer: number;
+  rearLoadTransfer: number;
+  frontTyreTemp: number;
+  rearTyreTemp: number;
+  /** Friction coefficient after road zones and tyre temperature. */
+  frontMu: number;
+  rearMu: number;
+  wheels: PerWheel<WheelTelemetry>;
 }
 
 export function createVehicleParameters(state: SandboxState): VehicleParameters {
@@ -64,14 +130,37 @@ export function createVehicleParameters(state: SandboxState): VehicleParameters
     wheelbase: 2.8,
     frontWeightDistribution: state.weightDistributionFront,
     tyreGrip: state.tyreGrip,
-    corneringStiffnessFactor: 12.5
+    corneringStiffnessFactor: 12.5,
+    springRate: state.springRate,
+    damper: state.damper,
+    antiRoll: state.antiRoll,
+    camber: state.camber,
+    road: createSandboxRoad(state),
+    tyreThermal: state.tyreThermal ? DEFAULT_TYRE_THERMAL_PARAMS : null
   };
 }
 
+/** The crown slider banks the road the car drives on, not just the rendered plane. */
+export function createSandboxRoad(state: SandboxState): RoadDescription {
+  return createRoadDescription({
+    bankDeg: state.visualCrownDeg,
+    muLayout: state.muLayout,
+    muLow: state.muLow,
+    muZoneStart: SANDBOX_MU_ZONE_START,
+    muZoneLength: SANDBOX_WET_PATCH_LENGTH,
+  });
+}
+
 export function createVehicleState(): VehicleState {
   return {
     yawRate: 0,
-    lateralVelocity: 0
+    lateralVelocity: 0,
+    roll: 0,
+    rollRate: 0,
+    heading: 0,
+    x: 0,
+    y: 0,
+    tyres: createTyreThermalState()
   };
 }
 
@@ -79,6 +168,39 @@ function computeCorneringStiffness(load: number, grip: number, factor: number) {
   return grip * load * factor;
 }
 
+export interface RollStiffness {
+  front: number;
+  rear: number;
+  frontDamping: number;
+  rearDamping: number;
+}
+
+/**
+ * Axle roll stiffness from the wheel-rate spring (N/mm) acting over the track,
+ * plus the anti-roll bar split front/rear by `antiRoll`.
+ */
+export function computeRollStiffness(params: VehicleParameters): RollStiffness {
+  const halfTrackSq = (TRACK_WIDTH * TRACK_WIDTH) / 2;
+  const springRoll = params.springRate * 1000 * halfTrackSq;
+  const damperRoll = params.damper * halfTrackSq;
+  const balance = clamp(params.antiRoll, 0, 1);
+  return {
+    front: springRoll + ANTI_ROLL_BAR_STIFFNESS * balance,
+    rear: springRoll + ANTI_ROLL_BAR_STIFFNESS * (1 - balance),
+    frontDamping: damperRoll,
+    rearDamping: damperRoll,
+  };
+}
+
+function degradeStiffness(stiffness: number, transfer: number, wheelLoad: number) {
+  const ratio = clamp(Math.abs(transfer) / Math.max(wheelLoad, 1e-6), 0, 1);
+  return stiffness * (1 - LOAD_SENSITIVITY * ratio * ratio);
+}
+
+function camberThrust(staticCamber: number, transfer: number, axleLoad: number, roll: number) {
+  return CAMBER_STIFFNESS_PER_LOAD * (-2 * staticCamber * transfer - axleLoad * roll);
+}
+
 export function stepBicycleModel(
   state: VehicleState,
   inputs: VehicleInputs,
@@ -102,9 +224,23 @@ export function stepBicycleModel(
   const staticFront = mass * G * frontWeightDistribution;
   const staticRear = mass * G * (1 - frontWeightDistribution);
 
-  const Cf = computeCorneringStiffness(staticFront, tyreGrip, corneringStiffnessFactor);
-  const Cr = computeCorneringStiffness(staticRear, tyreGrip, corneringStiffnessFactor * 1.05);
+  const CfStatic = computeCorneringStiffness(staticFront, tyreGrip, corneringStiffnessFactor);
+  const CrStatic = computeCorneringStiffness(staticRear, tyreGrip, corneringStiffnessFactor * 1.05);
+
+  // Lateral load transfer: elastic part through the roll stiffness, geometric part through the roll centre.
+  const rollStiffness = computeRollStiffness(params);
+  const steadyAy = speed * state.yawRate;
+  const frontLoadTransfer =
+    (rollStiffness.front * state.roll + rollStiffness.frontDamping * state.rollRate) / TRACK_WIDTH +
+    (mass * frontWeightDistribution * steadyAy * ROLL_CENTRE_HEIGHT) / TRACK_WIDTH;
+  const rearLoadTransfer =
+    (rollStiffness.rear * state.roll + rollStiffness.rearDamping * state.rollRate) / TRACK_WIDTH +
+    (mass * (1 - frontWeightDistribution) * steadyAy * ROLL_CENTRE_HEIGHT) / TRACK_WIDTH;
+
+  const Cf = degradeStiffness(CfStatic, frontLoadTransfer, staticFront / 2);
+  const Cr = degradeStiffness(CrStatic, rearLoadTransfer, staticRear / 2);
 
+  const rearRollSteer = ROLL_STEER_REAR * state.roll;
   const slip = computeSlipAndForces(
     {
       vy: state.lateralVelocity,
@@ -112,42 +248,75 @@ export function stepBicycleModel(
       vx: speed,
       a,
       b,
-      steer: inputs.steeringAngle,
+      steer: inputs.steeringAngle + ROLL_STEER_FRONT * state.roll,
     },
     { Cf, Cr }
   );
+  const rearSlip = slip.angles.rear + rearRollSteer;
+  const camberRad = (params.camber * Math.PI) / 180;
 
   const vehicle = createVehicleParams({
     m: mass,
     Iz: inertia,
     a,
     b,
-    Cf,
-    Cr,
+    Cf: CfStatic,
+    Cr: CrStatic,
     mu: tyreGrip,
     track: TRACK_WIDTH,
     hCg: cgHeight,
     g: G,
   });
 
-  const clampResult = clampLateralForces({
-    FyFront: slip.forces.front,
-    FyRear: slip.forces.rear,
-    params: vehicle,
+  const gravity = roadGravity(params.road, G);
+  const staticLoads = computeStaticLoads(vehicle);
+  const frontAxle = bodyToWorld(state.x, state.y, state.heading, a, 0);
+  const rearAxle = bodyToWorld(state.x, state.y, state.heading, -b, 0);
+  const thermal = params.tyreThermal;
+  const frontMu =
+    muAt(params.road, frontAxle.x, frontAxle.y, tyreGrip) *
+    (thermal ? thermalGripFactor(state.tyres.front, thermal) : 1);
+  const rearMu =
+    muAt(params.road, rearAxle.x, rearAxle.y, tyreGrip) * (thermal ? thermalGripFactor(state.tyres.rear, thermal) : 1);
+
+  const clampResult = clampAxleForces({
+    front: { Fx: 0, Fy: slip.forces.front + camberThrust(camberRad, frontLoadTransfer, staticFront, state.roll) },
+    rear: { Fx: 0, Fy: Cr * rearSlip + camberThrust(camberRad, rearLoadTransfer, staticRear, state.roll) },
+    loads: {
+      front: staticLoads.front * gravity.normalScale,
+      rear: staticLoads.rear * gravity.normalScale,
+    },
+    mu: { front: frontMu, rear: rearMu },
   });
 
-  const FyFront = clampResult.front;
-  const FyRear = clampResult.rear;
+  const FyFront = clampResult.front.Fy;
+  const FyRear = clampResult.rear.Fy;
 
-  const yawAccel = (a * FyFront - b * FyRear) / inertia;
-  const lateralAccel = (FyFront + FyRear) / mass - state.yawRate * speed;
+  const external = inputs.disturbance;
+  const yawAccel = (a * FyFront - b * FyRear + (external?.Mz ?? 0)) / inertia;
+  const lateralAccel = (FyFront + FyRear + (external?.Fy ?? 0)) / mass + gravity.ay - state.yawRate * speed;
 
   const newYawRate = state.yawRate + yawAccel * dt;
   const newLateralVelocity = state.lateralVelocity + lateralAccel * dt;
 
-  const ay = computeAy(speed, newYawRate, lateralAccel);
+  // Tyre-force lateral acceleration: what the occupants feel, without the bank's gravity share.
+  const ay = computeAy(speed, newYawRate, lateralAccel) - gravity.ay;
   const slipAngle = Math.atan2(newLateralVelocity, speed);
 
+  // Sprung-mass roll about the roll axis (semi-implicit Euler keeps stiff springs stable).
+  const rollArm = Math.max(cgHeight - ROLL_CENTRE_HEIGHT, 0);
+  const rollInertia = ROLL_INERTIA_PER_KG * mass + mass * rollArm * rollArm;
+  const totalRollStiffness = rollStiffness.front + rollStiffness.rear;
+  const totalRollDamping = rollStiffness.frontDamping + rollStiffness.rearDamping;
+  const rollAccel =
+    (mass * rollArm * ay +
+      mass * G * rollArm * Math.sin(state.roll) -
+      totalRollStiffness * state.roll -
+      totalRollDamping * state.rollRate) /
+    rollInertia;
+  const newRollRate = state.rollRate + rollAccel * dt;
+  const newRoll = state.roll + newRollRate * dt;
+
   const weightTransfer = (mass * ay * cgHeight) / TRACK_WIDTH;
   const frontLoad = clamp(staticFront + weightTransfer * (a / wheelbase), 0, mass * G);
   const rearLoad = clamp(staticRear - weightTransfer * (a / wheelbase), 0, mass * G);
@@ -155,16 +324,62 @@ export function stepBicycleModel(
   const frontLoadPercent = roundTo((frontLoad / totalLoad) * 100, 1);
   const rearLoadPercent = roundTo(100 - frontLoadPercent, 1);
 
-  const frontUtilization = Math.min(Math.abs(FyFront) / (Math.max(tyreGrip * Math.max(frontLoad, 1), 1e-6)), 1);
-  const rearUtilization = Math.min(Math.abs(FyRear) / (Math.max(tyreGrip * Math.max(rearLoad, 1), 1e-6)), 1);
-  const understeerGradient = computeUndersteerGradient(vehicle);
+  const frontUtilization = Math.min(Math.abs(FyFront) / (Math.max(frontMu * Math.max(frontLoad, 1), 1e-6)), 1);
+  const rearUtilization = Math.min(Math.abs(FyRear) / (Math.max(rearMu * Math.max(rearLoad, 1), 1e-6)), 1);
+  const understeerGradient = computeUndersteerGradient({ ...vehicle, Cf, Cr });
+
+  // Positive load transfer moves load onto the right-hand (outside in a left turn) wheels.
+  const wheelLoads = {
+    frontLeft: Math.max(staticFront / 2 - frontLoadTransfer, 0),
+    frontRight: Math.max(staticFront / 2 + frontLoadTransfer, 0),
+    rearLeft: Math.max(staticRear / 2 - rearLoadTransfer, 0),
+    rearRight: Math.max(staticRear / 2 + rearLoadTransfer, 0),
+  };
+  const wheelSlips = computeWheelSlipAngles({
+    vx: speed,
+    vy: state.lateralVelocity,
+    r: state.yawRate,
+    a,
+    b,
+    track: TRACK_WIDTH,
+    steer: inputs.steeringAngle + ROLL_STEER_FRONT * state.roll,
+    rearSteer: rearRollSteer,
+  });
+  const frontSplit = splitAxleForceByLoad(FyFront, wheelLoads.frontLeft, wheelLoads.frontRight);
+  const rearSplit = splitAxleForceByLoad(FyRear, wheelLoads.rearLeft, wheelLoads.rearRight);
+  const wheelForces = {
+    frontLeft: frontSplit.left,
+    frontRight: frontSplit.right,
+    rearLeft: rearSplit.left,
+    rearRight: rearSplit.right,
+  };
+  const tyres = thermal
+    ? stepTyreThermal(
+        state.tyres,
+        { front: slipPower(FyFront, slip.angles.front, speed), rear: slipPower(FyRear, rearSlip, speed) },
+        speed,
+        dt,
+        thermal
+      )
+    : state.tyres;
+  const wheels = perWheel<WheelTelemetry>((corner) => ({
+    load: wheelLoads[corner],
+    lateralForce: wheelForces[corner],
+    slipAngle: wheelSlips[corner],
+    utilization: Math.min(
+      Math.abs(wheelForces[corner]) /
+        Math.max((corner.startsWith("front") ? frontMu : rearMu) * Math.max(wheelLoads[corner], 1), 1e-6),
+      1
+    ),
+    temperature: corner.startsWith("front") ? tyres.front.temperature : tyres.rear.temperature,
+  }));
 
   const telemetry: VehicleTelemetry = {
     yawRate: newYawRate,
     lateralAcceleration: ay,
     slipAngle,
     frontSlipAngle: slip.angles.front,
-    rearSlipAngle: slip.angles.rear,
+    rearSlipAngle: rearSlip,
     frontLoad,
     rearLoad,
     frontLoadPercent,
@@ -177,6 +392,15 @@ export function stepBicycleModel(
     longitudinalSpeed: speed,
     understeerGradient,
     steeringAngle: inputs.steeringAngle,
+    rollAngle: newRoll,
+    rollRate: newRollRate,
+    frontLoadTransfer,
+    rearLoadTransfer,
+    frontTyreTemp: tyres.front.temperature,
+    rearTyreTemp: tyres.rear.temperature,
+    frontMu,
+    rearMu,
+    wheels,
   };
 
   const sample: SimulationSample = {
@@ -185,13 +409,19 @@ export function stepBicycleModel(
     lateralAcceleration: ay,
     slipAngle,
     frontSlipAngle: slip.angles.front,
-    rearSlipAngle: slip.angles.rear,
+    rearSlipAngle: rearSlip,
   };
 
   return {
     state: {
       yawRate: newYawRate,
       lateralVelocity: newLateralVelocity,
+      roll: newRoll,
+      rollRate: newRollRate,
+      heading: state.heading + newYawRate * dt,
+      x: state.x + (speed * Math.cos(state.heading) - newLateralVelocity * Math.sin(state.heading)) * dt,
+      y: state.y + (speed * Math.sin(state.heading) + newLateralVelocity * Math.cos(state.heading)) * dt,
+      tyres,
     },
     telemetry,
     sample,
@@ -1,7 +1,21 @@
-import { createVehicleParams, type VehicleParams } from "@/lib/vehicle/params";
-import type { Telemetry } from "@/lib/sim/core";
+import { computeStaticLoads, createVehicleParams, type VehicleParams } from "@/lib/vehicle/params";
+import { magicFormulaCorneringStiffness } from "@/lib/vehicle/tyres";
+import type { ModelDef, Telemetry } from "@/lib/sim/core";
+import { createRng } from "@/lib/sim/random";
 import { getModel } from "@/lib/sim/registry";
 import type { SimInputs } from "@/lib/sim/core";
+import type { LinearSystem, LinearTheoryOptions, TyreLagOptions } from "@/lib/theory/utils";
+import { lineariseModel, linearSystemForInput } from "@/lib/theory/linearise";
+import { isStableSpectrum, modelEigenvalues } from "@/lib/theory/stability";
+import { activeChassisFromParams } from "@/lib/vehicle/activeChassis";
+import {
+  createSteeringState,
+  DEFAULT_STEERING_PARAMS,
+  resolveSteeringInputs,
+  type SteeringParams,
+  type SteeringState,
+} from "@/lib/vehicle/steering";
+import { DEFAULT_ESC_PARAMS, resolveEscInputs, type EscParams, type EscState } from "@/lib/vehicle/esc";
 
 export type CanonicalTelemetry = {
   t: number;
@@ -13,14 +27,26 @@ export type CanonicalTelemetry = {
   vyDot: number;
   slipFront: number;
   slipRear: number;
+  /** Friction-ellipse utilisation per axle, 1 at the grip limit. */
+  frontUtilization: number;
+  rearUtilization: number;
   frontLimited: boolean;
   rearLimited: boolean;
   dtClamped: boolean;
+  /** Present when the input was a handwheel angle routed through the steering column. */
+  handwheelAngle?: number;
+  handwheelTorque?: number;
+  /** Present when ESC was enabled for the run. */
+  escActive?: boolean;
+  escYawMoment?: number;
+  escBrakeForce?: number;
 };
 
 export type SimulationRun = {
   telemetry: CanonicalTelemetry[];
   params: Record<string, unknown>;
+  /** The model linearised about straight running at launch had a right half-plane pole; false when not checked. */
+  unstable: boolean;
 };
 
 export type SimulationConfig = {
@@ -29,12 +55,27 @@ export type SimulationConfig = {
   dt: number;
   duration: number;
   input: (context: { t: number; previous?: CanonicalTelemetry }) => SimInputs;
+  /** Steering column for handwheel inputs; defaults to DEFAULT_STEERING_PARAMS. */
+  steering?: Partial<SteeringParams>;
+  /** Stability controller between the inputs and the model; off unless `enabled` is set. */
+  esc?: Partial<EscParams>;
+  /** Keeps the model's process noise on, drawn reproducibly from this seed; without it noise is off. */
+  seed?: number;
+  /** Linearise the configuration for `unstable`; defaults to true. Sweeps that rerun one configuration check it once. */
+  checkStability?: boolean;
 };
 
-const toTelemetry = (raw: Telemetry, steer: number): CanonicalTelemetry => {
+const toTelemetry = (
+  raw: Telemetry,
+  steer: number,
+  steering: SteeringState | null,
+  esc: EscState | null
+): CanonicalTelemetry => {
   const notes = raw.notes ?? {};
-  const frontLimited = Boolean(notes.frontLimited && notes.frontLimited > 0);
-  const rearLimited = Boolean(notes.rearLimited && notes.rearLimited > 0);
+  const frontUtilization = notes.frontUtilization ?? 0;
+  const rearUtilization = notes.rearUtilization ?? 0;
+  const frontLimited = Boolean(notes.frontLimited && notes.frontLimited > 0) || frontUtilization >= 1;
+  const rearLimited = Boolean(notes.rearLimited && notes.rearLimited > 0) || rearUtilization >= 1;
   const dtClamped = Boolean(notes.dtClamped && notes.dtClamped > 0);
   return {
     t: raw.t ?? 0,
@@ -46,9 +87,13 @@ const toTelemetry = (raw: Telemetry, steer: number): CanonicalTelemetry => {
     vyDot: notes.vyDot ?? 0,
     slipFront: notes.slipFront ?? 0,
     slipRear: notes.slipRear ?? 0,
+    frontUtilization,
+    rearUtilization,
     frontLimited,
     rearLimited,
     dtClamped,
+    ...(steering ? { handwheelAngle: steering.handwheelAngle, handwheelTorque: steering.handwheelTorque } : {}),
+    ...(esc ? { escActive: esc.active, escYawMoment: esc.yawMoment, escBrakeForce: esc.brakeForce } : {}),
   };
 };
 
@@ -65,34 +110,78 @@ export const runSimulation = (config: SimulationConfig): SimulationRun => {
   if (typeof (params as any).useFrictionClamp === "undefined") {
     (params as any).useFrictionClamp = true;
   }
-  if ((params as any).processNoise) {
+  if ((params as any).processNoise && typeof config.seed !== "number") {
     (params as any).processNoise = false;
   }
+  const rng = createRng(config.seed);
   const dt = config.dt;
   const steps = Math.max(1, Math.ceil(config.duration / dt));
+  const steeringParams = { ...DEFAULT_STEERING_PARAMS, ...config.steering };
+  const escParams = { ...DEFAULT_ESC_PARAMS, ...config.esc };
+  const vehicle = vehicleParamsFromModel(params);
   let state = model.init(params as any);
+  let steeringState = createSteeringState();
+  let current = model.outputs(state, params as any);
   const telemetry: CanonicalTelemetry[] = [];
 
   for (let i = 0; i < steps; i += 1) {
     const t = i * dt;
     const previous = telemetry.length > 0 ? telemetry[telemetry.length - 1] : undefined;
-    const inputs = config.input({ t, previous });
-    state = model.step(state, inputs, dt, params as any);
-    const raw = model.outputs(state, params as any);
-    const sample = toTelemetry({ ...raw, t: t + dt }, inputs.steer ?? 0);
+    const { inputs: steered, steering } = resolveSteeringInputs(
+      config.input({ t, previous }),
+      steeringState,
+      current.notes,
+      steeringParams
+    );
+    if (steering) {
+      steeringState = steering;
+    }
+    const { inputs, esc } = resolveEscInputs(steered, current, vehicle, escParams);
+    state = model.step(state, inputs, dt, params as any, { rng });
+    current = model.outputs(state, params as any);
+    const sample = toTelemetry({ ...current, t: t + dt }, inputs.steer ?? 0, steering, esc);
     telemetry.push(sample);
   }
 
   return {
     telemetry,
     params,
+    unstable: config.checkStability === false ? false : isUnstableConfiguration(model, params),
   };
 };
 
+/** Models with no dynamic states to linearise (e.g. kinematic ones) count as stable. */
+const isUnstableConfiguration = (model: ModelDef<any, any>, params: Record<string, unknown>): boolean => {
+  try {
+    return !isStableSpectrum(modelEigenvalues(model, params));
+  } catch {
+    return false;
+  }
+};
+
+const magicFormulaStiffness = (
+  params: Record<string, unknown>,
+  axle: "Front" | "Rear",
+  Fz: number,
+  mu: number
+): number | undefined => {
+  const B = params["B" + axle];
+  const C = params["C" + axle];
+  const E = params["E" + axle];
+  if (typeof B !== "number" || typeof C !== "number") {
+    return undefined;
+  }
+  return magicFormulaCorneringStiffness(
+    { B, C, E: typeof E === "number" ? E : 0 },
+    Fz,
+    mu
+  );
+};
+
 export const vehicleParamsFromModel = (
   params: Record<string, unknown>
-): VehicleParams =>
-  createVehicleParams({
+): VehicleParams => {
+  const base = createVehicleParams({
     m: (params.m as number) ?? 1500,
     Iz: (params.Iz as number) ?? 2250,
     a: (params.a as number) ?? 1.2,
@@ -102,4 +191,57 @@ export const vehicleParamsFromModel = (
     mu: (params.mu as number) ?? 1,
     track: (params.trackWidth as number) ?? 1.6,
     hCg: (params.hCg as number) ?? 0.55,
+    ClFront: params.ClFront as number | undefined,
+    ClRear: params.ClRear as number | undefined,
+    Cd: params.Cd as number | undefined,
+    frontalArea: params.frontalArea as number | undefined,
   });
+  if (typeof params.Cf === "number" && typeof params.Cr === "number") {
+    return base;
+  }
+  // Tyre-curve models expose B/C/E instead of Cf/Cr; linearise about zero slip.
+  const loads = computeStaticLoads(base);
+  return {
+    ...base,
+    Cf: magicFormulaStiffness(params, "Front", loads.front, base.mu) ?? base.Cf,
+    Cr: magicFormulaStiffness(params, "Rear", loads.rear, base.mu) ?? base.Cr,
+  };
+};
+
+export const tyreLagFromModel = (params: Record<string, unknown>): TyreLagOptions => ({
+  relaxationLength: typeof params.relaxationLength === "number" ? params.relaxationLength : 0,
+});
+
+/** Tyre lag plus the model's active-chassis laws, for theory that should match the simulated car. */
+export const linearTheoryFromModel = (params: Record<string, unknown>): LinearTheoryOptions => ({
+  ...tyreLagFromModel(params),
+  actuators: activeChassisFromParams(params),
+});
+
+/** Where the theory overlay comes from: the hand-derived bicycle model or a numerical linearisation. */
+export type TheorySource = "bicycle" | "linearised";
+
+/** Models the bicycle theory describes exactly; everything else is linearised by default. */
+const BICYCLE_THEORY_MODELS = ["lin2dof", "pacejka2dof"];
+
+export const defaultTheorySource = (modelId = "lin2dof"): TheorySource =>
+  BICYCLE_THEORY_MODELS.includes(modelId) ? "bicycle" : "linearised";
+
+/**
+ * Steer-input linearisation of the simulated model about straight running, or null when the
+ * bicycle theory was asked for or the model cannot be linearised (e.g. it reports no `vy`).
+ */
+export const linearisedSystemFromModel = (
+  modelId: string | undefined,
+  params: Record<string, unknown>,
+  source: TheorySource = defaultTheorySource(modelId)
+): LinearSystem | null => {
+  if (source !== "linearised") {
+    return null;
+  }
+  try {
+    return linearSystemForInput(lineariseModel(modelId ?? "lin2dof", { params }));
+  } catch {
+    return null;
+  }
+};
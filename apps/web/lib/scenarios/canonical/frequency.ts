@@ -1,5 +1,13 @@
-import { predictBode } from "@/lib/theory/frequency";
-import { runSimulation, vehicleParamsFromModel, type CanonicalTelemetry } from "./common";
+import { predictBode, predictBodeFromSystem } from "@/lib/theory/frequency";
+import { actuatorGains, isPassiveChassis } from "@/lib/vehicle/activeChassis";
+import {
+  linearisedSystemFromModel,
+  linearTheoryFromModel,
+  runSimulation,
+  vehicleParamsFromModel,
+  type CanonicalTelemetry,
+  type TheorySource,
+} from "./common";
 
 export type FrequencyConfig = {
   speed: number;
@@ -10,6 +18,10 @@ export type FrequencyConfig = {
   dt?: number;
   modelId?: string;
   modelParams?: Record<string, unknown>;
+  /** Keeps process noise on with this seed; see `SimulationConfig.seed`. */
+  seed?: number;
+  /** Defaults to the bicycle theory for the bicycle models and a linearisation for the rest. */
+  theory?: TheorySource;
 };
 
 export type FrequencyRun = {
@@ -25,7 +37,10 @@ export type FrequencyRun = {
 
 export type FrequencyResult = {
   runs: FrequencyRun[];
-  theory: ReturnType<typeof predictBode>;
+  theory: ReturnType<typeof predictBode> & {
+    /** The same car without its rear-steer / yaw-moment actuators; the active theory when linearised. */
+    passive: ReturnType<typeof predictBode>;
+  };
   metrics: Record<string, number>;
   grades: Record<string, boolean>;
   flags: Record<string, boolean>;
@@ -79,6 +94,7 @@ export function runFrequencyRun(config: FrequencyConfig): FrequencyResult {
   const runs: FrequencyRun[] = [];
 
   let referenceParams: Record<string, unknown> | null = null;
+  let unstable = false;
 
   for (const freq of config.freqs) {
     const omega = 2 * Math.PI * freq;
@@ -91,12 +107,16 @@ export function runFrequencyRun(config: FrequencyConfig): FrequencyResult {
       params: { v: config.speed, ...(config.modelParams ?? {}) },
       dt,
       duration,
+      seed: config.seed,
+      // Only the input changes between frequencies, so the configuration is linearised once.
+      checkStability: runs.length === 0,
       input: ({ t }) => ({ steer: amplitude * Math.sin(omega * t) }),
     });
 
     if (!referenceParams) {
       referenceParams = sim.params;
     }
+    unstable = unstable || sim.unstable;
 
     const response = analyseSine(sim.telemetry, omega, amplitude, settleTime);
     const frictionLimited = sim.telemetry.some((sample) => sample.frontLimited || sample.rearLimited);
@@ -117,7 +137,17 @@ export function runFrequencyRun(config: FrequencyConfig): FrequencyResult {
   }
 
   const vehicle = vehicleParamsFromModel(referenceParams ?? {});
-  const theory = predictBode(config.speed, config.freqs, vehicle);
+  const theoryOptions = linearTheoryFromModel(referenceParams ?? {});
+  const linearised = linearisedSystemFromModel(config.modelId, referenceParams ?? {}, config.theory);
+  const active = linearised
+    ? predictBodeFromSystem(linearised, config.freqs)
+    : predictBode(config.speed, config.freqs, vehicle, theoryOptions);
+  const theory = {
+    ...active,
+    passive: linearised
+      ? active
+      : predictBode(config.speed, config.freqs, vehicle, { ...theoryOptions, actuators: undefined }),
+  };
 
   const yawGains = runs.map((run) => run.yawGain);
   const theoryYaw = theory.yawRateMag;
@@ -172,11 +202,17 @@ export function runFrequencyRun(config: FrequencyConfig): FrequencyResult {
     peakFreqError,
     rmsError,
     maxSlip,
+    theoryDcGain: theoryYaw[lowestIndex] ?? 0,
+    passiveDcGain: theory.passive.yawRateMag[lowestIndex] ?? 0,
   };
 
   const flags = {
     frictionLimited,
     linearRegion,
+    activeChassis:
+      !!theoryOptions.actuators && !isPassiveChassis(actuatorGains(theoryOptions.actuators, config.speed)),
+    linearisedTheory: !!linearised,
+    unstable,
   };
 
   return {
@@ -1,6 +1,7 @@
 import { predictLimit } from "@/lib/theory/frictionEnvelope";
 import { createStepSteerTheory } from "@/lib/theory/stepSteer";
-import { runSimulation, vehicleParamsFromModel, type CanonicalTelemetry } from "./common";
+import type { EscParams } from "@/lib/vehicle/esc";
+import { linearTheoryFromModel, runSimulation, vehicleParamsFromModel, type CanonicalTelemetry } from "./common";
 
 export type RampConfig = {
   speed: number;
@@ -9,6 +10,10 @@ export type RampConfig = {
   dt?: number;
   modelId?: string;
   modelParams?: Record<string, unknown>;
+  /** Keeps process noise on with this seed; see `SimulationConfig.seed`. */
+  seed?: number;
+  /** Run with the stability controller in the loop. */
+  esc?: Partial<EscParams>;
 };
 
 export type RampResult = {
@@ -30,12 +35,15 @@ export function runRampToLimitRun(config: RampConfig): RampResult {
     params: { v: config.speed, ...(config.modelParams ?? {}) },
     dt,
     duration,
+    seed: config.seed,
     input: ({ t }) => ({ steer: config.rampRate * t }),
+    esc: config.esc,
   });
 
   const vehicle = vehicleParamsFromModel(sim.params);
   const frictionTheory = predictLimit(config.speed, vehicle.mu, vehicle);
-  const stepTheory = createStepSteerTheory(vehicle, config.speed);
+  const { actuators } = linearTheoryFromModel(sim.params);
+  const stepTheory = createStepSteerTheory(vehicle, config.speed, { actuators });
   const linearGainTheory = stepTheory.gainRDelta * config.speed;
 
   const slopeWindow = 0.05;
@@ -63,11 +71,17 @@ export function runRampToLimitRun(config: RampConfig): RampResult {
   const steerError = Math.abs(steerAtLimit - frictionTheory.steerAtLimit);
 
   const frictionLimited = limitIndex >= 0;
+  const maxUtilization = sim.telemetry.length
+    ? Math.max(...sim.telemetry.map((sample) => Math.max(sample.frontUtilization, sample.rearUtilization)))
+    : 0;
   const maxSlip = sim.telemetry.length
     ? Math.max(
         ...sim.telemetry.map((sample) => Math.max(Math.abs(sample.slipFront), Math.abs(sample.slipRear)))
       )
     : 0;
+  const maxSideslip = sim.telemetry.length
+    ? Math.max(...sim.telemetry.map((sample) => Math.abs(sample.beta)))
+    : 0;
 
   const grades = {
     linearGain: gainError <= 0.1,
@@ -86,10 +100,14 @@ export function runRampToLimitRun(config: RampConfig): RampResult {
     steerExpected: frictionTheory.steerAtLimit,
     steerError,
     maxSlip,
+    maxUtilization,
+    maxSideslip,
   };
 
   const flags = {
     frictionLimited,
+    escIntervened: sim.telemetry.some((sample) => sample.escActive),
+    unstable: sim.unstable,
   };
 
   return {
@@ -8,6 +8,8 @@ export type SkidpadConfig = {
   dt?: number;
   modelId?: string;
   modelParams?: Record<string, unknown>;
+  /** Keeps process noise on with this seed; see `SimulationConfig.seed`. */
+  seed?: number;
   controller?: {
     kp?: number;
     ki?: number;
@@ -37,6 +39,7 @@ export function runSkidpadRun(config: SkidpadConfig): SkidpadResult {
     params: { v: config.speed, ...(config.modelParams ?? {}) },
     dt,
     duration,
+    seed: config.seed,
     input: ({ previous }) => {
       if (!previous) {
         integral = 0;
@@ -102,6 +105,7 @@ export function runSkidpadRun(config: SkidpadConfig): SkidpadResult {
   const flags = {
     frictionLimited,
     linearRegion,
+    unstable: sim.unstable,
   };
 
   return {
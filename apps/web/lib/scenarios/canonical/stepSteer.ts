@@ -1,5 +1,13 @@
-import { createStepSteerTheory } from "@/lib/theory/stepSteer";
-import { runSimulation, vehicleParamsFromModel, type CanonicalTelemetry } from "./common";
+import { createStepSteerTheory, createStepSteerTheoryFromSystem } from "@/lib/theory/stepSteer";
+import { actuatorGains, isPassiveChassis } from "@/lib/vehicle/activeChassis";
+import {
+  linearisedSystemFromModel,
+  linearTheoryFromModel,
+  runSimulation,
+  vehicleParamsFromModel,
+  type CanonicalTelemetry,
+  type TheorySource,
+} from "./common";
 
 export type StepSteerConfig = {
   speed: number;
@@ -9,6 +17,10 @@ export type StepSteerConfig = {
   dt?: number;
   modelId?: string;
   modelParams?: Record<string, unknown>;
+  /** Keeps process noise on with this seed; see `SimulationConfig.seed`. */
+  seed?: number;
+  /** Defaults to the bicycle theory for the bicycle models and a linearisation for the rest. */
+  theory?: TheorySource;
 };
 
 export type StepSteerResult = {
@@ -16,6 +28,13 @@ export type StepSteerResult = {
   theory: ReturnType<typeof createStepSteerTheory> & {
     yawRate: number[];
     ay: number[];
+    /** The same car without its rear-steer / yaw-moment actuators; the active theory when linearised. */
+    passive: {
+      omegaN: number;
+      zeta: number;
+      yawRate: number[];
+      ay: number[];
+    };
   };
   metrics: Record<string, number>;
   grades: Record<string, boolean>;
@@ -58,13 +77,26 @@ export function runStepSteerRun(config: StepSteerConfig): StepSteerResult {
     params: { v: config.speed, ...(config.modelParams ?? {}) },
     dt,
     duration,
+    seed: config.seed,
     input: ({ t }) => ({ steer: t >= tStep ? delta : 0 }),
   });
 
   const vehicle = vehicleParamsFromModel(sim.params);
-  const theoryBase = createStepSteerTheory(vehicle, config.speed);
-  const times = sim.telemetry.map((sample) => sample.t);
+  const theoryOptions = linearTheoryFromModel(sim.params);
+  const linearised = linearisedSystemFromModel(config.modelId, sim.params, config.theory);
+  const theoryBase = linearised
+    ? createStepSteerTheoryFromSystem(linearised)
+    : createStepSteerTheory(vehicle, config.speed, theoryOptions);
+  // The same car without its rear-steer / yaw-moment actuators, to show what they change.
+  const passiveTheory = linearised
+    ? theoryBase
+    : createStepSteerTheory(vehicle, config.speed, { ...theoryOptions, actuators: undefined });
+  // Theory time is measured from the step so the overlay lines up with the telemetry.
+  const times = sim.telemetry.map((sample) => sample.t - tStep);
   const theoryCurves = theoryBase.stepCurves(times, delta);
+  const passiveCurves = passiveTheory.stepCurves(times, delta);
+  const activeChassis =
+    !!theoryOptions.actuators && !isPassiveChassis(actuatorGains(theoryOptions.actuators, config.speed));
 
   const finalExpected = theoryBase.gainRDelta * delta;
   const steadySamples = sim.telemetry.filter((sample) => sample.t >= duration - 1);
@@ -126,11 +158,18 @@ export function runStepSteerRun(config: StepSteerConfig): StepSteerResult {
     theoreticalOvershoot,
     overshootError,
     maxSlip,
+    omegaN: theoryBase.omegaN,
+    zeta: theoryBase.zeta,
+    omegaNPassive: passiveTheory.omegaN,
+    zetaPassive: passiveTheory.zeta,
   };
 
   const flags = {
     frictionLimited,
     linearRegion,
+    activeChassis,
+    linearisedTheory: !!linearised,
+    unstable: sim.unstable,
   };
 
   return {
@@ -139,6 +178,12 @@ export function runStepSteerRun(config: StepSteerConfig): StepSteerResult {
       ...theoryBase,
       yawRate: theoryCurves.yawRate,
       ay: theoryCurves.ay,
+      passive: {
+        omegaN: passiveTheory.omegaN,
+        zeta: passiveTheory.zeta,
+        yawRate: passiveCurves.yawRate,
+        ay: passiveCurves.ay,
+      },
     },
     metrics,
     grades,
@@ -0,0 +1,56 @@
+import type { ExternalDisturbance } from "../sim/core";
+import { DEFAULT_AIR_DENSITY } from "../vehicle/params";
+
+/** `step` holds from `tStart` on; `gust` and `impulse` hold for `duration` and then drop away. */
+export type DisturbanceShape = "step" | "gust" | "impulse";
+
+export type DisturbanceProfile = {
+  shape: DisturbanceShape;
+  tStart: number;
+  /** Hold time for gusts and impulses [s]. */
+  duration: number;
+  Fy: number;
+  Mz: number;
+};
+
+export type CrosswindOptions = {
+  /** Wind speed across the vehicle, positive blowing from the right towards the left [m/s]. */
+  windSpeed: number;
+  /** Side-projected area [m²]. */
+  sideArea?: number;
+  /** Side-force coefficient on the side area [-]. */
+  sideForceCoeff?: number;
+  /** Aerodynamic centre of pressure ahead of the CG [m]; negative sits behind it. */
+  pressureCentre?: number;
+  rho?: number;
+};
+
+export const ZERO_DISTURBANCE: Required<ExternalDisturbance> = { Fy: 0, Mz: 0 };
+
+/**
+ * Quasi-steady side load from a crosswind, ½ρ·A·Cy·w·|w|, acting at the centre of pressure.
+ * The vehicle's own airspeed is ignored, so the aerodynamic yaw angle is effectively 90°.
+ */
+export function crosswindLoads(options: CrosswindOptions): Required<ExternalDisturbance> {
+  const rho = options.rho ?? DEFAULT_AIR_DENSITY;
+  const area = options.sideArea ?? 4;
+  const coeff = options.sideForceCoeff ?? 0.9;
+  const Fy = 0.5 * rho * area * coeff * options.windSpeed * Math.abs(options.windSpeed);
+  return { Fy, Mz: Fy * (options.pressureCentre ?? 0.3) };
+}
+
+/** Rectangular pulse that delivers `impulse` [N·s] of lateral momentum over `duration`. */
+export function lateralImpulseProfile(impulse: number, tStart: number, duration: number): DisturbanceProfile {
+  const width = Math.max(duration, 1e-3);
+  return { shape: "impulse", tStart, duration: width, Fy: impulse / width, Mz: 0 };
+}
+
+export function disturbanceAt(profile: DisturbanceProfile, t: number): Required<ExternalDisturbance> {
+  if (t < profile.tStart) {
+    return ZERO_DISTURBANCE;
+  }
+  if (profile.shape !== "step" && t >= profile.tStart + profile.duration) {
+    return ZERO_DISTURBANCE;
+  }
+  return { Fy: profile.Fy, Mz: profile.Mz };
+}
@@ -1,4 +1,8 @@
 ﻿import type { ModelParams, SimInputs } from "../sim/core";
+import { DEFAULT_STEERING_PARAMS } from "../vehicle/steering";
+import { crosswindLoads, disturbanceAt, lateralImpulseProfile, type DisturbanceProfile } from "./disturbances";
+
+export * from "./disturbances";
 
 export type ScenarioSampleContext = {
   t: number;
@@ -23,15 +27,42 @@ export type ScenarioPreset<Opts extends Record<string, unknown>> = {
 type StepSteerOptions = {
   deltaDeg: number;
   tStep: number;
+  /** Handwheel step [deg]; replaces `deltaDeg` and routes through the steering system. */
+  handwheelDeg?: number;
 };
 
 type ConstRadiusOptions = {
   R: number;
 };
 
+type BrakeInTurnOptions = {
+  R: number;
+  tBrake: number;
+  brake: number;
+};
+
+type AccelOutOptions = {
+  R: number;
+  tThrottle: number;
+  throttle: number;
+  tUnwind: number;
+};
+
+type LaneChangeOptions = {
+  deltaDeg: number;
+  tStart: number;
+  period: number;
+  /** Handwheel amplitude [deg]; replaces `deltaDeg` and routes through the steering system. */
+  handwheelDeg?: number;
+};
+
 export const stepSteer: ScenarioFactory<StepSteerOptions> = (options) => {
-  const { deltaDeg, tStep } = { deltaDeg: 5, tStep: 1, ...options };
+  const { deltaDeg, tStep, handwheelDeg } = { deltaDeg: 5, tStep: 1, ...options };
   const deltaRad = degToRad(deltaDeg);
+  if (typeof handwheelDeg === "number") {
+    const handwheelRad = degToRad(handwheelDeg);
+    return ({ t }: ScenarioSampleContext) => handwheelInputs(t >= tStep ? handwheelRad : 0);
+  }
   return ({ t }: ScenarioSampleContext) => ({
     steer: t >= tStep ? deltaRad : 0,
     throttle: 0,
@@ -52,6 +83,112 @@ export const constRadius: ScenarioFactory<ConstRadiusOptions> = (options) => {
   };
 };
 
+export const brakeInTurn: ScenarioFactory<BrakeInTurnOptions> = (options) => {
+  const { R, tBrake, brake } = { R: 50, tBrake: 2, brake: 0.5, ...options };
+  return ({ t, params }: ScenarioSampleContext) => ({
+    steer: Math.atan(inferEffectiveWheelbase(params) / R),
+    throttle: 0,
+    brake: t >= tBrake ? brake : 0,
+  });
+};
+
+export const accelOut: ScenarioFactory<AccelOutOptions> = (options) => {
+  const { R, tThrottle, throttle, tUnwind } = {
+    R: 50,
+    tThrottle: 2,
+    throttle: 0.8,
+    tUnwind: 2,
+    ...options,
+  };
+  return ({ t, params }: ScenarioSampleContext) => {
+    const steerCorner = Math.atan(inferEffectiveWheelbase(params) / R);
+    const unwind = tUnwind > 0 ? Math.min(Math.max((t - tThrottle) / tUnwind, 0), 1) : 1;
+    const applyThrottle = t >= tThrottle;
+    return {
+      steer: applyThrottle ? steerCorner * (1 - unwind) : steerCorner,
+      throttle: applyThrottle ? throttle : 0,
+      brake: 0,
+    };
+  };
+};
+
+export const laneChange: ScenarioFactory<LaneChangeOptions> = (options) => {
+  const { deltaDeg, tStart, period, handwheelDeg } = { deltaDeg: 2, tStart: 1, period: 3, ...options };
+  const deltaRad = degToRad(deltaDeg);
+  const handwheelRad = typeof handwheelDeg === "number" ? degToRad(handwheelDeg) : null;
+  return ({ t }: ScenarioSampleContext) => {
+    const phase = period > 0 ? (t - tStart) / period : -1;
+    const shape = phase >= 0 && phase <= 1 ? Math.sin(2 * Math.PI * phase) : 0;
+    if (handwheelRad !== null) {
+      return handwheelInputs(handwheelRad * shape);
+    }
+    return {
+      steer: deltaRad * shape,
+      throttle: 0,
+      brake: 0,
+    };
+  };
+};
+
+type CrosswindOptions = {
+  windSpeed: number;
+  tStart: number;
+  /** Gust length [s]; 0 holds the wind for the rest of the run. */
+  duration: number;
+  sideArea: number;
+  sideForceCoeff: number;
+  pressureCentre: number;
+};
+
+type LateralImpulseOptions = {
+  /** Lateral momentum delivered [N·s]. */
+  impulse: number;
+  tStart: number;
+  duration: number;
+};
+
+export const crosswind: ScenarioFactory<CrosswindOptions> = (options) => {
+  const { windSpeed, tStart, duration, sideArea, sideForceCoeff, pressureCentre } = {
+    windSpeed: 20,
+    tStart: 1,
+    duration: 2,
+    sideArea: 4,
+    sideForceCoeff: 0.9,
+    pressureCentre: 0.3,
+    ...options,
+  };
+  const loads = crosswindLoads({ windSpeed, sideArea, sideForceCoeff, pressureCentre });
+  const profile: DisturbanceProfile = {
+    shape: duration > 0 ? "gust" : "step",
+    tStart,
+    duration,
+    ...loads,
+  };
+  return ({ t }: ScenarioSampleContext) => straightLineInputs(profile, t);
+};
+
+export const lateralImpulse: ScenarioFactory<LateralImpulseOptions> = (options) => {
+  const { impulse, tStart, duration } = { impulse: 600, tStart: 1, duration: 0.1, ...options };
+  const profile = lateralImpulseProfile(impulse, tStart, duration);
+  return ({ t }: ScenarioSampleContext) => straightLineInputs(profile, t);
+};
+
+// Hands-off straight running, so the response is the vehicle's alone.
+const straightLineInputs = (profile: DisturbanceProfile, t: number): SimInputs => ({
+  steer: 0,
+  throttle: 0,
+  brake: 0,
+  disturbance: disturbanceAt(profile, t),
+});
+
+// `steer` carries the rigid-column road-wheel angle for callers that bypass the steering system.
+const handwheelInputs = (handwheel: number): SimInputs => ({
+  steer: handwheel / DEFAULT_STEERING_PARAMS.ratio,
+  handwheel,
+  throttle: 0,
+  brake: 0,
+});
+
 const inferEffectiveWheelbase = (params: ModelParams) => {
   if (typeof params === "object" && params) {
     if (typeof (params as any).L_eff === "number") {
@@ -77,6 +214,13 @@ export const scenarioPresets: ScenarioPreset<any>[] = [
     defaults: { deltaDeg: 5, tStep: 1 },
     create: stepSteer,
   },
+  {
+    id: "handwheel-step",
+    label: "Step Steer (handwheel)",
+    description: "ISO 7401-style step in handwheel angle, applied through the steering column.",
+    defaults: { deltaDeg: 0, tStep: 1, handwheelDeg: 40 },
+    create: stepSteer,
+  },
   {
     id: "const-radius",
     label: "Constant Radius",
@@ -84,6 +228,41 @@ export const scenarioPresets: ScenarioPreset<any>[] = [
     defaults: { R: 50 },
     create: constRadius,
   },
+  {
+    id: "brake-in-turn",
+    label: "Brake in Turn",
+    description: "Holds a constant radius, then applies the brakes mid-corner.",
+    defaults: { R: 50, tBrake: 2, brake: 0.5 },
+    create: brakeInTurn,
+  },
+  {
+    id: "accel-out",
+    label: "Accelerate out of Corner",
+    description: "Holds a constant radius, then unwinds steering while applying throttle.",
+    defaults: { R: 50, tThrottle: 2, throttle: 0.8, tUnwind: 2 },
+    create: accelOut,
+  },
+  {
+    id: "lane-change",
+    label: "Lane Change",
+    description: "One full sine period of steer moves the vehicle across a lane and straightens it.",
+    defaults: { deltaDeg: 2, tStart: 1, period: 3 },
+    create: laneChange,
+  },
+  {
+    id: "crosswind",
+    label: "Crosswind Gust",
+    description: "Hands-off straight running through a side-wind gust acting ahead of the CG.",
+    defaults: { windSpeed: 20, tStart: 1, duration: 2, sideArea: 4, sideForceCoeff: 0.9, pressureCentre: 0.3 },
+    create: crosswind,
+  },
+  {
+    id: "lateral-impulse",
+    label: "Lateral Impulse",
+    description: "A short sideways shove through the CG; checks how straight-line running recovers.",
+    defaults: { impulse: 600, tStart: 1, duration: 0.1 },
+    create: lateralImpulse,
+  },
 ];
 
 export const listScenarioPresets = () => scenarioPresets;
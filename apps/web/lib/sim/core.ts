@@ -1,9 +1,30 @@
 ﻿import type { ZodObject } from "zod";
 
+import type { Rng } from "./random";
+
+/** External load on the body, e.g. wind; positive `Fy` pushes left, positive `Mz` yaws left. */
+export type ExternalDisturbance = {
+  /** Lateral force through the CG [N]. */
+  Fy?: number;
+  /** Yaw moment about the CG [N·m]. */
+  Mz?: number;
+};
+
+/** Brake force requested at individual wheels on top of the axle brakes, e.g. by ESC [N]. */
+export type WheelBrakeForces = Partial<Record<"frontLeft" | "frontRight" | "rearLeft" | "rearRight", number>>;
+
 export type SimInputs = {
   steer: number;
+  /** Handwheel angle [rad]; when set, the steering system derives `steer` from it. */
+  handwheel?: number;
   throttle?: number;
   brake?: number;
+  disturbance?: ExternalDisturbance;
+  wheelBrakeForces?: WheelBrakeForces;
+  /** Rear road-wheel steer [rad], added to any rear-steer actuator command. */
+  rearSteer?: number;
+  /** Direct yaw moment from a chassis controller, e.g. torque vectoring [N·m]; positive yaws left. */
+  yawMoment?: number;
 };
 
 export type Telemetry = {
@@ -11,10 +32,13 @@ export type Telemetry = {
   x?: number;
   y?: number;
   psi?: number;
+  vx?: number;
   vy?: number;
   r?: number;
   ay?: number;
   beta?: number;
+  /** Roll (lean) angle, positive leaning left [rad]. */
+  phi?: number;
   frontSlipAngle?: number;
   rearSlipAngle?: number;
   notes?: Record<string, number>;
@@ -23,19 +47,42 @@ export type Telemetry = {
 export type ModelParams = Record<string, unknown>;
 export type ModelState = Record<string, number>;
 
+export type TrailerGeometry = {
+  length: number;
+  width: number;
+  /** Fifth wheel position ahead of the tractor rear axle [m]. */
+  hitchAheadOfRearAxle: number;
+  hitchToAxle: number;
+};
+
+/** Per-run services handed to `step` by whoever owns the run. */
+export type StepContext = {
+  /** Source for process noise; without a context, noise is off and the step is deterministic. */
+  rng: Rng;
+};
+
 export type ModelDef<P extends ModelParams = ModelParams, S extends ModelState = ModelState> = {
   id: string;
   label: string;
   schema: ZodObject<any, any, any>;
   defaults: P;
   init: (params: P) => S;
-  step: (state: S, inputs: SimInputs, dt: number, params: P) => S;
+  step: (state: S, inputs: SimInputs, dt: number, params: P, context?: StepContext) => S;
+  /**
+   * Time derivatives of the integrated states at `state`; keys left out are algebraic or
+   * diagnostic. Optional: without it, analysis tools fall back to differencing `step`.
+   */
+  derivatives?: (state: S, inputs: SimInputs, params: P) => Partial<Record<keyof S, number>>;
   outputs: (state: S, params: P) => Telemetry;
   geometry?: (params: P) => {
-    type: "vehicle";
+    type: "vehicle" | "motorcycle";
     length: number;
     width: number;
     wheelbase?: number;
+    /** CG height for single-track bodies that lean about the contact line [m]. */
+    cgHeight?: number;
+    /** Towed unit; articulated by the `hitchAngle` state (tractor yaw minus trailer yaw). */
+    trailer?: TrailerGeometry;
   };
   docsSlug: string;
 };
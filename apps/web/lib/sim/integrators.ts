@@ -0,0 +1,293 @@
+import { z } from "zod";
+
+import { solveLinearN } from "@/lib/theory/matrix";
+import type { ModelState } from "./core";
+
+export const INTEGRATORS = ["rk4", "semiImplicitEuler", "heun", "rk45", "trbdf2"] as const;
+
+export type IntegratorId = (typeof INTEGRATORS)[number];
+
+/** Schema field shared by every model that steps through this module. */
+export const integratorField = z
+  .enum(INTEGRATORS)
+  .default("rk4")
+  .describe("Integrator|advanced");
+
+/** RK45 adapts its substep and TR-BDF2 is L-stable, so both follow modes far faster than `dt`. */
+export const handlesStiffness = (method: unknown) => method === "rk45" || method === "trbdf2";
+
+/** Flat state vector, in the order of the keys it was packed with. */
+export type StateVector = number[];
+
+/** Time derivative of a flat state; inputs are held for the whole frame, so `t` is only the substep offset. */
+export type DerivativeFn = (y: StateVector, t: number) => StateVector;
+
+export const packState = (state: ModelState, keys: readonly string[]): StateVector => keys.map((key) => state[key]);
+
+export const unpackState = <S extends ModelState>(state: S, keys: readonly string[], y: StateVector): S => {
+  const next = { ...state } as ModelState;
+  keys.forEach((key, index) => {
+    next[key] = y[index];
+  });
+  return next as S;
+};
+
+export type AdaptiveTolerances = {
+  /** Relative error allowed per step [-]. */
+  rtol: number;
+  /** Absolute error floor per step, in state units. */
+  atol: number;
+};
+
+export type IntegrationResult = {
+  y: StateVector;
+  accepted: number;
+  rejected: number;
+  /** Largest accepted substep [s]; the closing substep is usually cut short to land on `dt`. */
+  stepSize: number;
+  /** Suggested first substep for the next frame [s]. */
+  nextStep: number;
+};
+
+export type IntegrationOptions = Partial<AdaptiveTolerances> & {
+  /** First RK45 substep to try, e.g. the step size of the previous frame [s]. */
+  initialStep?: number;
+};
+
+/** Schema fields for the RK45 tolerances. */
+export const adaptiveToleranceFields = {
+  rtol: z
+    .number()
+    .min(1e-10)
+    .max(1e-2)
+    .default(1e-6)
+    .describe("RK45 relative tolerance [-]|advanced"),
+  atol: z
+    .number()
+    .min(1e-12)
+    .max(1e-2)
+    .default(1e-8)
+    .describe("RK45 absolute tolerance|advanced"),
+};
+
+// Dormand–Prince 5(4) tableau; the fifth-order solution is propagated and the last stage is reused.
+const C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+const B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+const B4 = [5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100, 1 / 40];
+const ERROR_WEIGHTS = B5.map((weight, i) => weight - B4[i]);
+
+const SAFETY = 0.9;
+const MIN_GROWTH = 0.2;
+const MAX_GROWTH = 5;
+const MAX_SUBSTEPS = 100000;
+
+const combine = (y: StateVector, h: number, stages: StateVector[], weights: number[]) =>
+  y.map((value, i) => value + h * weights.reduce((acc, weight, s) => (weight ? acc + weight * stages[s][i] : acc), 0));
+
+/**
+ * Advances `y` by `dt` with Dormand–Prince RK45, shrinking or growing the substep so the local
+ * error estimate stays within `rtol·|y| + atol` in the RMS sense. The frame always ends exactly at `dt`.
+ */
+export const integrateRk45 = (
+  f: DerivativeFn,
+  y0: StateVector,
+  dt: number,
+  tolerances: AdaptiveTolerances,
+  initialStep = dt
+): IntegrationResult => {
+  const minStep = dt * 1e-9;
+  let y = y0;
+  let t = 0;
+  let h = Math.min(Math.max(initialStep, minStep), dt);
+  let accepted = 0;
+  let rejected = 0;
+  let stepSize = 0;
+  let k1 = f(y, 0);
+
+  while (t < dt) {
+    if (accepted + rejected >= MAX_SUBSTEPS) {
+      throw new Error("RK45 exceeded " + MAX_SUBSTEPS + " substeps in one frame");
+    }
+    const remaining = dt - t;
+    const last = h >= remaining;
+    const step = last ? remaining : h;
+
+    const stages: StateVector[] = [k1];
+    for (let s = 1; s < 7; s += 1) {
+      stages.push(f(combine(y, step, stages, A[s]), t + C[s] * step));
+    }
+    const candidate = combine(y, step, stages, B5);
+    // Stage 7 is f at the fifth-order solution, so the error estimate costs no extra evaluation.
+    const errorVector = combine(y.map(() => 0), step, stages, ERROR_WEIGHTS);
+    const errorNorm = Math.sqrt(
+      errorVector.reduce((acc, error, i) => {
+        const scale = tolerances.atol + tolerances.rtol * Math.max(Math.abs(y[i]), Math.abs(candidate[i]));
+        return acc + (error / scale) ** 2;
+      }, 0) / Math.max(errorVector.length, 1)
+    );
+    const growth = errorNorm === 0 ? MAX_GROWTH : Math.min(MAX_GROWTH, Math.max(MIN_GROWTH, SAFETY * errorNorm ** -0.2));
+
+    if (errorNorm <= 1 || step <= minStep) {
+      y = candidate;
+      t = last ? dt : t + step;
+      k1 = stages[6];
+      accepted += 1;
+      stepSize = Math.max(stepSize, step);
+      // A short closing substep says nothing about the step the dynamics allow.
+      if (!last || step >= h) {
+        h = step * growth;
+      }
+    } else {
+      rejected += 1;
+      h = Math.max(step * growth, minStep);
+    }
+  }
+
+  return { y, accepted, rejected, stepSize, nextStep: Math.min(h, dt) };
+};
+
+const DEFAULT_TOLERANCES: AdaptiveTolerances = { rtol: 1e-6, atol: 1e-8 };
+
+const axpy = (y: StateVector, h: number, k: StateVector) => y.map((value, i) => value + h * k[i]);
+
+const fixedStep = (y: StateVector, dt: number): IntegrationResult => ({
+  y,
+  accepted: 1,
+  rejected: 0,
+  stepSize: dt,
+  nextStep: dt,
+});
+
+/**
+ * Symplectic-style Euler: states are advanced in key order, each one seeing the states before it
+ * already at the new time. Order position after velocity (or heading) to get the usual scheme.
+ */
+const semiImplicitEuler = (f: DerivativeFn, y0: StateVector, dt: number): StateVector => {
+  const y = [...y0];
+  for (let i = 0; i < y.length; i += 1) {
+    y[i] += dt * f(y, 0)[i];
+  }
+  return y;
+};
+
+const heun = (f: DerivativeFn, y: StateVector, dt: number): StateVector => {
+  const k1 = f(y, 0);
+  const k2 = f(axpy(y, dt, k1), dt);
+  return y.map((value, i) => value + (dt / 2) * (k1[i] + k2[i]));
+};
+
+const rk4 = (f: DerivativeFn, y: StateVector, dt: number): StateVector => {
+  const k1 = f(y, 0);
+  const k2 = f(axpy(y, dt / 2, k1), dt / 2);
+  const k3 = f(axpy(y, dt / 2, k2), dt / 2);
+  const k4 = f(axpy(y, dt, k3), dt);
+  return y.map((value, i) => value + (dt / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i]));
+};
+
+const NEWTON_ITERATIONS = 12;
+
+/** Finite-difference Jacobian ∂f/∂y at `y`. */
+const jacobianAt = (f: DerivativeFn, y: StateVector, t: number): number[][] => {
+  const base = f(y, t);
+  const columns = y.map((value, j) => {
+    const h = 1e-7 * Math.max(1, Math.abs(value));
+    const shifted = [...y];
+    shifted[j] += h;
+    return f(shifted, t).map((entry, i) => (entry - base[i]) / h);
+  });
+  return y.map((_, i) => columns.map((column) => column[i]));
+};
+
+/** Solves z = c + a·f(z, t) by Newton's method with the Jacobian frozen at `guess`. */
+const solveImplicitStage = (
+  f: DerivativeFn,
+  c: StateVector,
+  a: number,
+  t: number,
+  guess: StateVector,
+  tolerances: AdaptiveTolerances
+): StateVector => {
+  const J = jacobianAt(f, guess, t);
+  const iteration = J.map((row, i) => row.map((value, j) => (i === j ? 1 : 0) - a * value));
+  let z = guess;
+  for (let k = 0; k < NEWTON_ITERATIONS; k += 1) {
+    const fz = f(z, t);
+    const residual = z.map((value, i) => value - c[i] - a * fz[i]);
+    const delta = solveLinearN(iteration, residual);
+    z = z.map((value, i) => value - delta[i]);
+    const converged = delta.every(
+      (change, i) => Math.abs(change) <= 0.01 * (tolerances.atol + tolerances.rtol * Math.abs(z[i]))
+    );
+    if (converged) break;
+  }
+  return z;
+};
+
+const TR_BDF2_GAMMA = 2 - Math.SQRT2;
+
+/**
+ * TR-BDF2: a trapezoidal stage to γ·dt, then BDF2 through both points to dt. L-stable, so fast
+ * modes are damped rather than amplified however large `dt` is relative to them.
+ */
+const trbdf2 = (f: DerivativeFn, y: StateVector, dt: number, tolerances: AdaptiveTolerances): StateVector => {
+  const gamma = TR_BDF2_GAMMA;
+  const f0 = f(y, 0);
+  const trapezoidalRhs = axpy(y, (gamma * dt) / 2, f0);
+  const yGamma = solveImplicitStage(f, trapezoidalRhs, (gamma * dt) / 2, gamma * dt, axpy(y, gamma * dt, f0), tolerances);
+  const denominator = gamma * (2 - gamma);
+  const bdfRhs = y.map((value, i) => yGamma[i] / denominator - (((1 - gamma) * (1 - gamma)) / denominator) * value);
+  return solveImplicitStage(f, bdfRhs, ((1 - gamma) / (2 - gamma)) * dt, dt, yGamma, tolerances);
+};
+
+/** Advances a flat state by one frame `dt` with the chosen method. */
+export const integrate = (
+  method: IntegratorId,
+  f: DerivativeFn,
+  y: StateVector,
+  dt: number,
+  options: IntegrationOptions = {}
+): IntegrationResult => {
+  const tolerances = { ...DEFAULT_TOLERANCES, ...options };
+  switch (method) {
+    case "semiImplicitEuler":
+      return fixedStep(semiImplicitEuler(f, y, dt), dt);
+    case "heun":
+      return fixedStep(heun(f, y, dt), dt);
+    case "rk45":
+      return integrateRk45(f, y, dt, tolerances, options.initialStep ?? dt);
+    case "trbdf2":
+      return fixedStep(trbdf2(f, y, dt, tolerances), dt);
+    case "rk4":
+    default:
+      return fixedStep(rk4(f, y, dt), dt);
+  }
+};
+
+/**
+ * Advances the `keys` of a model state; every other entry is carried over untouched for the
+ * model to refresh afterwards. `derivative` may omit keys whose rate is zero.
+ */
+export const integrateState = <S extends ModelState>(
+  method: IntegratorId,
+  derivative: (state: S, t: number) => Partial<Record<keyof S, number>>,
+  state: S,
+  keys: readonly (keyof S & string)[],
+  dt: number,
+  options: IntegrationOptions = {}
+): { state: S; stats: Omit<IntegrationResult, "y"> } => {
+  const f: DerivativeFn = (y, t) => {
+    const rates = derivative(unpackState(state, keys, y), t);
+    return keys.map((key) => rates[key] ?? 0);
+  };
+  const { y, ...stats } = integrate(method, f, packState(state, keys), dt, options);
+  return { state: unpackState(state, keys, y), stats };
+};
@@ -1,4 +1,7 @@
 import type { ModelParams, ModelState, Telemetry } from "./core";
+import type { SchedulerStats } from "./scheduler";
+import type { EscParams } from "../vehicle/esc";
+import type { SteeringParams } from "../vehicle/steering";
 
 export type SimStartMessage = {
   type: "start";
@@ -6,9 +9,14 @@ export type SimStartMessage = {
   params: ModelParams;
   scenarioId: string;
   dt?: number;
+  /** Process-noise seed; the runner draws a fresh one when it is omitted. */
   seed?: number;
   speedMultiplier?: number;
   scenarioOverrides?: Record<string, unknown>;
+  /** Steering column used by handwheel scenarios; defaults to DEFAULT_STEERING_PARAMS. */
+  steering?: Partial<SteeringParams>;
+  /** Stability controller between the scenario and the model; off unless `enabled` is set. */
+  esc?: Partial<EscParams>;
 };
 
 export type SimWorkerMessage =
@@ -18,13 +26,16 @@ export type SimWorkerMessage =
   | { type: "reset" }
   | { type: "updateParams"; params: ModelParams }
   | { type: "updateScenario"; scenarioId: string; overrides?: Record<string, unknown> }
-  | { type: "setSpeed"; multiplier: number };
+  | { type: "setSpeed"; multiplier: number }
+  | { type: "updateEsc"; esc: Partial<EscParams> };
 
 export type SimTickMessage = {
   type: "tick";
   t: number;
   state: ModelState;
   telemetry: Telemetry;
+  /** Pacing of the loop: real-time factor, dropped frames and steps in the last frame. */
+  timing: SchedulerStats;
 };
 
 export type SimDoneMessage = { type: "done"; reason: string };
@@ -0,0 +1,65 @@
+/** Seeded pseudo-random source owned by one run, so runs never share or patch `Math.random`. */
+export type Rng = {
+  readonly seed: number;
+  /** Uniform on [0, 1). */
+  next: () => number;
+  uniform: (min: number, max: number) => number;
+  /** Normal sample with the given mean and standard deviation. */
+  gaussian: (mean?: number, std?: number) => number;
+};
+
+const MODULUS = 2147483647;
+const MULTIPLIER = 16807;
+
+export const DEFAULT_SEED = 1;
+
+/** Maps any finite number onto the generator's state range [1, 2³¹ − 2]. */
+export const normaliseSeed = (seed: number): number => {
+  if (!Number.isFinite(seed)) return DEFAULT_SEED;
+  let state = Math.floor(Math.abs(seed)) % MODULUS;
+  if (state <= 0) state += MODULUS - 1;
+  return state;
+};
+
+/** Fresh seed for runs that did not ask for one; recorded so the run can be replayed. */
+export const randomSeed = (): number => normaliseSeed(Math.floor(Math.random() * (MODULUS - 1)) + 1);
+
+/** Park–Miller minimal standard generator, with Box–Muller for the Gaussian draws. */
+export const createRng = (seed: number = DEFAULT_SEED): Rng => {
+  const start = normaliseSeed(seed);
+  let state = start;
+  let spare: number | null = null;
+
+  const next = () => {
+    state = (state * MULTIPLIER) % MODULUS;
+    return (state - 1) / (MODULUS - 1);
+  };
+
+  const gaussian = (mean = 0, std = 1) => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return mean + std * value;
+    }
+    // 1 − u keeps the logarithm finite, since `next` can return exactly 0.
+    const radius = Math.sqrt(-2 * Math.log(1 - next()));
+    const angle = 2 * Math.PI * next();
+    spare = radius * Math.sin(angle);
+    return mean + std * radius * Math.cos(angle);
+  };
+
+  return {
+    seed: start,
+    next,
+    uniform: (min, max) => min + (max - min) * next(),
+    gaussian,
+  };
+};
+
+/** Additive Gaussian process noise; without a random source the step stays deterministic. */
+export const addNoise = (value: number, std: number, rng: Rng | null | undefined) => {
+  if (!rng || std <= 0) {
+    return value;
+  }
+  return value + rng.gaussian(0, std);
+};
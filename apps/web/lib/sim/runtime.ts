@@ -0,0 +1,255 @@
+import { createScenario, type ScenarioSampler } from "../scenarios";
+import { vehicleParamsFromModel } from "../scenarios/canonical/common";
+import {
+  DEFAULT_ESC_PARAMS,
+  escNotes,
+  resolveEscInputs,
+  type EscParams,
+  type EscState,
+} from "../vehicle/esc";
+import type { VehicleParams } from "../vehicle/params";
+import {
+  createSteeringState,
+  DEFAULT_STEERING_PARAMS,
+  resolveSteeringInputs,
+  steeringNotes,
+  type SteeringParams,
+  type SteeringState,
+} from "../vehicle/steering";
+import type { ModelDef, ModelParams, ModelState, Telemetry } from "./core";
+import type { SimStartMessage, SimWorkerMessage, SimWorkerResponse } from "./messages";
+import { createRng, DEFAULT_SEED, randomSeed, type Rng } from "./random";
+import { getModel } from "./registry";
+import { FixedStepScheduler } from "./scheduler";
+
+/** Wall-clock period of the loop; each frame runs as many fixed steps as the speed asks for [ms]. */
+const FRAME_MS = 16;
+
+export type SimRuntimeOptions = {
+  /** Transport for ticks, completion and errors: `postMessage` in the worker, a callback on the main thread. */
+  emit: (message: SimWorkerResponse) => void;
+  /** Minimum wall time between non-forced ticks [ms]. */
+  throttleMs?: number;
+  now?: () => number;
+};
+
+/**
+ * The live simulation behind the sandbox: model, scenario, steering column, ESC and noise source,
+ * driven by `SimWorkerMessage`s and answering with `SimWorkerResponse`s. Knows nothing about its
+ * transport, so the worker, the main-thread fallback and Node tests all run the same code.
+ * Physics always advances by `dt`; the speed multiplier only changes how many steps a frame runs.
+ */
+export class SimRuntime {
+  private model?: ModelDef;
+  private params: ModelParams = {};
+  private scenarioSampler?: ScenarioSampler;
+  private dt = 0.01;
+  private readonly scheduler = new FixedStepScheduler({ dt: 0.01 });
+  private state?: ModelState;
+  private steeringParams: SteeringParams = DEFAULT_STEERING_PARAMS;
+  private steering: SteeringState = createSteeringState();
+  /** Steering state of the last step, or null when the scenario drives the road wheels directly. */
+  private lastSteering: SteeringState | null = null;
+  private escParams: EscParams = DEFAULT_ESC_PARAMS;
+  /** Vehicle parameters the ESC reference is built from; follows `params`. */
+  private vehicle: VehicleParams = vehicleParamsFromModel({});
+  /** Controller state of the last step, or null while ESC is off. */
+  private lastEsc: EscState | null = null;
+  /** Seed of the current run; reset replays the same noise from it. */
+  private seed = DEFAULT_SEED;
+  private rng: Rng = createRng(DEFAULT_SEED);
+  private running = false;
+  private t = 0;
+  private timer?: ReturnType<typeof setInterval>;
+  private lastFrame = 0;
+  private lastEmit = 0;
+  private readonly emit: (message: SimWorkerResponse) => void;
+  private readonly throttleMs: number;
+  private readonly now: () => number;
+
+  constructor(options: SimRuntimeOptions) {
+    this.emit = options.emit;
+    this.throttleMs = options.throttleMs ?? 20;
+    this.now = options.now ?? Date.now;
+  }
+
+  get time() {
+    return this.t;
+  }
+
+  get isRunning() {
+    return this.running;
+  }
+
+  handle(message: SimWorkerMessage) {
+    try {
+      switch (message.type) {
+        case "start":
+          this.start(message);
+          break;
+        case "pause":
+          this.stopLoop();
+          this.emit({ type: "done", reason: "paused" });
+          break;
+        case "resume":
+          if (this.model) this.startLoop();
+          break;
+        case "reset":
+          this.restart();
+          break;
+        case "updateParams":
+          this.params = { ...this.params, ...message.params };
+          this.vehicle = vehicleParamsFromModel(this.params);
+          break;
+        case "updateScenario":
+          this.scenarioSampler = createScenario(message.scenarioId, message.overrides);
+          break;
+        case "setSpeed":
+          this.scheduler.setSpeed(Math.max(0.01, message.multiplier));
+          break;
+        case "updateEsc":
+          this.escParams = { ...this.escParams, ...message.esc };
+          if (!this.escParams.enabled) {
+            this.lastEsc = null;
+          }
+          break;
+        default:
+          break;
+      }
+    } catch (error) {
+      this.emitError(error);
+    }
+  }
+
+  /** Advances one fixed step and reports it; tests drive the runtime through this without a clock. */
+  step() {
+    if (this.advance()) {
+      this.emitTick();
+    }
+  }
+
+  dispose() {
+    this.stopLoop();
+  }
+
+  /** One loop frame: the scheduler turns the wall time since the last frame into whole steps. */
+  private frame() {
+    const now = this.now();
+    const substeps = this.scheduler.advance(now - this.lastFrame);
+    this.lastFrame = now;
+    for (let i = 0; i < substeps; i += 1) {
+      if (!this.advance()) return;
+    }
+    if (substeps > 0) {
+      this.emitTick();
+    }
+  }
+
+  private advance(): boolean {
+    if (!this.model || !this.state || !this.scenarioSampler) return false;
+
+    const sampled = this.scenarioSampler({
+      t: this.t,
+      modelId: this.model.id,
+      params: this.params,
+    });
+    // The column needs the front tyre force of the current state for its aligning torque, ESC its yaw rate.
+    const current =
+      typeof sampled.handwheel === "number" || this.escParams.enabled
+        ? this.model.outputs(this.state, this.params)
+        : undefined;
+    const { inputs: steered, steering } = resolveSteeringInputs(
+      sampled,
+      this.steering,
+      current?.notes,
+      this.steeringParams
+    );
+    if (steering) {
+      this.steering = steering;
+    }
+    this.lastSteering = steering;
+    const { inputs, esc } = current
+      ? resolveEscInputs(steered, current, this.vehicle, this.escParams)
+      : { inputs: steered, esc: null };
+    this.lastEsc = esc;
+
+    this.state = this.model.step(this.state, inputs, this.dt, this.params, { rng: this.rng });
+    this.t += this.dt;
+    return true;
+  }
+
+  private start(message: SimStartMessage) {
+    const model = getModel(message.modelId);
+    if (!model) {
+      throw new Error("Model not registered: " + message.modelId);
+    }
+
+    this.model = model;
+    this.params = { ...model.defaults, ...message.params };
+    this.dt = typeof message.dt === "number" ? message.dt : 0.01;
+    this.scheduler.setDt(this.dt);
+    this.scheduler.setSpeed(Math.max(0.01, message.speedMultiplier ?? 1));
+    this.scenarioSampler = createScenario(message.scenarioId, message.scenarioOverrides);
+    this.steeringParams = { ...DEFAULT_STEERING_PARAMS, ...message.steering };
+    this.escParams = { ...DEFAULT_ESC_PARAMS, ...message.esc };
+    this.vehicle = vehicleParamsFromModel(this.params);
+    this.seed = message.seed ?? randomSeed();
+    this.restart();
+    this.startLoop();
+  }
+
+  /** Back to t = 0 with the current model, parameters and seed. */
+  private restart() {
+    if (!this.model) return;
+    this.state = this.model.init(this.params as any);
+    this.steering = createSteeringState();
+    this.lastSteering = null;
+    this.lastEsc = null;
+    this.t = 0;
+    this.rng = createRng(this.seed);
+    this.scheduler.reset();
+    this.emitTick(true);
+  }
+
+  private startLoop() {
+    this.stopLoop();
+    this.running = true;
+    this.lastFrame = this.now();
+    this.timer = setInterval(() => this.frame(), FRAME_MS);
+  }
+
+  private stopLoop() {
+    this.running = false;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private emitTick(force = false) {
+    if (!this.model || !this.state) return;
+    const now = this.now();
+    if (!force && now - this.lastEmit < this.throttleMs) {
+      return;
+    }
+    this.lastEmit = now;
+    try {
+      const rawTelemetry = this.model.outputs(this.state, this.params);
+      const telemetry: Telemetry = { ...rawTelemetry, t: this.t };
+      if (this.lastSteering) {
+        telemetry.notes = { ...telemetry.notes, ...steeringNotes(this.lastSteering) };
+      }
+      if (this.lastEsc) {
+        telemetry.notes = { ...telemetry.notes, ...escNotes(this.lastEsc) };
+      }
+      this.emit({ type: "tick", t: this.t, state: this.state, telemetry, timing: this.scheduler.stats });
+    } catch (error) {
+      this.emitError(error);
+    }
+  }
+
+  private emitError(error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    this.emit({ type: "error", message });
+  }
+}
@@ -0,0 +1,96 @@
+export type SchedulerStats = {
+  /** Simulated seconds per wall-clock second over the last measurement window [-]. */
+  realTimeFactor: number;
+  /** Frames whose backlog was discarded because the sim could not keep up. */
+  droppedFrames: number;
+  /** Steps taken in the latest frame. */
+  substeps: number;
+};
+
+export type SchedulerOptions = {
+  /** Fixed physics step [s]; never scaled by the speed multiplier. */
+  dt: number;
+  speedMultiplier?: number;
+  /** Longest wall time one frame may catch up on; anything beyond is dropped [s]. */
+  maxFrameTime?: number;
+  /** Length of the window the real-time factor is averaged over [s]. */
+  statsWindow?: number;
+};
+
+const DEFAULT_MAX_FRAME_TIME = 0.25;
+const DEFAULT_STATS_WINDOW = 0.5;
+
+/**
+ * Fixed-timestep accumulator: wall time scaled by the speed multiplier fills a bucket of sim
+ * time, and each frame drains it in whole steps of `dt`. Fast-forward therefore means more steps
+ * per frame, never a longer step, so the trajectory is the same at any speed. A frame that would
+ * need more than `maxFrameTime` of catching up drops the backlog and is counted, so a stalled tab
+ * or an overloaded CPU slows the sim down instead of freezing the page.
+ */
+export class FixedStepScheduler {
+  private dt: number;
+  private speedMultiplier: number;
+  private readonly maxFrameTime: number;
+  private readonly statsWindow: number;
+  private accumulator = 0;
+  private windowWall = 0;
+  private windowSim = 0;
+  private current: SchedulerStats = { realTimeFactor: 0, droppedFrames: 0, substeps: 0 };
+
+  constructor(options: SchedulerOptions) {
+    this.dt = options.dt;
+    this.speedMultiplier = options.speedMultiplier ?? 1;
+    this.maxFrameTime = options.maxFrameTime ?? DEFAULT_MAX_FRAME_TIME;
+    this.statsWindow = options.statsWindow ?? DEFAULT_STATS_WINDOW;
+  }
+
+  get stats(): SchedulerStats {
+    return this.current;
+  }
+
+  setSpeed(multiplier: number) {
+    this.speedMultiplier = multiplier;
+  }
+
+  setDt(dt: number) {
+    this.dt = dt;
+    this.accumulator = 0;
+  }
+
+  /** Clears the backlog and the statistics, e.g. on start or reset. */
+  reset() {
+    this.accumulator = 0;
+    this.windowWall = 0;
+    this.windowSim = 0;
+    this.current = { realTimeFactor: 0, droppedFrames: 0, substeps: 0 };
+  }
+
+  /** Number of `dt` steps to run for a frame that took `elapsedMs` of wall time. */
+  advance(elapsedMs: number): number {
+    const wall = Math.max(elapsedMs, 0) / 1000;
+    this.accumulator += wall * this.speedMultiplier;
+    const maxSteps = Math.max(1, Math.ceil((this.maxFrameTime * this.speedMultiplier) / this.dt));
+    // The small tolerance keeps rounding in the accumulator from losing a step now and then.
+    let substeps = Math.floor(this.accumulator / this.dt + 1e-9);
+    let droppedFrames = this.current.droppedFrames;
+    if (substeps > maxSteps) {
+      substeps = maxSteps;
+      this.accumulator = 0;
+      droppedFrames += 1;
+    } else {
+      this.accumulator = Math.max(this.accumulator - substeps * this.dt, 0);
+    }
+
+    this.windowWall += wall;
+    this.windowSim += substeps * this.dt;
+    let realTimeFactor = this.current.realTimeFactor;
+    if (this.windowWall >= this.statsWindow) {
+      realTimeFactor = this.windowSim / this.windowWall;
+      this.windowWall = 0;
+      this.windowSim = 0;
+    }
+
+    this.current = { realTimeFactor, droppedFrames, substeps };
+    return substeps;
+  }
+}
@@ -1,5 +1,11 @@
 import { z } from "zod";
 
+/** Query strings carry flags as "true"/"false"; `z.coerce.boolean` would read "false" as true. */
+const queryBoolean = (fallback: boolean) =>
+  z
+    .preprocess((value) => (typeof value === "string" ? value === "true" || value === "1" : value), z.boolean())
+    .default(fallback);
+
 export const sandboxStateSchema = z.object({
   mass: z.coerce.number().min(400).max(3000).default(1400),
   cgHeight: z.coerce.number().min(0.2).max(1.2).default(0.55),
@@ -12,11 +18,11 @@ export const sandboxStateSchema = z.object({
   manoeuvre: z.enum(["skidpad", "lane-change", "no-steer"]).default("skidpad"),
   skidpadRadius: z.coerce.number().min(10).max(80).default(20),
   duration: z.coerce.number().min(4).max(20).default(12),
-  showTrack: z.coerce.boolean().default(true),
-  alignmentDebug: z.coerce.boolean().default(false),
-  showForceArrows: z.coerce.boolean().default(false),
-  showSkidMarks: z.coerce.boolean().default(false),
-  showZeroSteerBaseline: z.coerce.boolean().default(false),
+  showTrack: queryBoolean(true),
+  alignmentDebug: queryBoolean(false),
+  showForceArrows: queryBoolean(false),
+  showSkidMarks: queryBoolean(false),
+  showZeroSteerBaseline: queryBoolean(false),
   cameraMode: z.enum(["chase", "top", "free"]).default("chase"),
   lateralUnit: z.enum(["g", "mps2"]).default("g"),
   camber: z.coerce.number().min(-5).max(5).default(0),
@@ -26,7 +32,10 @@ export const sandboxStateSchema = z.object({
   wheelRadiusMeters: z.coerce.number().min(0.25).max(0.45).default(0.34),
   rideHeightMeters: z.coerce.number().min(0).max(0.4).default(0.14),
   visualCamberDeg: z.coerce.number().min(-5).max(5).default(0),
-  visualCrownDeg: z.coerce.number().min(-3).max(3).default(0)
+  visualCrownDeg: z.coerce.number().min(-3).max(3).default(0),
+  muLayout: z.enum(["uniform", "splitMu", "wetPatch"]).default("uniform"),
+  muLow: z.coerce.number().min(0.1).max(1.5).default(0.3),
+  tyreThermal: queryBoolean(false)
 });
 
 export type SandboxState = z.infer<typeof sandboxStateSchema>;
@@ -1,11 +1,27 @@
 import { create } from "zustand";
 import type { ModelParams, ModelState, Telemetry } from "../sim/core";
+import { DEFAULT_SEED, normaliseSeed } from "../sim/random";
+import type { SchedulerStats } from "../sim/scheduler";
 import { simStateBus } from "../sim/stateBus";
 
 const TELEMETRY_LIMIT = 20000;
 
 export type BaselineStatus = "idle" | "running" | "pass" | "fail";
 
+type OverlaySeries = {
+  label: string;
+  data: { t: number; value: number }[];
+  /** Second theory line to compare against, e.g. the same car without its chassis actuators. */
+  reference?: { label: string; data: { t: number; value: number }[] };
+};
+
+type PlotOverlay = {
+  label: string;
+  yawRate?: OverlaySeries;
+  ay?: OverlaySeries;
+  beta?: OverlaySeries;
+};
+
 type TelemetryBuffer = {
   samples: Telemetry[];
 };
@@ -17,18 +33,19 @@ type SimStoreState = {
   running: boolean;
   speedMultiplier: number;
   lateralUnit: "g" | "mps2";
+  /** Stability controller in the loop for live runs and the ramp-to-limit reference test. */
+  escEnabled: boolean;
+  /** Process-noise seed for live runs; kept in share links and presets so runs replay exactly. */
+  seed: number;
   telemetry: TelemetryBuffer;
   lastTelemetry: Telemetry | null;
   lastState: ModelState | null;
+  /** Pacing reported with the last live tick. */
+  timing: SchedulerStats | null;
   error: string | null;
   baselineStatus: BaselineStatus;
   baselineMetrics: Record<string, number> | null;
-  overlays: {
-    label: string;
-    yawRate?: { label: string; data: { t: number; value: number }[] };
-    ay?: { label: string; data: { t: number; value: number }[] };
-    beta?: { label: string; data: { t: number; value: number }[] };
-  } | null;
+  overlays: PlotOverlay | null;
   actions: {
     setModel: (modelId: string, params: ModelParams) => void;
     setParams: (params: ModelParams) => void;
@@ -37,20 +54,15 @@ type SimStoreState = {
     setRunning: (running: boolean) => void;
     setSpeedMultiplier: (multiplier: number) => void;
     setLateralUnit: (unit: "g" | "mps2") => void;
-    recordTick: (state: ModelState, telemetry: Telemetry) => void;
+    setEscEnabled: (enabled: boolean) => void;
+    setSeed: (seed: number) => void;
+    recordTick: (state: ModelState, telemetry: Telemetry, timing?: SchedulerStats) => void;
     addTelemetry: (samples: Telemetry | Telemetry[]) => void;
     clearTelemetry: () => void;
     setBaselineStatus: (status: BaselineStatus) => void;
     setBaselineMetrics: (metrics: Record<string, number> | null) => void;
     setError: (message: string | null) => void;
-    setOverlay: (
-      overlay: {
-        label: string;
-        yawRate?: { label: string; data: { t: number; value: number }[] };
-        ay?: { label: string; data: { t: number; value: number }[] };
-        beta?: { label: string; data: { t: number; value: number }[] };
-      } | null
-    ) => void;
+    setOverlay: (overlay: PlotOverlay | null) => void;
   };
 };
 
@@ -70,9 +82,12 @@ export const useSimStore = create<SimStoreState>((set) => ({
   running: false,
   speedMultiplier: 1,
   lateralUnit: "g",
+  escEnabled: false,
+  seed: DEFAULT_SEED,
   telemetry: makeBuffer(),
   lastTelemetry: null,
   lastState: null,
+  timing: null,
   error: null,
   baselineStatus: "idle",
   baselineMetrics: null,
@@ -104,7 +119,9 @@ export const useSimStore = create<SimStoreState>((set) => ({
     setSpeedMultiplier: (multiplier) =>
       set(() => ({ speedMultiplier: Math.max(0.1, multiplier) })),
     setLateralUnit: (unit) => set(() => ({ lateralUnit: unit })),
-    recordTick: (stateValue, telemetry) =>
+    setEscEnabled: (enabled) => set(() => ({ escEnabled: enabled })),
+    setSeed: (seed) => set(() => ({ seed: normaliseSeed(seed) })),
+    recordTick: (stateValue, telemetry, timing) =>
       set((current) => {
         simStateBus.publish({
           telemetry,
@@ -117,6 +134,7 @@ export const useSimStore = create<SimStoreState>((set) => ({
         return {
           lastState: stateValue,
           lastTelemetry: telemetry,
+          timing: timing ?? current.timing,
           telemetry: { samples: merged },
         };
       }),
@@ -132,7 +150,7 @@ export const useSimStore = create<SimStoreState>((set) => ({
         };
       }),
     clearTelemetry: () =>
-      set(() => ({ telemetry: makeBuffer(), lastTelemetry: null, lastState: null })),
+      set(() => ({ telemetry: makeBuffer(), lastTelemetry: null, lastState: null, timing: null })),
     setBaselineStatus: (status) => set(() => ({ baselineStatus: status })),
     setBaselineMetrics: (metrics) => set(() => ({ baselineMetrics: metrics })),
     setError: (message) => set(() => ({ error: message })),
@@ -1,15 +1,7 @@
 import type { VehicleParams } from "@/lib/vehicle/params";
-import { buildStateSpace } from "./utils";
-import {
-  add,
-  complex,
-  div,
-  magnitude,
-  mul,
-  phase as complexPhase,
-  scale,
-  sub,
-} from "./complex";
+import { buildLinearSystem, LINEAR_OUTPUTS, type LinearSystem, type LinearTheoryOptions } from "./utils";
+import { frequencyResponseN } from "./matrix";
+import { magnitude, phase as complexPhase } from "./complex";
 
 export type FrequencyPrediction = {
   freqs: number[];
@@ -22,9 +14,15 @@ export type FrequencyPrediction = {
 export function predictBode(
   speed: number,
   freqs: number[],
-  vehicle: VehicleParams
+  vehicle: VehicleParams,
+  options: LinearTheoryOptions = {}
 ): FrequencyPrediction {
-  const { A, B, coeffs } = buildStateSpace(vehicle, speed);
+  return predictBodeFromSystem(buildLinearSystem(vehicle, speed, options), freqs);
+}
+
+/** Bode prediction for any steer-input system with yaw rate and lateral acceleration outputs. */
+export function predictBodeFromSystem(system: LinearSystem, freqs: number[]): FrequencyPrediction {
+  const { A, B, C, D } = system;
 
   const yawRateMag: number[] = [];
   const yawRatePhase: number[] = [];
@@ -32,29 +30,9 @@ export function predictBode(
   const ayPhase: number[] = [];
 
   for (const f of freqs) {
-    const omega = 2 * Math.PI * f;
-    const jw = complex(0, omega);
-    const p = sub(jw, complex(A[0][0], 0));
-    const q = complex(-A[0][1], 0);
-    const r = complex(-A[1][0], 0);
-    const s = sub(jw, complex(A[1][1], 0));
-
-    const det = sub(mul(p, s), mul(q, r));
-    const inv00 = div(s, det);
-    const inv01 = div(scale(q, -1), det);
-    const inv10 = div(scale(r, -1), det);
-    const inv11 = div(p, det);
-
-    const b0 = complex(B[0], 0);
-    const b1 = complex(B[1], 0);
-
-    const state0 = add(mul(inv00, b0), mul(inv01, b1));
-    const state1 = add(mul(inv10, b0), mul(inv11, b1));
-
-    const yawTransfer = state1;
-
-    const vyDot = mul(jw, state0);
-    const ayTransfer = add(mul(complex(speed, 0), yawTransfer), vyDot);
+    const response = frequencyResponseN(A, B, C, D, 2 * Math.PI * f);
+    const yawTransfer = response[LINEAR_OUTPUTS.yawRate];
+    const ayTransfer = response[LINEAR_OUTPUTS.ay];
 
     yawRateMag.push(magnitude(yawTransfer));
     yawRatePhase.push(complexPhase(yawTransfer));
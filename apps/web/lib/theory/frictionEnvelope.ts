@@ -1,24 +1,38 @@
 import { computeUndersteerGradient } from "@/lib/vehicle/understeer";
-import type { VehicleParams } from "@/lib/vehicle/params";
+import { computeStaticLoads, type VehicleParams } from "@/lib/vehicle/params";
 
 export type FrictionLimitPrediction = {
   ayMax: number;
   steerAtLimit: number;
+  /** Axle that reaches mu·Fz first; "both" when they saturate together. */
+  limitingAxle: "front" | "rear" | "both";
 };
 
+/**
+ * Steady-state lateral limit at `speed`. Each axle carries its mass share of m·ay and can give
+ * mu·Fz, where Fz includes aero downforce; the axle that runs out first sets ayMax. Without
+ * downforce both axles saturate together at mu·g.
+ */
 export function predictLimit(
   speed: number,
   mu: number,
   params: VehicleParams
 ): FrictionLimitPrediction {
-  const ayMax = mu * params.g;
-  const understeer = computeUndersteerGradient(params);
+  const loads = computeStaticLoads(params, speed);
+  const frontLimit = (mu * loads.front * params.L) / (params.m * params.b);
+  const rearLimit = (mu * loads.rear * params.L) / (params.m * params.a);
+  const ayMax = Math.min(frontLimit, rearLimit);
+  const tolerance = 1e-9 * Math.max(frontLimit, rearLimit);
+  const limitingAxle =
+    Math.abs(frontLimit - rearLimit) <= tolerance ? "both" : frontLimit < rearLimit ? "front" : "rear";
+  const understeer = computeUndersteerGradient(params, speed);
   const denom = speed * speed;
   const steerAtLimit = denom > 0
-    ? (params.L + (understeer * denom) / params.g) * (mu * params.g / denom)
+    ? (params.L + understeer * denom) * (ayMax / denom)
     : 0;
   return {
     ayMax,
     steerAtLimit,
+    limitingAxle,
   };
 }
@@ -1,5 +1,8 @@
+export * from "./matrix";
 export * from "./utils";
 export * from "./skidpad";
 export * from "./stepSteer";
 export * from "./frequency";
 export * from "./frictionEnvelope";
+export * from "./linearise";
+export * from "./stability";
@@ -0,0 +1,258 @@
+import type { ModelDef, ModelParams, ModelState, SimInputs, Telemetry } from "@/lib/sim/core";
+import { getModel } from "@/lib/sim/registry";
+import {
+  addMatricesN,
+  identityN,
+  invertN,
+  matrixLogN,
+  multiplyMatricesN,
+  scaleMatrixN,
+  solveMatrixN,
+  subtractMatricesN,
+  zerosN,
+  type MatrixN,
+} from "./matrix";
+import type { LinearSystem } from "./utils";
+
+/** Scalar entries of `SimInputs` that can be perturbed. */
+export type LinearInputKey = {
+  [K in keyof SimInputs]-?: NonNullable<SimInputs[K]> extends number ? K : never;
+}[keyof SimInputs];
+
+export type LinearisationMethod = "derivatives" | "step";
+
+export type LinearisationOptions = {
+  /** Overrides on the model defaults; process noise is always switched off. */
+  params?: ModelParams;
+  /** Trim state, applied on top of `init(params)`. */
+  state?: Partial<ModelState>;
+  /** Trim inputs; defaults to straight-ahead with no steer. */
+  inputs?: SimInputs;
+  inputKeys?: LinearInputKey[];
+  /** Telemetry channels, read from the top level first and then from `notes`. */
+  outputKeys?: string[];
+  /** States to keep; by default the integrated states, less position and heading. */
+  stateKeys?: string[];
+  /** `auto` uses the model's `derivatives` hook when it has one and differences `step` otherwise. */
+  method?: "auto" | LinearisationMethod;
+};
+
+export type LinearisedModel = {
+  modelId: string;
+  method: LinearisationMethod;
+  stateKeys: string[];
+  inputKeys: LinearInputKey[];
+  outputKeys: string[];
+  /** ẋ = A·x + B·u, y = C·x + D·u in deviations from the trim point. */
+  A: MatrixN;
+  B: MatrixN;
+  C: MatrixN;
+  D: MatrixN;
+  trim: { state: ModelState; inputs: SimInputs; params: ModelParams };
+};
+
+/** Position and heading only shift the car; they never feed back into the handling modes. */
+const POSE_KEYS = ["x", "y", "psi"];
+const DEFAULT_OUTPUT_KEYS = ["r", "ay", "vy"];
+const PSI_SERIES_TERMS = 20;
+/** A state carries over a step with a diagonal near 1; algebraic channels are recomputed and flags jump. */
+const DYNAMIC_DIAGONAL_BAND = 0.5;
+const FROZEN_TOLERANCE = 1e-9;
+
+const perturbation = (value: number) => 1e-6 * Math.max(1, Math.abs(value));
+
+const readOutput = (telemetry: Telemetry, key: string): number => {
+  const direct = (telemetry as Record<string, unknown>)[key];
+  if (typeof direct === "number") return direct;
+  const note = telemetry.notes?.[key];
+  if (typeof note === "number") return note;
+  throw new Error(`Output "${key}" is not reported by the model`);
+};
+
+/** Central-difference Jacobian with one column per perturbed state or input. */
+const jacobian = (
+  rows: number,
+  columns: { at: number; apply: (delta: number) => number[] }[]
+): MatrixN => {
+  const J = zerosN(rows, columns.length);
+  columns.forEach((column, j) => {
+    const h = perturbation(column.at);
+    const plus = column.apply(h);
+    const minus = column.apply(-h);
+    for (let i = 0; i < rows; i += 1) {
+      J[i][j] = (plus[i] - minus[i]) / (2 * h);
+    }
+  });
+  return J;
+};
+
+/** ψ(X) = Σ Xᵏ/(k+1)!, so the zero-order-hold input matrix is Γ = dt·ψ(A·dt)·B. */
+const psiSeries = (X: MatrixN): MatrixN => {
+  const n = X.length;
+  let term = identityN(n);
+  let sum = identityN(n);
+  for (let k = 1; k <= PSI_SERIES_TERMS; k += 1) {
+    term = scaleMatrixN(multiplyMatricesN(term, X), 1 / (k + 1));
+    sum = addMatricesN(sum, term);
+  }
+  return sum;
+};
+
+const isFrozen = (phi: MatrixN, k: number) =>
+  Math.abs(phi[k][k] - 1) < FROZEN_TOLERANCE &&
+  phi.every((row, i) => i === k || (Math.abs(row[k]) < FROZEN_TOLERANCE && Math.abs(phi[k][i]) < FROZEN_TOLERANCE));
+
+const resolveModel = (model: ModelDef<any, any> | string): ModelDef<any, any> => {
+  if (typeof model !== "string") return model;
+  const found = getModel(model);
+  if (!found) {
+    throw new Error("Model not registered: " + model);
+  }
+  return found;
+};
+
+/**
+ * Linearises any registered model about a trim point by central differences. With a
+ * `derivatives` hook A and B come straight from the state derivatives; otherwise one `step`
+ * is differenced into (Φ, Γ) and converted back to continuous time with a matrix logarithm.
+ * Outputs are always read through `step` + `outputs`, so algebraic channels such as lateral
+ * acceleration come out exactly as the simulation reports them.
+ */
+export const lineariseModel = (
+  modelOrId: ModelDef<any, any> | string,
+  options: LinearisationOptions = {}
+): LinearisedModel => {
+  const model = resolveModel(modelOrId);
+  const params: ModelParams = { ...model.defaults, ...(options.params ?? {}) };
+  if (params.processNoise) {
+    params.processNoise = false;
+  }
+  const dt = typeof params.dt === "number" ? params.dt : 0.01;
+  const trimState: ModelState = { ...model.init(params), ...(options.state ?? {}) } as ModelState;
+  const trimInputs: SimInputs = { steer: 0, ...(options.inputs ?? {}) };
+  const inputKeys = options.inputKeys ?? ["steer"];
+  const outputKeys = options.outputKeys ?? DEFAULT_OUTPUT_KEYS;
+  const method: LinearisationMethod =
+    options.method === "derivatives" || options.method === "step"
+      ? options.method
+      : model.derivatives
+        ? "derivatives"
+        : "step";
+  if (method === "derivatives" && !model.derivatives) {
+    throw new Error(`Model ${model.id} has no derivatives hook`);
+  }
+
+  const withState = (key: string, delta: number): ModelState => ({ ...trimState, [key]: trimState[key] + delta });
+  const withInput = (key: LinearInputKey, delta: number): SimInputs => ({
+    ...trimInputs,
+    [key]: (trimInputs[key] ?? 0) + delta,
+  });
+  const stepped = (state: ModelState, inputs: SimInputs) => model.step(state, inputs, dt, params) as ModelState;
+  const inputAt = (key: LinearInputKey) => trimInputs[key] ?? 0;
+
+  /** Discrete (Φ, Γ) of one step over `keys`, plus the output sensitivities after that step. */
+  const discretise = (keys: string[]) => {
+    const next = (state: ModelState, inputs: SimInputs) => {
+      const after = stepped(state, inputs);
+      const telemetry = model.outputs(after, params);
+      return [...keys.map((key) => after[key]), ...outputKeys.map((key) => readOutput(telemetry, key))];
+    };
+    const rows = keys.length + outputKeys.length;
+    const overStates = jacobian(
+      rows,
+      keys.map((key) => ({ at: trimState[key], apply: (delta) => next(withState(key, delta), trimInputs) }))
+    );
+    const overInputs = jacobian(
+      rows,
+      inputKeys.map((key) => ({ at: inputAt(key), apply: (delta) => next(trimState, withInput(key, delta)) }))
+    );
+    const n = keys.length;
+    return {
+      phi: overStates.slice(0, n),
+      gamma: overInputs.slice(0, n),
+      outputsOverStates: overStates.slice(n),
+      outputsOverInputs: overInputs.slice(n),
+    };
+  };
+
+  const candidates = (keys: string[]) => keys.filter((key) => !POSE_KEYS.includes(key));
+
+  let stateKeys: string[];
+  let A: MatrixN;
+  let B: MatrixN;
+  let discrete: ReturnType<typeof discretise>;
+
+  if (method === "derivatives") {
+    const rates = (state: ModelState, inputs: SimInputs) =>
+      model.derivatives!(state, inputs, params) as Record<string, number>;
+    stateKeys = options.stateKeys ?? candidates(Object.keys(rates(trimState, trimInputs)));
+    if (!stateKeys.length) {
+      throw new Error(`Model ${model.id} has no dynamic states to linearise`);
+    }
+    const evaluate = (state: ModelState, inputs: SimInputs) => {
+      const values = rates(state, inputs);
+      return stateKeys.map((key) => values[key] ?? 0);
+    };
+    A = jacobian(
+      stateKeys.length,
+      stateKeys.map((key) => ({ at: trimState[key], apply: (delta) => evaluate(withState(key, delta), trimInputs) }))
+    );
+    B = jacobian(
+      stateKeys.length,
+      inputKeys.map((key) => ({ at: inputAt(key), apply: (delta) => evaluate(trimState, withInput(key, delta)) }))
+    );
+    discrete = discretise(stateKeys);
+  } else {
+    if (options.stateKeys) {
+      stateKeys = options.stateKeys;
+      discrete = discretise(stateKeys);
+    } else {
+      const all = candidates(Object.keys(trimState));
+      const { phi } = discretise(all);
+      const dynamic = new Set(
+        all.filter((_, k) => Math.abs(phi[k][k] - 1) < DYNAMIC_DIAGONAL_BAND && !isFrozen(phi, k))
+      );
+      stateKeys = all.filter((key) => dynamic.has(key));
+      discrete = discretise(stateKeys);
+    }
+    if (!stateKeys.length) {
+      throw new Error(`Model ${model.id} has no dynamic states to linearise`);
+    }
+    A = scaleMatrixN(matrixLogN(discrete.phi), 1 / dt);
+    B = scaleMatrixN(solveMatrixN(psiSeries(scaleMatrixN(A, dt)), discrete.gamma), 1 / dt);
+  }
+
+  // The outputs are read one step on: y = C·(Φ·x + Γ·u) + D·u.
+  const C = multiplyMatricesN(discrete.outputsOverStates, invertN(discrete.phi));
+  const D = subtractMatricesN(discrete.outputsOverInputs, multiplyMatricesN(C, discrete.gamma));
+
+  return {
+    modelId: model.id,
+    method,
+    stateKeys,
+    inputKeys,
+    outputKeys,
+    A,
+    B,
+    C,
+    D,
+    trim: { state: trimState, inputs: trimInputs, params },
+  };
+};
+
+/** The single-input slice of a linearisation, in the shape the Bode and step-steer theory take. */
+export const linearSystemForInput = (
+  linearised: LinearisedModel,
+  input: LinearInputKey = "steer"
+): LinearSystem => {
+  const column = linearised.inputKeys.indexOf(input);
+  if (column < 0) {
+    throw new Error(`Input "${input}" was not linearised`);
+  }
+  return {
+    A: linearised.A,
+    B: linearised.B.map((row) => row[column]),
+    C: linearised.C,
+    D: linearised.D.map((row) => row[column]),
+  };
+};
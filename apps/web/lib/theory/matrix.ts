@@ -0,0 +1,392 @@
+import { complex, type Complex } from "./complex";
+
+export type MatrixN = number[][];
+
+export type VectorN = number[];
+
+export type LUDecomposition = {
+  /** Unit-lower L below the diagonal and U on and above it, rows in pivot order. */
+  lu: MatrixN;
+  /** Original row index of each pivoted row. */
+  pivots: number[];
+};
+
+const SINGULAR_TOLERANCE = 1e-12;
+
+export const identityN = (n: number): MatrixN =>
+  Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+export const zerosN = (rows: number, cols: number = rows): MatrixN =>
+  Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+
+export const cloneMatrixN = (m: MatrixN): MatrixN => m.map((row) => [...row]);
+
+export const addMatricesN = (a: MatrixN, b: MatrixN): MatrixN =>
+  a.map((row, i) => row.map((value, j) => value + b[i][j]));
+
+export const subtractMatricesN = (a: MatrixN, b: MatrixN): MatrixN =>
+  a.map((row, i) => row.map((value, j) => value - b[i][j]));
+
+export const scaleMatrixN = (m: MatrixN, scalar: number): MatrixN => m.map((row) => row.map((value) => value * scalar));
+
+export const multiplyMatricesN = (a: MatrixN, b: MatrixN): MatrixN =>
+  a.map((row) => b[0].map((_, j) => row.reduce((acc, value, k) => acc + value * b[k][j], 0)));
+
+export const multiplyMatrixVectorN = (m: MatrixN, v: VectorN): VectorN =>
+  m.map((row) => row.reduce((acc, value, k) => acc + value * v[k], 0));
+
+export const dotN = (a: VectorN, b: VectorN): number => a.reduce((acc, value, i) => acc + value * b[i], 0);
+
+/** Infinity norm: the largest absolute row sum. */
+export const normInfN = (m: MatrixN): number =>
+  m.reduce((max, row) => Math.max(max, row.reduce((acc, value) => acc + Math.abs(value), 0)), 0);
+
+/** Doolittle LU decomposition with partial pivoting; throws on a singular matrix. */
+export const luDecompose = (m: MatrixN): LUDecomposition => {
+  const n = m.length;
+  const lu = cloneMatrixN(m);
+  const pivots = Array.from({ length: n }, (_, i) => i);
+  for (let col = 0; col < n; col += 1) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row += 1) {
+      if (Math.abs(lu[row][col]) > Math.abs(lu[pivot][col])) pivot = row;
+    }
+    if (Math.abs(lu[pivot][col]) < SINGULAR_TOLERANCE) {
+      throw new Error("Matrix is singular and cannot be inverted");
+    }
+    if (pivot !== col) {
+      [lu[col], lu[pivot]] = [lu[pivot], lu[col]];
+      [pivots[col], pivots[pivot]] = [pivots[pivot], pivots[col]];
+    }
+    for (let row = col + 1; row < n; row += 1) {
+      const factor = lu[row][col] / lu[col][col];
+      lu[row][col] = factor;
+      for (let k = col + 1; k < n; k += 1) lu[row][k] -= factor * lu[col][k];
+    }
+  }
+  return { lu, pivots };
+};
+
+export const luSolve = ({ lu, pivots }: LUDecomposition, v: VectorN): VectorN => {
+  const n = lu.length;
+  const x = pivots.map((index) => v[index]);
+  for (let row = 1; row < n; row += 1) {
+    for (let k = 0; k < row; k += 1) x[row] -= lu[row][k] * x[k];
+  }
+  for (let row = n - 1; row >= 0; row -= 1) {
+    for (let k = row + 1; k < n; k += 1) x[row] -= lu[row][k] * x[k];
+    x[row] /= lu[row][row];
+  }
+  return x;
+};
+
+/** Solves m·x = v. */
+export const solveLinearN = (m: MatrixN, v: VectorN): VectorN => luSolve(luDecompose(m), v);
+
+/** Solves m·X = b column by column. */
+export const solveMatrixN = (m: MatrixN, b: MatrixN): MatrixN => {
+  const decomposition = luDecompose(m);
+  const columns = b[0].map((_, j) => luSolve(decomposition, b.map((row) => row[j])));
+  return b.map((_, i) => columns.map((column) => column[i]));
+};
+
+export const invertN = (m: MatrixN): MatrixN => solveMatrixN(m, identityN(m.length));
+
+const PADE_ORDER = 6;
+
+/**
+ * e^(A·t) by scaling and squaring with a diagonal [6/6] Padé approximant: the scaled matrix has
+ * a norm of at most ½, where the approximant is accurate to double precision.
+ */
+export const matrixExponentialN = (A: MatrixN, t: number): MatrixN => {
+  const n = A.length;
+  const At = scaleMatrixN(A, t);
+  const norm = normInfN(At);
+  const squarings = norm > 0.5 ? Math.ceil(Math.log2(norm / 0.5)) : 0;
+  const X = scaleMatrixN(At, 1 / 2 ** squarings);
+
+  let coefficient = 1;
+  let power = identityN(n);
+  let numerator = identityN(n);
+  let denominator = identityN(n);
+  for (let k = 1; k <= PADE_ORDER; k += 1) {
+    coefficient *= (PADE_ORDER - k + 1) / (k * (2 * PADE_ORDER - k + 1));
+    power = multiplyMatricesN(power, X);
+    const term = scaleMatrixN(power, coefficient);
+    numerator = addMatricesN(numerator, term);
+    denominator = k % 2 === 0 ? addMatricesN(denominator, term) : subtractMatricesN(denominator, term);
+  }
+
+  let result = solveMatrixN(denominator, numerator);
+  for (let i = 0; i < squarings; i += 1) {
+    result = multiplyMatricesN(result, result);
+  }
+  return result;
+};
+
+const LOG_SERIES_TERMS = 30;
+const MAX_SQUARE_ROOTS = 40;
+
+/**
+ * Principal logarithm by inverse scaling and squaring: Denman–Beavers square roots bring the
+ * matrix within ¼ of the identity, where the Mercator series log(I + X) converges quickly.
+ */
+export const matrixLogN = (m: MatrixN): MatrixN => {
+  const n = m.length;
+  const I = identityN(n);
+  let current = cloneMatrixN(m);
+  let roots = 0;
+  while (normInfN(subtractMatricesN(current, I)) > 0.25) {
+    if (roots === MAX_SQUARE_ROOTS) {
+      throw new Error("Matrix logarithm did not converge");
+    }
+    let y = current;
+    let z = I;
+    for (let k = 0; k < 50; k += 1) {
+      const nextY = scaleMatrixN(addMatricesN(y, invertN(z)), 0.5);
+      z = scaleMatrixN(addMatricesN(z, invertN(y)), 0.5);
+      const change = normInfN(subtractMatricesN(nextY, y));
+      y = nextY;
+      if (change <= 1e-14 * Math.max(normInfN(y), 1)) break;
+    }
+    current = y;
+    roots += 1;
+  }
+
+  const X = subtractMatricesN(current, I);
+  let power = I;
+  let result = zerosN(n);
+  for (let k = 1; k <= LOG_SERIES_TERMS; k += 1) {
+    power = multiplyMatricesN(power, X);
+    result = addMatricesN(result, scaleMatrixN(power, (k % 2 === 1 ? 1 : -1) / k));
+  }
+  return scaleMatrixN(result, 2 ** roots);
+};
+
+/** Reduction to upper Hessenberg form by stabilised elementary similarity transforms. */
+const hessenberg = (m: MatrixN): MatrixN => {
+  const n = m.length;
+  const a = cloneMatrixN(m);
+  for (let col = 1; col < n - 1; col += 1) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row += 1) {
+      if (Math.abs(a[row][col - 1]) > Math.abs(a[pivot][col - 1])) pivot = row;
+    }
+    const x = a[pivot][col - 1];
+    if (pivot !== col) {
+      [a[pivot], a[col]] = [a[col], a[pivot]];
+      for (const row of a) [row[pivot], row[col]] = [row[col], row[pivot]];
+    }
+    if (x === 0) continue;
+    for (let row = col + 1; row < n; row += 1) {
+      const y = a[row][col - 1] / x;
+      if (y === 0) continue;
+      for (let k = col - 1; k < n; k += 1) a[row][k] -= y * a[col][k];
+      for (let k = 0; k < n; k += 1) a[k][col] += y * a[k][row];
+    }
+  }
+  for (let row = 2; row < n; row += 1) {
+    for (let k = 0; k < row - 1; k += 1) a[row][k] = 0;
+  }
+  return a;
+};
+
+const MAX_QR_ITERATIONS = 30;
+
+/**
+ * Eigenvalues of a real square matrix by the Francis double-shift QR algorithm on its Hessenberg
+ * form, in the order they deflate. Complex eigenvalues come out as conjugate pairs.
+ */
+export const eigenvaluesN = (m: MatrixN): Complex[] => {
+  const n = m.length;
+  // The iteration is written 1-based, as the classic formulation is, to keep the index bookkeeping legible.
+  const a = zerosN(n + 1);
+  hessenberg(m).forEach((row, i) => row.forEach((value, j) => (a[i + 1][j + 1] = value)));
+  const wr = new Array<number>(n + 1).fill(0);
+  const wi = new Array<number>(n + 1).fill(0);
+
+  let anorm = 0;
+  for (let i = 1; i <= n; i += 1) {
+    for (let j = Math.max(i - 1, 1); j <= n; j += 1) anorm += Math.abs(a[i][j]);
+  }
+
+  let nn = n;
+  let t = 0;
+  let p = 0;
+  let q = 0;
+  let r = 0;
+  let s = 0;
+  let w = 0;
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  while (nn >= 1) {
+    let its = 0;
+    let l: number;
+    do {
+      for (l = nn; l >= 2; l -= 1) {
+        s = Math.abs(a[l - 1][l - 1]) + Math.abs(a[l][l]);
+        if (s === 0) s = anorm;
+        if (Math.abs(a[l][l - 1]) + s === s) {
+          a[l][l - 1] = 0;
+          break;
+        }
+      }
+      x = a[nn][nn];
+      if (l === nn) {
+        wr[nn] = x + t;
+        wi[nn] = 0;
+        nn -= 1;
+      } else {
+        y = a[nn - 1][nn - 1];
+        w = a[nn][nn - 1] * a[nn - 1][nn];
+        if (l === nn - 1) {
+          p = 0.5 * (y - x);
+          q = p * p + w;
+          z = Math.sqrt(Math.abs(q));
+          x += t;
+          if (q >= 0) {
+            z = p + (p >= 0 ? Math.abs(z) : -Math.abs(z));
+            wr[nn - 1] = wr[nn] = x + z;
+            if (z !== 0) wr[nn] = x - w / z;
+            wi[nn - 1] = wi[nn] = 0;
+          } else {
+            wr[nn - 1] = wr[nn] = x + p;
+            wi[nn] = z;
+            wi[nn - 1] = -z;
+          }
+          nn -= 2;
+        } else {
+          if (its === MAX_QR_ITERATIONS) {
+            throw new Error("Eigenvalue iteration did not converge");
+          }
+          if (its === 10 || its === 20) {
+            // Exceptional shift to break a cycle.
+            t += x;
+            for (let i = 1; i <= nn; i += 1) a[i][i] -= x;
+            s = Math.abs(a[nn][nn - 1]) + Math.abs(a[nn - 1][nn - 2]);
+            y = x = 0.75 * s;
+            w = -0.4375 * s * s;
+          }
+          its += 1;
+          let mm: number;
+          for (mm = nn - 2; mm >= l; mm -= 1) {
+            z = a[mm][mm];
+            r = x - z;
+            s = y - z;
+            p = (r * s - w) / a[mm + 1][mm] + a[mm][mm + 1];
+            q = a[mm + 1][mm + 1] - z - r - s;
+            r = a[mm + 2][mm + 1];
+            s = Math.abs(p) + Math.abs(q) + Math.abs(r);
+            p /= s;
+            q /= s;
+            r /= s;
+            if (mm === l) break;
+            const u = Math.abs(a[mm][mm - 1]) * (Math.abs(q) + Math.abs(r));
+            const v = Math.abs(p) * (Math.abs(a[mm - 1][mm - 1]) + Math.abs(z) + Math.abs(a[mm + 1][mm + 1]));
+            if (u + v === v) break;
+          }
+          for (let i = mm + 2; i <= nn; i += 1) {
+            a[i][i - 2] = 0;
+            if (i !== mm + 2) a[i][i - 3] = 0;
+          }
+          for (let k = mm; k <= nn - 1; k += 1) {
+            if (k !== mm) {
+              p = a[k][k - 1];
+              q = a[k + 1][k - 1];
+              r = k !== nn - 1 ? a[k + 2][k - 1] : 0;
+              x = Math.abs(p) + Math.abs(q) + Math.abs(r);
+              if (x !== 0) {
+                p /= x;
+                q /= x;
+                r /= x;
+              }
+            }
+            const norm = Math.sqrt(p * p + q * q + r * r);
+            s = p >= 0 ? norm : -norm;
+            if (s === 0) continue;
+            if (k === mm) {
+              if (l !== mm) a[k][k - 1] = -a[k][k - 1];
+            } else {
+              a[k][k - 1] = -s * x;
+            }
+            p += s;
+            x = p / s;
+            y = q / s;
+            z = r / s;
+            q /= p;
+            r /= p;
+            for (let j = k; j <= nn; j += 1) {
+              p = a[k][j] + q * a[k + 1][j];
+              if (k !== nn - 1) {
+                p += r * a[k + 2][j];
+                a[k + 2][j] -= p * z;
+              }
+              a[k + 1][j] -= p * y;
+              a[k][j] -= p * x;
+            }
+            const last = Math.min(nn, k + 3);
+            for (let i = l; i <= last; i += 1) {
+              p = x * a[i][k] + y * a[i][k + 1];
+              if (k !== nn - 1) {
+                p += z * a[i][k + 2];
+                a[i][k + 2] -= p * r;
+              }
+              a[i][k + 1] -= p * q;
+              a[i][k] -= p;
+            }
+          }
+        }
+      }
+    } while (l < nn - 1);
+  }
+
+  return Array.from({ length: n }, (_, i) => complex(wr[i + 1], wi[i + 1]));
+};
+
+/**
+ * Frequency response y(jω) = C·(jωI − A)⁻¹·B + D of a single-input system, one entry per row of C.
+ * The complex solve is carried out on its real 2n×2n embedding.
+ */
+export const frequencyResponseN = (
+  A: MatrixN,
+  B: VectorN,
+  C: MatrixN,
+  D: VectorN,
+  omega: number
+): Complex[] => {
+  const n = A.length;
+  // (jωI − A)(x_re + j·x_im) = B splits into [−A, −ωI; ωI, −A]·[x_re; x_im] = [B; 0].
+  const embedded = zerosN(2 * n);
+  for (let i = 0; i < n; i += 1) {
+    for (let j = 0; j < n; j += 1) {
+      embedded[i][j] = -A[i][j];
+      embedded[n + i][n + j] = -A[i][j];
+    }
+    embedded[i][n + i] = -omega;
+    embedded[n + i][i] = omega;
+  }
+  const solution = solveLinearN(embedded, [...B, ...new Array<number>(n).fill(0)]);
+  const re = solution.slice(0, n);
+  const im = solution.slice(n);
+  return C.map((row, i) => complex(dotN(row, re) + D[i], dotN(row, im)));
+};
+
+/**
+ * Response y(t) = C·x(t) + D·u to a unit step applied at t = 0 from rest, with
+ * x(t) = (e^(At) − I)·A⁻¹·B. Returns one series per row of C; times before the step read zero.
+ */
+export const stepResponseN = (A: MatrixN, B: VectorN, C: MatrixN, D: VectorN, times: number[]): number[][] => {
+  const steady = solveLinearN(A, B);
+  const outputs = C.map(() => [] as number[]);
+  for (const t of times) {
+    if (t < 0) {
+      outputs.forEach((series) => series.push(0));
+      continue;
+    }
+    const evolved = multiplyMatrixVectorN(matrixExponentialN(A, t), steady);
+    const state = evolved.map((value, i) => value - steady[i]);
+    C.forEach((row, i) => outputs[i].push(dotN(row, state) + D[i]));
+  }
+  return outputs;
+};
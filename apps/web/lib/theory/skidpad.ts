@@ -14,7 +14,7 @@ export function predictSkidpad(speed: number, radius: number, params: VehiclePar
   }
   const yawRate = radius === 0 ? 0 : speed / radius;
   const lateralAcceleration = speed * yawRate;
-  const understeerGradient = computeUndersteerGradient(params);
+  const understeerGradient = computeUndersteerGradient(params, speed);
   const steadyStateSteer = steadyStateSteerAngle(speed, radius, params);
   return {
     yawRate,
@@ -0,0 +1,90 @@
+import type { ModelDef, ModelParams } from "@/lib/sim/core";
+import type { VehicleParams } from "@/lib/vehicle/params";
+import { computeUndersteerGradient } from "@/lib/vehicle/understeer";
+import type { ActiveChassisParams } from "@/lib/vehicle/activeChassis";
+import type { Complex } from "./complex";
+import { lineariseModel } from "./linearise";
+import { eigenvaluesN } from "./matrix";
+import { buildStateSpace } from "./utils";
+
+/** Natural frequency and damping of a root pair: λ1·λ2 = ωn² and λ1 + λ2 = −2ζωn, complex or real. */
+export const modalFromPair = (lambda1: Complex, lambda2: Complex) => {
+  const product = lambda1.re * lambda2.re - lambda1.im * lambda2.im;
+  const omegaN = product > 0 ? Math.sqrt(product) : 0;
+  const zeta = omegaN > 0 ? -(lambda1.re + lambda2.re) / (2 * omegaN) : 0;
+  return { omegaN, zeta };
+};
+
+export type HandlingSpeeds = {
+  /** Understeer gradient K [rad/(m/s²)]; positive understeers. */
+  understeerGradient: number;
+  /** Speed of peak yaw-rate gain, √(L/K), for understeering cars [m/s]. */
+  characteristicSpeed: number | null;
+  /** Speed where the (vy, r) mode turns unstable, √(−L/K), for oversteering cars [m/s]. */
+  criticalSpeed: number | null;
+};
+
+export function computeHandlingSpeeds(vehicle: VehicleParams): HandlingSpeeds {
+  const understeerGradient = computeUndersteerGradient(vehicle);
+  const ratio = vehicle.L / understeerGradient;
+  const neutral = !Number.isFinite(ratio);
+  return {
+    understeerGradient,
+    characteristicSpeed: !neutral && ratio > 0 ? Math.sqrt(ratio) : null,
+    criticalSpeed: !neutral && ratio < 0 ? Math.sqrt(-ratio) : null,
+  };
+}
+
+export type StabilityPoint = {
+  speed: number;
+  /** Eigenvalues of the (vy, r) bicycle A matrix [1/s]. */
+  eigenvalues: Complex[];
+  omegaN: number;
+  zeta: number;
+  stable: boolean;
+};
+
+export type StabilitySweep = HandlingSpeeds & {
+  points: StabilityPoint[];
+};
+
+/** Poles of the linear bicycle, with any active-chassis laws closed, at one speed. */
+export function analyseStability(
+  vehicle: VehicleParams,
+  speed: number,
+  actuators?: ActiveChassisParams
+): StabilityPoint {
+  const { A } = buildStateSpace(vehicle, speed, actuators);
+  const eigenvalues = eigenvaluesN(A);
+  const { omegaN, zeta } = modalFromPair(eigenvalues[0], eigenvalues[1]);
+  return {
+    speed,
+    eigenvalues,
+    omegaN,
+    zeta,
+    stable: eigenvalues.every((lambda) => lambda.re < 0),
+  };
+}
+
+/** Root locus of the (vy, r) mode against forward speed. */
+export function sweepStability(
+  vehicle: VehicleParams,
+  speeds: number[],
+  actuators?: ActiveChassisParams
+): StabilitySweep {
+  return {
+    ...computeHandlingSpeeds(vehicle),
+    points: speeds.map((speed) => analyseStability(vehicle, speed, actuators)),
+  };
+}
+
+/** Real parts below this count as stable; finite differencing leaves neutral modes slightly off zero. */
+const NEUTRAL_TOLERANCE = 1e-6;
+
+export const isStableSpectrum = (eigenvalues: Complex[]) =>
+  eigenvalues.every((lambda) => lambda.re < NEUTRAL_TOLERANCE);
+
+/** Eigenvalues of any registered model, linearised about straight running with `params`. */
+export function modelEigenvalues(model: ModelDef<any, any> | string, params: ModelParams): Complex[] {
+  return eigenvaluesN(lineariseModel(model, { params, outputKeys: [] }).A);
+}
@@ -1,20 +1,12 @@
-import { computeAy } from "@/lib/vehicle/ayYaw";
 import type { VehicleParams } from "@/lib/vehicle/params";
-import {
-  buildStateSpace,
-  identity2,
-  invert2x2,
-  matrixExponential2,
-  multiplyMatrixVector,
-  multiplyMatrices,
-  scaleMatrix,
-  subtractMatrices,
-  type Matrix2,
-  type Vector2,
-} from "./utils";
+import { buildLinearSystem, buildStateSpace, LINEAR_OUTPUTS, type LinearSystem, type LinearTheoryOptions } from "./utils";
+import { dotN, eigenvaluesN, solveLinearN, stepResponseN } from "./matrix";
+import { conj } from "./complex";
+import { modalFromPair } from "./stability";
 
 export type StepSteerTheory = {
   gainRDelta: number;
+  /** Natural frequency and damping of the bicycle (vy, r) mode with any actuators; tyre lag is not included. */
   omegaN: number;
   zeta: number;
   stepCurves: (times: number[], delta: number) => {
@@ -24,56 +16,65 @@ export type StepSteerTheory = {
   };
 };
 
+const stepCurvesFor = (system: LinearSystem) => (times: number[], delta: number) => {
+  const responses = stepResponseN(system.A, system.B, system.C, system.D, times).map((series) =>
+    series.map((value) => value * delta)
+  );
+  return {
+    yawRate: responses[LINEAR_OUTPUTS.yawRate],
+    ay: responses[LINEAR_OUTPUTS.ay],
+    vy: responses[LINEAR_OUTPUTS.vy],
+  };
+};
+
 export function createStepSteerTheory(
   vehicle: VehicleParams,
-  speed: number
+  speed: number,
+  options: LinearTheoryOptions = {}
 ): StepSteerTheory {
-  const { A, B } = buildStateSpace(vehicle, speed);
-  const Ainv = invert2x2(A);
-  const steadyPerDelta = multiplyMatrixVector(scaleMatrix(Ainv, -1), B);
+  const bicycle = buildStateSpace(vehicle, speed, options.actuators);
+  // Steady state: A·x + B = 0, so x = −A⁻¹·B per unit steer.
+  const steadyPerDelta = solveLinearN(bicycle.A, bicycle.B).map((value) => -value);
   const gainRDelta = steadyPerDelta[1];
+  const [lambda1, lambda2] = eigenvaluesN(bicycle.A);
+  const { omegaN, zeta } = modalFromPair(lambda1, lambda2);
 
-  const trace = A[0][0] + A[1][1];
-  const det = A[0][0] * A[1][1] - A[0][1] * A[1][0];
-  const omegaN = det > 0 ? Math.sqrt(det) : 0;
-  const zeta = omegaN > 0 ? -trace / (2 * omegaN) : 0;
-
-  const stepCurves = (times: number[], delta: number) => {
-    const responses = {
-      yawRate: [] as number[],
-      ay: [] as number[],
-      vy: [] as number[],
-    };
-    const identity = identity2();
-    const inputVector: Vector2 = [B[0] * delta, B[1] * delta];
+  return {
+    gainRDelta,
+    omegaN,
+    zeta,
+    stepCurves: stepCurvesFor(buildLinearSystem(vehicle, speed, options)),
+  };
+}
 
-    for (const t of times) {
-      if (t < 0) {
-        responses.yawRate.push(0);
-        responses.ay.push(0);
-        responses.vy.push(0);
-        continue;
-      }
-      const expAt = matrixExponential2(A, t);
-      const expMinusI = subtractMatrices(expAt, identity);
-      const integral = multiplyMatrices(Ainv, expMinusI);
-      const state = multiplyMatrixVector(integral, inputVector);
-      const deriv = multiplyMatrixVector(A, state);
-      const vyDot = deriv[0] + B[0] * delta;
-      const yawRate = state[1];
-      const ay = computeAy(speed, yawRate, vyDot);
-      responses.yawRate.push(yawRate);
-      responses.ay.push(ay);
-      responses.vy.push(state[0]);
-    }
+/**
+ * Step-steer theory for an arbitrary steer-input system, e.g. a numerically linearised model.
+ * The modal values come from the least-damped oscillatory pair, or the two slowest real roots
+ * when every mode is overdamped.
+ */
+export function createStepSteerTheoryFromSystem(system: LinearSystem): StepSteerTheory {
+  const steadyPerDelta = solveLinearN(system.A, system.B).map((value) => -value);
+  const yawRow = LINEAR_OUTPUTS.yawRate;
+  const gainRDelta = dotN(system.C[yawRow], steadyPerDelta) + system.D[yawRow];
 
-    return responses;
-  };
+  const roots = eigenvaluesN(system.A);
+  const oscillatory = roots
+    .filter((root) => root.im > 0)
+    .map((root) => modalFromPair(root, conj(root)))
+    .sort((p, q) => p.zeta - q.zeta);
+  const slowest = roots
+    .filter((root) => root.im === 0)
+    .sort((p, q) => Math.abs(p.re) - Math.abs(q.re));
+  const { omegaN, zeta } = oscillatory.length
+    ? oscillatory[0]
+    : slowest.length >= 2
+      ? modalFromPair(slowest[0], slowest[1])
+      : { omegaN: 0, zeta: 0 };
 
   return {
     gainRDelta,
     omegaN,
     zeta,
-    stepCurves,
+    stepCurves: stepCurvesFor(system),
   };
 }
@@ -1,96 +1,129 @@
 import { deriveLinearBicycleCoeffs, type LinearBicycleCoefficients, type VehicleParams } from "@/lib/vehicle/params";
-
-export type Matrix2 = [
-  [number, number],
-  [number, number]
-];
-
-export type Vector2 = [number, number];
+import { actuatorGains, type ActiveChassisParams } from "@/lib/vehicle/activeChassis";
+import type { MatrixN, VectorN } from "./matrix";
 
 export type StateSpace = {
-  A: Matrix2;
-  B: Vector2;
+  /** Closed around any active-chassis laws, so A and B map front steer to (vy, r). */
+  A: MatrixN;
+  B: VectorN;
+  /** Open-loop input columns for rear steer [rad] and a direct yaw moment [N·m]. */
+  BRearSteer: VectorN;
+  BYawMoment: VectorN;
   coeffs: LinearBicycleCoefficients;
 };
 
-export const identity2 = (): Matrix2 => [
-  [1, 0],
-  [0, 1],
-];
-
-export const subtractMatrices = (a: Matrix2, b: Matrix2): Matrix2 => [
-  [a[0][0] - b[0][0], a[0][1] - b[0][1]],
-  [a[1][0] - b[1][0], a[1][1] - b[1][1]],
-];
-
-export const addMatrices = (a: Matrix2, b: Matrix2): Matrix2 => [
-  [a[0][0] + b[0][0], a[0][1] + b[0][1]],
-  [a[1][0] + b[1][0], a[1][1] + b[1][1]],
-];
-
-export const scaleMatrix = (m: Matrix2, scalar: number): Matrix2 => [
-  [m[0][0] * scalar, m[0][1] * scalar],
-  [m[1][0] * scalar, m[1][1] * scalar],
-];
-
-export const multiplyMatrixVector = (m: Matrix2, v: Vector2): Vector2 => [
-  m[0][0] * v[0] + m[0][1] * v[1],
-  m[1][0] * v[0] + m[1][1] * v[1],
-];
+/**
+ * Linear bicycle model with front steer as the driver input. Rear steer δr = kδ·δ + kr·r and a
+ * direct yaw moment Mz = mδ·δ + mr·r from `actuators` are folded into A and B.
+ */
+export const buildStateSpace = (
+  vehicle: VehicleParams,
+  speed: number,
+  actuators?: ActiveChassisParams
+): StateSpace => {
+  const coeffs = deriveLinearBicycleCoeffs(vehicle, speed);
+  const BRearSteer: VectorN = [vehicle.Cr / vehicle.m, (-vehicle.b * vehicle.Cr) / vehicle.Iz];
+  const BYawMoment: VectorN = [0, 1 / vehicle.Iz];
+  const gains = actuators ? actuatorGains(actuators, coeffs.vx) : null;
+  const A: MatrixN = [
+    [coeffs.a11, coeffs.a12],
+    [coeffs.a21, coeffs.a22],
+  ];
+  const B: VectorN = [coeffs.b1, coeffs.b2];
+  if (gains) {
+    for (let i = 0; i < 2; i += 1) {
+      A[i][1] += BRearSteer[i] * gains.rearSteerPerYawRate + BYawMoment[i] * gains.yawMomentPerYawRate;
+      B[i] += BRearSteer[i] * gains.rearSteerPerSteer + BYawMoment[i] * gains.yawMomentPerSteer;
+    }
+  }
+  return { A, B, BRearSteer, BYawMoment, coeffs };
+};
 
-export const multiplyMatrices = (a: Matrix2, b: Matrix2): Matrix2 => [
-  [a[0][0] * b[0][0] + a[0][1] * b[1][0], a[0][0] * b[0][1] + a[0][1] * b[1][1]],
-  [a[1][0] * b[0][0] + a[1][1] * b[1][0], a[1][0] * b[0][1] + a[1][1] * b[1][1]],
-];
+export type TyreLagOptions = {
+  /** Tyre relaxation length σ [m]; 0 applies slip instantly. */
+  relaxationLength?: number;
+};
 
-export const invert2x2 = (m: Matrix2): Matrix2 => {
-  const det = m[0][0] * m[1][1] - m[0][1] * m[1][0];
-  if (Math.abs(det) < 1e-9) {
-    throw new Error("Matrix is singular and cannot be inverted");
-  }
-  const invDet = 1 / det;
-  return [
-    [m[1][1] * invDet, -m[0][1] * invDet],
-    [-m[1][0] * invDet, m[0][0] * invDet],
-  ];
+export type LinearTheoryOptions = TyreLagOptions & {
+  /** Active rear steer and direct yaw-moment laws closed around the bicycle model. */
+  actuators?: ActiveChassisParams;
 };
 
-export const matrixExponential2 = (A: Matrix2, t: number): Matrix2 => {
-  const halfTrace = (A[0][0] + A[1][1]) / 2;
-  const det = A[0][0] * A[1][1] - A[0][1] * A[1][0];
-  const deltaSquared = halfTrace * halfTrace - det;
-  const I = identity2();
-  const centered = subtractMatrices(A, scaleMatrix(I, halfTrace));
-  if (Math.abs(deltaSquared) < 1e-9) {
-    const expTerm = Math.exp(halfTrace * t);
-    const correction = scaleMatrix(centered, t);
-    return scaleMatrix(addMatrices(I, correction), expTerm);
-  }
-  if (deltaSquared > 0) {
-    const delta = Math.sqrt(deltaSquared);
-    const expTerm = Math.exp(halfTrace * t);
-    const coshTerm = Math.cosh(delta * t);
-    const sinhTerm = Math.sinh(delta * t) / delta;
-    const second = scaleMatrix(centered, sinhTerm);
-    return scaleMatrix(addMatrices(scaleMatrix(I, coshTerm), second), expTerm);
-  }
-  const delta = Math.sqrt(-deltaSquared);
-  const expTerm = Math.exp(halfTrace * t);
-  const cosTerm = Math.cos(delta * t);
-  const sinTerm = Math.sin(delta * t) / delta;
-  const second = scaleMatrix(centered, sinTerm);
-  return scaleMatrix(addMatrices(scaleMatrix(I, cosTerm), second), expTerm);
+export type AugmentedStateSpace = {
+  /** State order: vy, r, lagged front slip, lagged rear slip. */
+  A: MatrixN;
+  B: VectorN;
+  coeffs: LinearBicycleCoefficients;
 };
 
-export const buildStateSpace = (
+/**
+ * Bicycle model with first-order tyre lag, dα/dt = (vx/σ)(α_ss − α), on each axle.
+ * Input is front steer angle; rear steer lags with the rear slip, the yaw moment acts directly.
+ */
+export const buildRelaxedStateSpace = (
   vehicle: VehicleParams,
-  speed: number
-): StateSpace => {
+  speed: number,
+  relaxationLength: number,
+  actuators?: ActiveChassisParams
+): AugmentedStateSpace => {
   const coeffs = deriveLinearBicycleCoeffs(vehicle, speed);
-  const A: Matrix2 = [
-    [coeffs.a11, coeffs.a12],
-    [coeffs.a21, coeffs.a22],
+  const { vx } = coeffs;
+  const sigma = Math.max(relaxationLength, 1e-6);
+  const { m, Iz, a, b, Cf, Cr } = vehicle;
+  const A: MatrixN = [
+    [0, -vx, Cf / m, Cr / m],
+    [0, 0, (a * Cf) / Iz, (-b * Cr) / Iz],
+    [-1 / sigma, -a / sigma, -vx / sigma, 0],
+    [-1 / sigma, b / sigma, 0, -vx / sigma],
   ];
-  const B: Vector2 = [coeffs.b1, coeffs.b2];
+  const B: VectorN = [0, 0, vx / sigma, 0];
+  if (actuators) {
+    const gains = actuatorGains(actuators, vx);
+    A[1][1] += gains.yawMomentPerYawRate / Iz;
+    A[3][1] += (gains.rearSteerPerYawRate * vx) / sigma;
+    B[1] += gains.yawMomentPerSteer / Iz;
+    B[3] += (gains.rearSteerPerSteer * vx) / sigma;
+  }
   return { A, B, coeffs };
 };
+
+export type LinearSystem = {
+  A: MatrixN;
+  B: VectorN;
+  /** Output rows for yaw rate, lateral acceleration and lateral velocity, in that order. */
+  C: MatrixN;
+  /** Direct feedthrough of front steer into each output. */
+  D: VectorN;
+};
+
+export type BicycleLinearSystem = LinearSystem & {
+  coeffs: LinearBicycleCoefficients;
+};
+
+export const LINEAR_OUTPUTS = { yawRate: 0, ay: 1, vy: 2 } as const;
+
+/**
+ * The bicycle model as a single-input state-space system: the 2-state (vy, r) model, or the
+ * 4-state tyre-lag model when a relaxation length is set. Lateral acceleration is v·r + dvy/dt.
+ */
+export const buildLinearSystem = (
+  vehicle: VehicleParams,
+  speed: number,
+  options: LinearTheoryOptions = {}
+): BicycleLinearSystem => {
+  const relaxationLength = Math.max(options.relaxationLength ?? 0, 0);
+  const { A, B, coeffs } =
+    relaxationLength > 0
+      ? buildRelaxedStateSpace(vehicle, speed, relaxationLength, options.actuators)
+      : buildStateSpace(vehicle, speed, options.actuators);
+  const n = A.length;
+  const unit = (index: number) => Array.from({ length: n }, (_, i) => (i === index ? 1 : 0));
+  const ayRow = A[0].map((value, i) => value + (i === 1 ? speed : 0));
+  return {
+    A,
+    B,
+    C: [unit(1), ayRow, unit(0)],
+    D: [0, B[0], 0],
+    coeffs,
+  };
+};
@@ -103,7 +103,9 @@ export const validationCases: Record<ValidationCaseId, ValidationCaseDefinition>
       showZeroSteerBaseline: false,
       visualCamberDeg: 0,
       camber: 0,
-      visualCrownDeg: 0
+      visualCrownDeg: 0,
+      muLayout: "uniform",
+      tyreThermal: false
     }),
     computeSteeringAngleRad: () => 0
   },
@@ -165,7 +167,10 @@ export const validationCases: Record<ValidationCaseId, ValidationCaseDefinition>
       steeringMode: "step",
       steeringAmplitude: 0,
       sineFrequency: 0,
-      skidpadRadius: params.radius ?? state.skidpadRadius
+      skidpadRadius: params.radius ?? state.skidpadRadius,
+      visualCrownDeg: 0,
+      muLayout: "uniform",
+      tyreThermal: false
     }),
     computeSteeringAngleRad: (_, params) => {
       const wheelbase = 2.8;
@@ -141,8 +141,7 @@ export function runValidation(caseId: ValidationCaseId, options: RunValidationOp
       SIM_DT
     );
 
-    vehicleState.yawRate = result.state.yawRate;
-    vehicleState.lateralVelocity = result.state.lateralVelocity;
+    Object.assign(vehicleState, result.state);
 
     time += SIM_DT;
 
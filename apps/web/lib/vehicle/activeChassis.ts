@@ -0,0 +1,86 @@
+export type RearSteerMode = "off" | "speedRatio" | "yawFeedback";
+
+export type ActiveChassisParams = {
+  rearSteerMode: RearSteerMode;
+  /**
+   * Rear/front steer ratio reached at twice the crossover speed, in phase; the same ratio in
+   * counter-phase at standstill [-].
+   */
+  rearSteerRatio: number;
+  /** Speed where speed-ratio rear steer changes from counter- to in-phase [m/s]. */
+  rearSteerCrossover: number;
+  /** Rear steer per unit yaw rate in yaw-feedback mode [rad/(rad/s)]. */
+  rearSteerYawGain: number;
+  /** Direct yaw moment per unit front steer, e.g. torque vectoring feed-forward [N·m/rad]. */
+  yawMomentSteerGain: number;
+  /** Direct yaw moment per unit yaw rate; negative adds yaw damping [N·m/(rad/s)]. */
+  yawMomentYawGain: number;
+};
+
+/** The actuator laws are linear, so each reduces to a gain on front steer and one on yaw rate. */
+export type ActuatorGains = {
+  rearSteerPerSteer: number;
+  rearSteerPerYawRate: number;
+  yawMomentPerSteer: number;
+  yawMomentPerYawRate: number;
+};
+
+export type ActuatorCommand = {
+  /** Rear road-wheel steer [rad]. */
+  rearSteer: number;
+  /** Direct yaw moment, positive yawing left [N·m]. */
+  yawMoment: number;
+};
+
+export const PASSIVE_CHASSIS: ActiveChassisParams = {
+  rearSteerMode: "off",
+  rearSteerRatio: 0.15,
+  rearSteerCrossover: 15,
+  rearSteerYawGain: 0.1,
+  yawMomentSteerGain: 0,
+  yawMomentYawGain: 0,
+};
+
+/** Rear/front steer ratio of the speed-dependent schedule, linear in speed through the crossover. */
+export function rearSteerRatioAt(speed: number, params: ActiveChassisParams): number {
+  const crossover = Math.max(params.rearSteerCrossover, 1e-3);
+  const blend = Math.max(-1, Math.min(1, (Math.abs(speed) - crossover) / crossover));
+  return params.rearSteerRatio * blend;
+}
+
+export function actuatorGains(params: ActiveChassisParams, speed: number): ActuatorGains {
+  return {
+    rearSteerPerSteer: params.rearSteerMode === "speedRatio" ? rearSteerRatioAt(speed, params) : 0,
+    rearSteerPerYawRate: params.rearSteerMode === "yawFeedback" ? params.rearSteerYawGain : 0,
+    yawMomentPerSteer: params.yawMomentSteerGain,
+    yawMomentPerYawRate: params.yawMomentYawGain,
+  };
+}
+
+export const isPassiveChassis = (gains: ActuatorGains): boolean =>
+  gains.rearSteerPerSteer === 0 &&
+  gains.rearSteerPerYawRate === 0 &&
+  gains.yawMomentPerSteer === 0 &&
+  gains.yawMomentPerYawRate === 0;
+
+export function actuatorCommand(gains: ActuatorGains, steer: number, yawRate: number): ActuatorCommand {
+  return {
+    rearSteer: gains.rearSteerPerSteer * steer + gains.rearSteerPerYawRate * yawRate,
+    yawMoment: gains.yawMomentPerSteer * steer + gains.yawMomentPerYawRate * yawRate,
+  };
+}
+
+/** Reads the actuator fields from a model's parameter record; missing fields keep the passive defaults. */
+export function activeChassisFromParams(params: Record<string, unknown>): ActiveChassisParams {
+  const number = (key: keyof ActiveChassisParams) =>
+    typeof params[key] === "number" ? (params[key] as number) : (PASSIVE_CHASSIS[key] as number);
+  const mode = params.rearSteerMode;
+  return {
+    rearSteerMode: mode === "speedRatio" || mode === "yawFeedback" ? mode : "off",
+    rearSteerRatio: number("rearSteerRatio"),
+    rearSteerCrossover: number("rearSteerCrossover"),
+    rearSteerYawGain: number("rearSteerYawGain"),
+    yawMomentSteerGain: number("yawMomentSteerGain"),
+    yawMomentYawGain: number("yawMomentYawGain"),
+  };
+}
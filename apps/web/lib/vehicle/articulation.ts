@@ -0,0 +1,89 @@
+import type { VehicleParams } from "./params";
+
+export type SemitrailerParams = {
+  m: number;
+  Iz: number;
+  /** Hitch (fifth wheel) to trailer CG [m]. */
+  hitchToCg: number;
+  /** Hitch to trailer axle [m]. */
+  hitchToAxle: number;
+};
+
+export type CombinationLoads = {
+  front: number;
+  rear: number;
+  kingpin: number;
+  trailer: number;
+};
+
+export type SwayTracker = {
+  /** Hitch angle at the last turning point [rad]. */
+  lastPeak: number;
+  /** Peak-to-peak hitch swing of the last half cycle [rad]. */
+  lastSwing: number;
+  /** Ratio of the last swing to the one before; above 1 the sway is growing. */
+  swingRatio: number;
+  /** Half cycles with a swing above the threshold. */
+  halfCycles: number;
+};
+
+export const createSwayTracker = (): SwayTracker => ({
+  lastPeak: 0,
+  lastSwing: 0,
+  swingRatio: 0,
+  halfCycles: 0,
+});
+
+/**
+ * Static axle loads for a tractor–semitrailer. The kingpin carries the share of trailer
+ * weight ahead of the trailer axle and sits `hitchOffset` behind the tractor CG.
+ */
+export function computeCombinationLoads(
+  tractor: VehicleParams,
+  trailer: SemitrailerParams,
+  hitchOffset: number
+): CombinationLoads {
+  if (tractor.L <= 0 || trailer.hitchToAxle <= 0) {
+    throw new Error("Tractor wheelbase and trailer hitch-to-axle length must be positive");
+  }
+  const trailerWeight = trailer.m * tractor.g;
+  const kingpin = trailerWeight * ((trailer.hitchToAxle - trailer.hitchToCg) / trailer.hitchToAxle);
+  const front = (tractor.m * tractor.g * tractor.b + kingpin * (tractor.b - hitchOffset)) / tractor.L;
+  const rear = tractor.m * tractor.g + kingpin - front;
+  return {
+    front,
+    rear,
+    kingpin,
+    trailer: trailerWeight - kingpin,
+  };
+}
+
+/**
+ * Updates the sway tracker from consecutive hitch angle rates. A turning point is a sign change
+ * in the hitch rate; swings smaller than `threshold` are ignored.
+ */
+export function updateSwayTracker(
+  tracker: SwayTracker,
+  hitchAngle: number,
+  previousRate: number,
+  rate: number,
+  threshold: number
+): SwayTracker {
+  if (previousRate === 0 || previousRate * rate > 0) {
+    return tracker;
+  }
+  const swing = Math.abs(hitchAngle - tracker.lastPeak);
+  if (swing < threshold) {
+    return { ...tracker, lastPeak: hitchAngle };
+  }
+  return {
+    lastPeak: hitchAngle,
+    lastSwing: swing,
+    swingRatio: tracker.lastSwing > 0 ? swing / tracker.lastSwing : 0,
+    halfCycles: tracker.halfCycles + 1,
+  };
+}
+
+/** Sustained sway: several half cycles whose swing is not decaying. */
+export const isTrailerSway = (tracker: SwayTracker, minHalfCycles = 3, minRatio = 0.9) =>
+  tracker.halfCycles >= minHalfCycles && tracker.swingRatio >= minRatio;
@@ -6,6 +6,11 @@ type DtBounds = {
 
 const DT_BOUNDS: Record<string, DtBounds> = {
   lin2dof: { min: 0.002, max: 0.02, recommended: 0.01 },
+  long3dof: { min: 0.002, max: 0.02, recommended: 0.01 },
+  motorcycle: { min: 0.002, max: 0.01, recommended: 0.005 },
+  pacejka2dof: { min: 0.002, max: 0.02, recommended: 0.01 },
+  tractortrailer: { min: 0.002, max: 0.02, recommended: 0.01 },
+  twintrack: { min: 0.002, max: 0.02, recommended: 0.01 },
   unicycle: { min: 0.005, max: 0.05, recommended: 0.02 },
 };
 
@@ -15,9 +20,12 @@ export type DtGuardResult = {
   message?: string;
 };
 
-export function enforceDtBounds(modelId: string, requestedDt: number): DtGuardResult {
+/** Adaptive integrators pick their own substeps, so only fixed-step ones are held to the window. */
+const ADAPTIVE_INTEGRATORS = ["rk45"];
+
+export function enforceDtBounds(modelId: string, requestedDt: number, integrator?: unknown): DtGuardResult {
   const bounds = DT_BOUNDS[modelId];
-  if (!bounds) {
+  if (!bounds || (typeof integrator === "string" && ADAPTIVE_INTEGRATORS.includes(integrator))) {
     return { dt: requestedDt, clamped: false };
   }
   const clampedDt = Math.min(Math.max(requestedDt, bounds.min), bounds.max);
@@ -0,0 +1,165 @@
+import type { SimInputs, Telemetry, WheelBrakeForces } from "../sim/core";
+import type { VehicleParams } from "./params";
+import type { WheelCorner } from "./twinTrack";
+import { steadyStateSteerAngle } from "./understeer";
+
+export type EscParams = {
+  enabled: boolean;
+  /** Yaw moment per unit yaw-rate error, referred to Iz [1/s]. */
+  yawGain: number;
+  /** Yaw-rate error the controller ignores [rad/s]. */
+  deadband: number;
+  /** Sideslip magnitude beyond which the sideslip term acts [rad]. */
+  betaLimit: number;
+  /** Yaw moment per unit sideslip beyond the limit, referred to Iz [1/s²]. */
+  betaGain: number;
+  /** Largest brake force the controller may apply at one wheel [N]. */
+  maxBrakeForce: number;
+  /** Share of the friction-limited yaw rate μg/vx the reference may ask for [-]. */
+  referenceMuShare: number;
+  /** Below this speed the controller stays passive [m/s]. */
+  minSpeed: number;
+};
+
+export type EscState = {
+  active: boolean;
+  yawRateRef: number;
+  yawRateError: number;
+  /** Corrective yaw moment the controller asked for, positive yawing left [N·m]. */
+  yawMoment: number;
+  brakeWheel: WheelCorner | null;
+  brakeForce: number;
+};
+
+export const DEFAULT_ESC_PARAMS: EscParams = {
+  enabled: false,
+  yawGain: 8,
+  deadband: 0.03,
+  betaLimit: 0.105,
+  betaGain: 30,
+  maxBrakeForce: 6000,
+  referenceMuShare: 0.85,
+  minSpeed: 5,
+};
+
+const BRAKE_WHEEL_CODES: Record<WheelCorner, number> = {
+  frontLeft: 1,
+  frontRight: 2,
+  rearLeft: 3,
+  rearRight: 4,
+};
+
+const passive = (yawRateRef = 0, yawRateError = 0): EscState => ({
+  active: false,
+  yawRateRef,
+  yawRateError,
+  yawMoment: 0,
+  brakeWheel: null,
+  brakeForce: 0,
+});
+
+/** Driver-intended yaw rate: the steady-state yaw rate for this steer and speed, capped by the grip available. */
+export function escReferenceYawRate(steer: number, vx: number, vehicle: VehicleParams, muShare: number): number {
+  if (vx <= 0) {
+    return 0;
+  }
+  // steadyStateSteerAngle at R = 1 m gives L + K·vx², so r = vx·δ/(L + K·vx²).
+  const steerPerCurvature = steadyStateSteerAngle(vx, 1, vehicle);
+  const linear = steerPerCurvature > 0 ? (vx * steer) / steerPerCurvature : 0;
+  const limit = (muShare * vehicle.mu * vehicle.g) / vx;
+  return Math.max(-limit, Math.min(limit, linear));
+}
+
+/**
+ * One control step. The yaw-rate error outside the deadband and any sideslip past `betaLimit`
+ * make up a corrective yaw moment, which is delivered by braking a single wheel: the outer front
+ * when the car is oversteering, the inner rear when it is understeering.
+ */
+export function stepEsc(
+  steer: number,
+  telemetry: Telemetry,
+  vehicle: VehicleParams,
+  params: EscParams = DEFAULT_ESC_PARAMS
+): EscState {
+  const vx = telemetry.vx ?? 0;
+  const r = telemetry.r ?? 0;
+  if (vx < params.minSpeed) {
+    return passive();
+  }
+  const yawRateRef = escReferenceYawRate(steer, vx, vehicle, params.referenceMuShare);
+  const yawRateError = yawRateRef - r;
+  const beta = telemetry.beta ?? Math.atan2(telemetry.vy ?? 0, vx);
+
+  let yawMoment = 0;
+  if (Math.abs(yawRateError) > params.deadband) {
+    yawMoment += params.yawGain * vehicle.Iz * (yawRateError - Math.sign(yawRateError) * params.deadband);
+  }
+  const betaExcess = Math.abs(beta) > params.betaLimit ? beta - Math.sign(beta) * params.betaLimit : 0;
+  // Positive β (sliding left) is countered by yawing left, bringing the nose back over the velocity.
+  yawMoment += params.betaGain * vehicle.Iz * betaExcess;
+
+  const halfTrack = vehicle.track / 2;
+  if (yawMoment === 0 || halfTrack <= 0) {
+    return passive(yawRateRef, yawRateError);
+  }
+
+  const oversteer = betaExcess !== 0 || Math.abs(r) > Math.abs(yawRateRef);
+  const left = yawMoment > 0;
+  const brakeWheel: WheelCorner = oversteer
+    ? left ? "frontLeft" : "frontRight"
+    : left ? "rearLeft" : "rearRight";
+  const brakeForce = Math.min(Math.abs(yawMoment) / halfTrack, params.maxBrakeForce);
+
+  return { active: true, yawRateRef, yawRateError, yawMoment, brakeWheel, brakeForce };
+}
+
+/**
+ * Routes scenario inputs through the stability controller. `telemetry` is the model output for
+ * the state about to be stepped; with ESC disabled the inputs pass through untouched.
+ */
+export function resolveEscInputs(
+  inputs: SimInputs,
+  telemetry: Telemetry,
+  vehicle: VehicleParams,
+  params: EscParams = DEFAULT_ESC_PARAMS
+): { inputs: SimInputs; esc: EscState | null } {
+  if (!params.enabled) {
+    return { inputs, esc: null };
+  }
+  const esc = stepEsc(inputs.steer ?? 0, telemetry, vehicle, params);
+  if (!esc.active || !esc.brakeWheel) {
+    return { inputs, esc };
+  }
+  const wheelBrakeForces: WheelBrakeForces = {
+    ...inputs.wheelBrakeForces,
+    [esc.brakeWheel]: (inputs.wheelBrakeForces?.[esc.brakeWheel] ?? 0) + esc.brakeForce,
+  };
+  return { inputs: { ...inputs, wheelBrakeForces }, esc };
+}
+
+/** Yaw moment of individual wheel brakes about the CG, positive yawing left [N·m]. */
+export function wheelBrakeYawMoment(forces: WheelBrakeForces | undefined, track: number): number {
+  if (!forces) {
+    return 0;
+  }
+  const left = (forces.frontLeft ?? 0) + (forces.rearLeft ?? 0);
+  const right = (forces.frontRight ?? 0) + (forces.rearRight ?? 0);
+  return ((left - right) * track) / 2;
+}
+
+/** Individual wheel brakes summed per axle [N]. */
+export function wheelBrakeAxleForces(forces: WheelBrakeForces | undefined): { front: number; rear: number } {
+  return {
+    front: (forces?.frontLeft ?? 0) + (forces?.frontRight ?? 0),
+    rear: (forces?.rearLeft ?? 0) + (forces?.rearRight ?? 0),
+  };
+}
+
+export const escNotes = (state: EscState): Record<string, number> => ({
+  escActive: state.active ? 1 : 0,
+  escYawRateRef: state.yawRateRef,
+  escYawRateError: state.yawRateError,
+  escYawMoment: state.yawMoment,
+  escBrakeForce: state.brakeForce,
+  escBrakeWheel: state.brakeWheel ? BRAKE_WHEEL_CODES[state.brakeWheel] : 0,
+});
@@ -1,4 +1,4 @@
-import { computeStaticLoads, type VehicleParams } from "./params";
+import { computeStaticLoads, type StaticLoadSplit, type VehicleParams } from "./params";
 
 export type FrictionClampResult = {
   front: number;
@@ -16,25 +16,106 @@ export type FrictionClampInput = {
   muOverride?: number;
 };
 
-export function clampLateralForces(input: FrictionClampInput): FrictionClampResult {
-  const staticLoads = computeStaticLoads(input.params);
-  const mu = input.muOverride ?? input.params.mu;
-  const frontLimit = Math.abs(mu * staticLoads.front);
-  const rearLimit = Math.abs(mu * staticLoads.rear);
+export type TyreForceDemand = {
+  Fx: number;
+  Fy: number;
+};
+
+export type FrictionEllipseResult = TyreForceDemand & {
+  /** Share of the friction ellipse in use after limiting, in [0, 1]. */
+  utilization: number;
+  limited: boolean;
+};
+
+export type AxleFrictionInput = {
+  front: TyreForceDemand;
+  rear: TyreForceDemand;
+  loads: StaticLoadSplit;
+  /** One coefficient for both axles, or per axle when the road friction differs under each. */
+  mu: number | { front: number; rear: number };
+  /** Longitudinal to lateral grip ratio; 1 gives a friction circle. */
+  longitudinalRatio?: number;
+};
 
-  const clampedFront = clamp(input.FyFront, -frontLimit, frontLimit);
-  const clampedRear = clamp(input.FyRear, -rearLimit, rearLimit);
+export type AxleFrictionResult = {
+  front: FrictionEllipseResult;
+  rear: FrictionEllipseResult;
+  limitFlags: {
+    front: boolean;
+    rear: boolean;
+  };
+};
 
+/** Raw demand on the friction ellipse; values above 1 exceed the available grip. */
+export function frictionDemandRatio(
+  demand: TyreForceDemand,
+  Fz: number,
+  mu: number,
+  longitudinalRatio = 1
+): number {
+  const lateralLimit = Math.abs(mu * Math.max(Fz, 0));
+  const longitudinalLimit = lateralLimit * longitudinalRatio;
+  if (lateralLimit <= 0 || longitudinalLimit <= 0) {
+    return demand.Fx !== 0 || demand.Fy !== 0 ? Number.POSITIVE_INFINITY : 0;
+  }
+  return Math.hypot(demand.Fx / longitudinalLimit, demand.Fy / lateralLimit);
+}
+
+/**
+ * Couples Fx and Fy on one tyre (or axle) through the friction ellipse
+ * (Fx / muX·Fz)² + (Fy / mu·Fz)² ≤ 1, scaling both radially when demand exceeds it.
+ */
+export function applyFrictionEllipse(
+  demand: TyreForceDemand,
+  Fz: number,
+  mu: number,
+  longitudinalRatio = 1
+): FrictionEllipseResult {
+  const demandRatio = frictionDemandRatio(demand, Fz, mu, longitudinalRatio);
+  if (!Number.isFinite(demandRatio)) {
+    return { Fx: 0, Fy: 0, utilization: 1, limited: true };
+  }
+  if (demandRatio <= 1) {
+    return { Fx: demand.Fx, Fy: demand.Fy, utilization: demandRatio, limited: false };
+  }
+  return {
+    Fx: demand.Fx / demandRatio,
+    Fy: demand.Fy / demandRatio,
+    utilization: 1,
+    limited: true,
+  };
+}
+
+export function clampAxleForces(input: AxleFrictionInput): AxleFrictionResult {
+  const mu = typeof input.mu === "number" ? { front: input.mu, rear: input.mu } : input.mu;
+  const front = applyFrictionEllipse(input.front, input.loads.front, mu.front, input.longitudinalRatio);
+  const rear = applyFrictionEllipse(input.rear, input.loads.rear, mu.rear, input.longitudinalRatio);
   return {
-    front: clampedFront,
-    rear: clampedRear,
+    front,
+    rear,
     limitFlags: {
-      front: clampedFront !== input.FyFront,
-      rear: clampedRear !== input.FyRear,
+      front: front.limited,
+      rear: rear.limited,
     },
   };
 }
 
+/** Pure-lateral case of {@link clampAxleForces} against the static axle loads. */
+export function clampLateralForces(input: FrictionClampInput): FrictionClampResult {
+  const result = clampAxleForces({
+    front: { Fx: 0, Fy: input.FyFront },
+    rear: { Fx: 0, Fy: input.FyRear },
+    loads: computeStaticLoads(input.params),
+    mu: input.muOverride ?? input.params.mu,
+  });
+
+  return {
+    front: result.front.Fy,
+    rear: result.rear.Fy,
+    limitFlags: result.limitFlags,
+  };
+}
+
 export function clamp(value: number, min: number, max: number): number {
   return Math.min(Math.max(value, min), max);
 }
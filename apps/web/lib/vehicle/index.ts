@@ -1,7 +1,16 @@
 export * from "./conventions";
 export * from "./params";
 export * from "./slipAndForces";
+export * from "./tyres";
+export * from "./longitudinal";
+export * from "./twinTrack";
 export * from "./ayYaw";
 export * from "./frictionClamp";
 export * from "./understeer";
 export * from "./dtGuards";
+export * from "./articulation";
+export * from "./steering";
+export * from "./road";
+export * from "./esc";
+export * from "./activeChassis";
+export * from "./tyreThermal";
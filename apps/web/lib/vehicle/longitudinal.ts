@@ -0,0 +1,52 @@
+export type LongitudinalForces = {
+  front: number;
+  rear: number;
+};
+
+export type DrivelineParams = {
+  maxDriveForce: number;
+  maxBrakeForce: number;
+  brakeBias: number;
+  driveFront: number;
+};
+
+export type PedalInputs = {
+  throttle?: number;
+  brake?: number;
+};
+
+export const AIR_DENSITY = 1.225;
+
+const clampUnit = (value: number | undefined) => Math.min(Math.max(value ?? 0, 0), 1);
+
+/**
+ * Splits pedal demand into axle forces. Positive is tractive. Brake force
+ * fades out below `standstillSpeed` so braking never drives the car backwards.
+ */
+export function computeLongitudinalForces(
+  inputs: PedalInputs,
+  driveline: DrivelineParams,
+  vx: number,
+  standstillSpeed = 0.5
+): LongitudinalForces {
+  const drive = clampUnit(inputs.throttle) * driveline.maxDriveForce;
+  const brakeFade = Math.min(Math.max(vx / Math.max(standstillSpeed, 1e-6), 0), 1);
+  const brake = clampUnit(inputs.brake) * driveline.maxBrakeForce * brakeFade;
+  const bias = Math.min(Math.max(driveline.brakeBias, 0), 1);
+  const driveSplit = Math.min(Math.max(driveline.driveFront, 0), 1);
+  return {
+    front: drive * driveSplit - brake * bias,
+    rear: drive * (1 - driveSplit) - brake * (1 - bias),
+  };
+}
+
+export function computeRollingResistance(m: number, g: number, Crr: number, vx: number): number {
+  if (vx <= 0) {
+    return 0;
+  }
+  return Crr * m * g * Math.min(vx / 0.5, 1);
+}
+
+export function computeAeroDrag(CdA: number, vx: number, rho = AIR_DENSITY): number {
+  return 0.5 * rho * CdA * vx * Math.abs(vx);
+}
@@ -1,4 +1,5 @@
 export const DEFAULT_GRAVITY = 9.81;
+export const DEFAULT_AIR_DENSITY = 1.225;
 
 export type VehicleParams = {
   m: number;
@@ -12,6 +13,14 @@ export type VehicleParams = {
   track: number;
   hCg: number;
   mu: number;
+  /** Downforce coefficients per axle, referred to `frontalArea`; positive pushes down. */
+  ClFront: number;
+  ClRear: number;
+  Cd: number;
+  /** Frontal area [m²]. */
+  frontalArea: number;
+  /** Air density [kg/m³]. */
+  rho: number;
 };
 
 export type VehicleParamsInput = {
@@ -25,6 +34,18 @@ export type VehicleParamsInput = {
   track?: number;
   hCg?: number;
   mu?: number;
+  ClFront?: number;
+  ClRear?: number;
+  Cd?: number;
+  frontalArea?: number;
+  rho?: number;
+};
+
+export type AeroLoads = {
+  /** Downforce on each axle [N]. */
+  front: number;
+  rear: number;
+  drag: number;
 };
 
 export type StaticLoadSplit = {
@@ -64,19 +85,46 @@ export function createVehicleParams(input: VehicleParamsInput): VehicleParams {
     track,
     hCg,
     mu,
+    ClFront: input.ClFront ?? 0,
+    ClRear: input.ClRear ?? 0,
+    Cd: input.Cd ?? 0.3,
+    frontalArea: input.frontalArea ?? 2.2,
+    rho: input.rho ?? DEFAULT_AIR_DENSITY,
+  };
+}
+
+/** Aero forces at forward speed vx: downforce ½ρv²·A·Cl per axle and drag ½ρv²·A·Cd. */
+export function computeAeroLoads(params: VehicleParams, vx: number): AeroLoads {
+  const dynamicPressure = 0.5 * params.rho * vx * vx * params.frontalArea;
+  return {
+    front: dynamicPressure * params.ClFront,
+    rear: dynamicPressure * params.ClRear,
+    drag: dynamicPressure * params.Cd,
   };
 }
 
-export function computeStaticLoads(params: VehicleParams): StaticLoadSplit {
+/** Axle weight split plus aero downforce at forward speed `vx` (0 gives the static split). */
+export function computeStaticLoads(params: VehicleParams, vx = 0): StaticLoadSplit {
   if (params.L <= 0) {
     throw new Error("Vehicle wheelbase must be positive");
   }
   const weight = params.m * params.g;
-  const front = weight * (params.b / params.L);
-  const rear = weight * (params.a / params.L);
+  const aero = vx === 0 ? { front: 0, rear: 0 } : computeAeroLoads(params, vx);
+  const front = weight * (params.b / params.L) + aero.front;
+  const rear = weight * (params.a / params.L) + aero.rear;
   return { front, rear };
 }
 
+/** Axle loads with quasi-static longitudinal load transfer m·ax·hCg/L; never negative. */
+export function computeAxleLoads(params: VehicleParams, ax: number, vx = 0): StaticLoadSplit {
+  const staticLoads = computeStaticLoads(params, vx);
+  const transfer = (params.m * ax * params.hCg) / params.L;
+  return {
+    front: Math.max(staticLoads.front - transfer, 0),
+    rear: Math.max(staticLoads.rear + transfer, 0),
+  };
+}
+
 export function deriveLinearBicycleCoeffs(
   params: VehicleParams,
   vx: number
@@ -86,10 +134,10 @@ export function deriveLinearBicycleCoeffs(
   const momentDiff = params.Cr * params.b - params.Cf * params.a;
   const yawStiffness = params.Cf * params.a * params.a + params.Cr * params.b * params.b;
 
-  const a11 = -(sumCornering / params.m);
-  const a12 = momentDiff / params.m - vxSafe;
-  const a21 = momentDiff / params.Iz;
-  const a22 = -(yawStiffness / params.Iz);
+  const a11 = -(sumCornering / (params.m * vxSafe));
+  const a12 = momentDiff / (params.m * vxSafe) - vxSafe;
+  const a21 = momentDiff / (params.Iz * vxSafe);
+  const a22 = -(yawStiffness / (params.Iz * vxSafe));
   const b1 = params.Cf / params.m;
   const b2 = (params.Cf * params.a) / params.Iz;
 
@@ -101,6 +149,6 @@ export function deriveLinearBicycleCoeffs(
     a22,
     b1,
     b2,
-    staticLoads: computeStaticLoads(params),
+    staticLoads: computeStaticLoads(params, vxSafe),
   };
 }
@@ -0,0 +1,109 @@
+export type MuLayout = "uniform" | "splitMu" | "wetPatch";
+
+/** Axis-aligned friction patch in world coordinates [m]; open sides use ±Infinity. */
+export type MuZone = {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+  mu: number;
+};
+
+/**
+ * Road the vehicle drives on. Bank and grade follow the vehicle's path (a radially banked skidpad,
+ * a straight climb), so they act along the body axes regardless of heading.
+ */
+export type RoadDescription = {
+  /** Cross slope, positive with the right-hand edge raised so gravity pulls to the left [rad]. */
+  bank: number;
+  /** Longitudinal slope, positive uphill in the direction of travel [rad]. */
+  grade: number;
+  /** Later zones win where they overlap; outside every zone the vehicle's own mu applies. */
+  zones: MuZone[];
+};
+
+export type RoadParams = {
+  bankDeg?: number;
+  gradeDeg?: number;
+  muLayout?: MuLayout;
+  /** Friction inside the low-mu zone. */
+  muLow?: number;
+  /** World x where the low-mu zone begins [m]. */
+  muZoneStart?: number;
+  /** Length of the wet patch along x [m]; split-mu runs to infinity. */
+  muZoneLength?: number;
+};
+
+export type RoadGravity = {
+  /** Body-frame gravity components in the road plane [m/s²]. */
+  ax: number;
+  ay: number;
+  /** Share of the vehicle weight carried normal to the road [-]. */
+  normalScale: number;
+};
+
+export const FLAT_ROAD: RoadDescription = { bank: 0, grade: 0, zones: [] };
+
+const DEG_TO_RAD = Math.PI / 180;
+
+const layoutZones = (params: RoadParams): MuZone[] => {
+  const mu = params.muLow ?? 0.3;
+  const start = params.muZoneStart ?? 0;
+  switch (params.muLayout) {
+    case "splitMu":
+      // Left-hand wheels (y > 0 at zero heading) on the low-mu side.
+      return [{ xMin: start, xMax: Number.POSITIVE_INFINITY, yMin: 0, yMax: Number.POSITIVE_INFINITY, mu }];
+    case "wetPatch":
+      return [
+        {
+          xMin: start,
+          xMax: start + Math.max(params.muZoneLength ?? 30, 0),
+          yMin: Number.NEGATIVE_INFINITY,
+          yMax: Number.POSITIVE_INFINITY,
+          mu,
+        },
+      ];
+    default:
+      return [];
+  }
+};
+
+export function createRoadDescription(params: RoadParams = {}): RoadDescription {
+  return {
+    bank: (params.bankDeg ?? 0) * DEG_TO_RAD,
+    grade: (params.gradeDeg ?? 0) * DEG_TO_RAD,
+    zones: layoutZones(params),
+  };
+}
+
+/** Friction coefficient at a world position; `fallback` is the vehicle's own mu. */
+export function muAt(road: RoadDescription, x: number, y: number, fallback: number): number {
+  for (let i = road.zones.length - 1; i >= 0; i -= 1) {
+    const zone = road.zones[i];
+    if (x >= zone.xMin && x < zone.xMax && y >= zone.yMin && y < zone.yMax) {
+      return zone.mu;
+    }
+  }
+  return fallback;
+}
+
+/** World position of a body-frame point (forward `px`, left `py`) on a vehicle at (x, y, ψ). */
+export function bodyToWorld(x: number, y: number, psi: number, px: number, py: number): { x: number; y: number } {
+  const cosPsi = Math.cos(psi);
+  const sinPsi = Math.sin(psi);
+  return {
+    x: x + px * cosPsi - py * sinPsi,
+    y: y + px * sinPsi + py * cosPsi,
+  };
+}
+
+/** Gravity split into the road plane (driving the body axes) and the normal load it leaves. */
+export function roadGravity(road: RoadDescription, g: number): RoadGravity {
+  const cosBank = Math.cos(road.bank);
+  const cosGrade = Math.cos(road.grade);
+  return {
+    ax: -g * Math.sin(road.grade),
+    ay: g * Math.sin(road.bank) * cosGrade,
+    normalScale: cosBank * cosGrade,
+  };
+}
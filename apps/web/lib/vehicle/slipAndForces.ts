@@ -15,6 +15,8 @@ export type SlipInputs = {
   a: number;
   b: number;
   steer: number;
+  /** Rear road-wheel steer [rad]; 0 for a passive rear axle. */
+  rearSteer?: number;
   vxFloor?: number;
 };
 
@@ -22,7 +24,7 @@ export function computeSlipAngles(inputs: SlipInputs): SlipAngles {
   const floorValue = inputs.vxFloor ?? 0.5;
   const vxSafe = Math.sign(inputs.vx || 1) * Math.max(Math.abs(inputs.vx), floorValue);
   const alphaFront = inputs.steer - (inputs.vy + inputs.a * inputs.r) / vxSafe;
-  const alphaRear = -((inputs.vy - inputs.b * inputs.r) / vxSafe);
+  const alphaRear = (inputs.rearSteer ?? 0) - (inputs.vy - inputs.b * inputs.r) / vxSafe;
   return { front: alphaFront, rear: alphaRear };
 }
 
@@ -30,8 +32,8 @@ export function computeLateralForces(
   angles: SlipAngles,
   stiffness: { Cf: number; Cr: number }
 ): LateralForces {
-  const FyFront = -stiffness.Cf * angles.front;
-  const FyRear = -stiffness.Cr * angles.rear;
+  const FyFront = stiffness.Cf * angles.front;
+  const FyRear = stiffness.Cr * angles.rear;
   return { front: FyFront, rear: FyRear };
 }
 
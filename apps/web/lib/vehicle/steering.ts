@@ -0,0 +1,102 @@
+import type { SimInputs } from "../sim/core";
+
+export type SteeringParams = {
+  /** Handwheel angle per road-wheel angle [-]. */
+  ratio: number;
+  /** Torsional stiffness between handwheel and pinion [N·m/rad]. */
+  columnStiffness: number;
+  /** Coulomb rack friction referred to the handwheel [N·m]. */
+  rackFriction: number;
+  /** Front tyre pneumatic trail [m]. */
+  pneumaticTrail: number;
+};
+
+export type SteeringState = {
+  handwheelAngle: number;
+  roadWheelAngle: number;
+  /** Torque the driver holds on the handwheel [N·m]. */
+  handwheelTorque: number;
+  /** Self-aligning torque about the kingpins, positive against positive steer [N·m]. */
+  alignTorque: number;
+  rackStuck: boolean;
+};
+
+export const DEFAULT_STEERING_PARAMS: SteeringParams = {
+  ratio: 16,
+  columnStiffness: 120,
+  rackFriction: 0.8,
+  pneumaticTrail: 0.03,
+};
+
+export const createSteeringState = (): SteeringState => ({
+  handwheelAngle: 0,
+  roadWheelAngle: 0,
+  handwheelTorque: 0,
+  alignTorque: 0,
+  rackStuck: true,
+});
+
+/**
+ * Quasi-static steering column. The column twist k·(θ − N·δ) balances the aligning torque t_p·Fyf
+ * referred to the handwheel plus rack friction; while the net torque stays inside the friction
+ * band the rack holds its previous position.
+ */
+export function stepSteering(
+  state: SteeringState,
+  handwheelAngle: number,
+  frontLateralForce: number,
+  params: SteeringParams
+): SteeringState {
+  if (params.ratio <= 0 || params.columnStiffness <= 0) {
+    throw new Error("Steering ratio and column stiffness must be positive");
+  }
+  const alignTorque = params.pneumaticTrail * frontLateralForce;
+  const loadTorque = alignTorque / params.ratio;
+  const friction = Math.max(params.rackFriction, 0);
+  const heldTorque = params.columnStiffness * (handwheelAngle - params.ratio * state.roadWheelAngle);
+  const net = heldTorque - loadTorque;
+
+  if (Math.abs(net) <= friction) {
+    return {
+      handwheelAngle,
+      roadWheelAngle: state.roadWheelAngle,
+      handwheelTorque: heldTorque,
+      alignTorque,
+      rackStuck: true,
+    };
+  }
+
+  const handwheelTorque = loadTorque + Math.sign(net) * friction;
+  return {
+    handwheelAngle,
+    roadWheelAngle: (handwheelAngle - handwheelTorque / params.columnStiffness) / params.ratio,
+    handwheelTorque,
+    alignTorque,
+    rackStuck: false,
+  };
+}
+
+/**
+ * Routes scenario inputs through the steering system. Inputs with a `handwheel` angle get their
+ * road-wheel `steer` from the column; road-wheel inputs pass through untouched.
+ */
+export function resolveSteeringInputs(
+  inputs: SimInputs,
+  state: SteeringState,
+  notes: Record<string, number> | undefined,
+  params: SteeringParams = DEFAULT_STEERING_PARAMS
+): { inputs: SimInputs; steering: SteeringState | null } {
+  if (typeof inputs.handwheel !== "number") {
+    return { inputs, steering: null };
+  }
+  const steering = stepSteering(state, inputs.handwheel, notes?.FyFront ?? 0, params);
+  return { inputs: { ...inputs, steer: steering.roadWheelAngle }, steering };
+}
+
+export const steeringNotes = (state: SteeringState): Record<string, number> => ({
+  handwheelAngle: state.handwheelAngle,
+  handwheelTorque: state.handwheelTorque,
+  alignTorque: state.alignTorque,
+  roadWheelAngle: state.roadWheelAngle,
+  rackStuck: state.rackStuck ? 1 : 0,
+});
@@ -0,0 +1,98 @@
+import { computeAxleLoads, type VehicleParams } from "./params";
+
+export type WheelCorner = "frontLeft" | "frontRight" | "rearLeft" | "rearRight";
+
+export type PerWheel<T> = Record<WheelCorner, T>;
+
+export const WHEEL_CORNERS: readonly WheelCorner[] = ["frontLeft", "frontRight", "rearLeft", "rearRight"];
+
+export type WheelPosition = {
+  x: number;
+  y: number;
+  axle: "front" | "rear";
+  side: "left" | "right";
+};
+
+export type WheelLoadInputs = {
+  ax: number;
+  ay: number;
+  /** Forward speed for aero downforce [m/s]; 0 or omitted leaves the static split. */
+  vx?: number;
+  /** Share of lateral load transfer carried by the front axle. Defaults to the static front weight share. */
+  frontRollShare?: number;
+};
+
+export type WheelSlipInputs = {
+  vx: number;
+  vy: number;
+  r: number;
+  a: number;
+  b: number;
+  track: number;
+  steer: number;
+  rearSteer?: number;
+  vxFloor?: number;
+};
+
+export function perWheel<T>(build: (corner: WheelCorner) => T): PerWheel<T> {
+  return {
+    frontLeft: build("frontLeft"),
+    frontRight: build("frontRight"),
+    rearLeft: build("rearLeft"),
+    rearRight: build("rearRight"),
+  };
+}
+
+export function wheelPosition(corner: WheelCorner, a: number, b: number, track: number): WheelPosition {
+  const axle = corner.startsWith("front") ? "front" : "rear";
+  const side = corner.endsWith("Left") ? "left" : "right";
+  return {
+    x: axle === "front" ? a : -b,
+    y: side === "left" ? track / 2 : -track / 2,
+    axle,
+    side,
+  };
+}
+
+/**
+ * Per-corner vertical load from the static split and aero downforce plus quasi-static longitudinal
+ * (m·ax·hCg/L) and lateral (m·ay·hCg/track) load transfer. Loads never go negative.
+ */
+export function computeWheelLoads(params: VehicleParams, accel: WheelLoadInputs): PerWheel<number> {
+  const { front: frontAxle, rear: rearAxle } = computeAxleLoads(params, accel.ax, accel.vx ?? 0);
+  const lateralTransfer = (params.m * accel.ay * params.hCg) / params.track;
+  const frontShare = accel.frontRollShare ?? params.b / params.L;
+  const frontLateral = lateralTransfer * frontShare;
+  const rearLateral = lateralTransfer * (1 - frontShare);
+  return {
+    frontLeft: Math.max(frontAxle / 2 - frontLateral, 0),
+    frontRight: Math.max(frontAxle / 2 + frontLateral, 0),
+    rearLeft: Math.max(rearAxle / 2 - rearLateral, 0),
+    rearRight: Math.max(rearAxle / 2 + rearLateral, 0),
+  };
+}
+
+/** Slip angle at each contact patch from the rigid-body velocity at that corner. */
+export function computeWheelSlipAngles(inputs: WheelSlipInputs): PerWheel<number> {
+  const floorValue = inputs.vxFloor ?? 0.5;
+  return perWheel((corner) => {
+    const position = wheelPosition(corner, inputs.a, inputs.b, inputs.track);
+    const vxWheel = inputs.vx - inputs.r * position.y;
+    const vyWheel = inputs.vy + inputs.r * position.x;
+    const vxSafe = Math.sign(vxWheel || 1) * Math.max(Math.abs(vxWheel), floorValue);
+    const steer = position.axle === "front" ? inputs.steer : inputs.rearSteer ?? 0;
+    return steer - Math.atan(vyWheel / vxSafe);
+  });
+}
+
+/** Splits an axle force between its two wheels in proportion to their vertical load. */
+export function splitAxleForceByLoad(axleForce: number, leftLoad: number, rightLoad: number) {
+  const total = leftLoad + rightLoad;
+  if (total <= 0) {
+    return { left: axleForce / 2, right: axleForce / 2 };
+  }
+  return {
+    left: (axleForce * leftLoad) / total,
+    right: (axleForce * rightLoad) / total,
+  };
+}
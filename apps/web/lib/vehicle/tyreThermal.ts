@@ -0,0 +1,117 @@
+export type TyreThermalParams = {
+  /** Air and road temperature the tyres start at and cool towards [°C]. */
+  ambientTemp: number;
+  /** Tread temperature of peak grip [°C]. */
+  optimalTemp: number;
+  /** Distance from the optimum at which `gripDropOff` of the grip is lost [K]. */
+  tempWindow: number;
+  gripDropOff: number;
+  /** Floor on the temperature grip factor, however cold or hot the tread [-]. */
+  minGripFactor: number;
+  /** Heat capacity of the tread of one axle's two tyres [J/K]. */
+  heatCapacity: number;
+  /** Share of the slip power that heats the tread; the rest goes into the road [-]. */
+  heatShare: number;
+  /** Convective cooling of one axle at standstill [W/K]. */
+  coolingBase: number;
+  /** Extra convective cooling per unit speed [W/K per m/s]. */
+  coolingPerSpeed: number;
+  /** Slip energy that wears an axle's tread away completely [J]. */
+  wearEnergy: number;
+  /** Grip lost with the tread fully worn [-]. */
+  wearGripLoss: number;
+};
+
+export type AxleThermalState = {
+  /** Tread temperature [°C]. */
+  temperature: number;
+  /** Worn share of the tread, 0 new to 1 gone [-]. */
+  wear: number;
+};
+
+export type TyreThermalState = {
+  front: AxleThermalState;
+  rear: AxleThermalState;
+};
+
+export const DEFAULT_TYRE_THERMAL_PARAMS: TyreThermalParams = {
+  ambientTemp: 20,
+  optimalTemp: 90,
+  tempWindow: 40,
+  gripDropOff: 0.05,
+  minGripFactor: 0.6,
+  heatCapacity: 12000,
+  heatShare: 0.6,
+  coolingBase: 20,
+  coolingPerSpeed: 4,
+  wearEnergy: 5e7,
+  wearGripLoss: 0.15,
+};
+
+export const createTyreThermalState = (
+  params: TyreThermalParams = DEFAULT_TYRE_THERMAL_PARAMS
+): TyreThermalState => ({
+  front: { temperature: params.ambientTemp, wear: 0 },
+  rear: { temperature: params.ambientTemp, wear: 0 },
+});
+
+/**
+ * Power dissipated in the contact patch by lateral sliding, |Fy|·vx·|tan α| [W]. Most of it ends
+ * up as heat; the tread lost to abrasion scales with it too.
+ */
+export function slipPower(lateralForce: number, slipAngle: number, speed: number): number {
+  return Math.abs(lateralForce * speed * Math.tan(slipAngle));
+}
+
+/**
+ * Grip multiplier for a tread temperature and wear: a parabola around the optimum, floored at
+ * `minGripFactor`, scaled down as the tread wears.
+ */
+export function thermalGripFactor(
+  axle: AxleThermalState,
+  params: TyreThermalParams = DEFAULT_TYRE_THERMAL_PARAMS
+): number {
+  const offset = (axle.temperature - params.optimalTemp) / Math.max(params.tempWindow, 1e-3);
+  const thermal = Math.max(1 - params.gripDropOff * offset * offset, params.minGripFactor);
+  return thermal * (1 - params.wearGripLoss * Math.min(Math.max(axle.wear, 0), 1));
+}
+
+/**
+ * One explicit-Euler step of the tread energy balance, C·dT/dt = share·P − h(v)·(T − T_amb) with
+ * h(v) = h0 + h1·|v|. The thermal time constant is tens of seconds, far above any model step.
+ */
+export function stepAxleThermal(
+  axle: AxleThermalState,
+  power: number,
+  speed: number,
+  dt: number,
+  params: TyreThermalParams = DEFAULT_TYRE_THERMAL_PARAMS
+): AxleThermalState {
+  const cooling = params.coolingBase + params.coolingPerSpeed * Math.abs(speed);
+  const heatFlow = params.heatShare * power - cooling * (axle.temperature - params.ambientTemp);
+  const wear = params.wearEnergy > 0 ? axle.wear + (power * dt) / params.wearEnergy : axle.wear;
+  return {
+    temperature: axle.temperature + (heatFlow * dt) / Math.max(params.heatCapacity, 1e-3),
+    wear: Math.min(wear, 1),
+  };
+}
+
+export function stepTyreThermal(
+  state: TyreThermalState,
+  power: { front: number; rear: number },
+  speed: number,
+  dt: number,
+  params: TyreThermalParams = DEFAULT_TYRE_THERMAL_PARAMS
+): TyreThermalState {
+  return {
+    front: stepAxleThermal(state.front, power.front, speed, dt, params),
+    rear: stepAxleThermal(state.rear, power.rear, speed, dt, params),
+  };
+}
+
+export const tyreThermalNotes = (state: TyreThermalState): Record<string, number> => ({
+  tyreTempFront: state.front.temperature,
+  tyreTempRear: state.rear.temperature,
+  tyreWearFront: state.front.wear,
+  tyreWearRear: state.rear.wear,
+});
@@ -0,0 +1,95 @@
+import type { LateralForces, SlipAngles } from "./slipAndForces";
+import type { StaticLoadSplit } from "./params";
+
+export type MagicFormulaCoefficients = {
+  B: number;
+  C: number;
+  E: number;
+};
+
+export type AxleTyres = {
+  front: MagicFormulaCoefficients;
+  rear: MagicFormulaCoefficients;
+};
+
+export function magicFormulaPeakFactor(Fz: number, mu: number): number {
+  return mu * Math.max(Fz, 0);
+}
+
+export function magicFormulaLateralForce(
+  alpha: number,
+  coeffs: MagicFormulaCoefficients,
+  Fz: number,
+  mu: number
+): number {
+  const D = magicFormulaPeakFactor(Fz, mu);
+  const Balpha = coeffs.B * alpha;
+  const shaped = Balpha - coeffs.E * (Balpha - Math.atan(Balpha));
+  return D * Math.sin(coeffs.C * Math.atan(shaped));
+}
+
+export function magicFormulaCorneringStiffness(
+  coeffs: MagicFormulaCoefficients,
+  Fz: number,
+  mu: number
+): number {
+  return coeffs.B * coeffs.C * magicFormulaPeakFactor(Fz, mu);
+}
+
+/**
+ * Degressive tyre: each wheel's stiffness C_w = (C/2)·n·(1 − κ(n − 1)) with n = Fz/Fz0, so the
+ * loaded wheel gains less than the unloaded one loses. With a transfer ΔFz = d·Fz0 the axle keeps
+ * C·(1 − κd²).
+ */
+export function loadSensitiveAxleStiffness(
+  axleStiffness: number,
+  loads: { left: number; right: number },
+  nominalWheelLoad: number,
+  degressivity: number
+): number {
+  if (nominalWheelLoad <= 0) {
+    return axleStiffness;
+  }
+  const wheel = (Fz: number) => {
+    const n = Math.max(Fz, 0) / nominalWheelLoad;
+    return Math.max((axleStiffness / 2) * n * (1 - degressivity * (n - 1)), 0);
+  };
+  return wheel(loads.left) + wheel(loads.right);
+}
+
+export function magicFormulaPeakSlip(coeffs: MagicFormulaCoefficients): number {
+  if (coeffs.C <= 1 || coeffs.B <= 0) {
+    return Number.POSITIVE_INFINITY;
+  }
+  const target = Math.tan(Math.PI / (2 * coeffs.C));
+  const shaped = (alpha: number) => {
+    const Balpha = coeffs.B * alpha;
+    return Balpha - coeffs.E * (Balpha - Math.atan(Balpha));
+  };
+  let low = 0;
+  let high = Math.PI / 2;
+  if (shaped(high) < target) {
+    return Number.POSITIVE_INFINITY;
+  }
+  for (let i = 0; i < 60; i += 1) {
+    const mid = (low + high) / 2;
+    if (shaped(mid) < target) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+export function computeMagicFormulaForces(
+  angles: SlipAngles,
+  tyres: AxleTyres,
+  loads: StaticLoadSplit,
+  mu: number
+): LateralForces {
+  return {
+    front: magicFormulaLateralForce(angles.front, tyres.front, loads.front, mu),
+    rear: magicFormulaLateralForce(angles.rear, tyres.rear, loads.rear, mu),
+  };
+}
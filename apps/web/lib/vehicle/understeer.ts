@@ -1,7 +1,11 @@
 import { computeStaticLoads, type VehicleParams } from "./params";
 
-export function computeUndersteerGradient(params: VehicleParams): number {
-  const loads = computeStaticLoads(params);
+/**
+ * Understeer gradient K = (Wf/Cf − Wr/Cr)/g [rad/(m/s²)] at forward speed `vx`, so δ = L/R + K·ay.
+ * The axle loads include aero downforce, so K moves with speed; `vx` = 0 gives the static value.
+ */
+export function computeUndersteerGradient(params: VehicleParams, vx = 0): number {
+  const loads = computeStaticLoads(params, vx);
   const frontTerm = loads.front / params.Cf;
   const rearTerm = loads.rear / params.Cr;
   return (frontTerm - rearTerm) / params.g;
@@ -15,6 +19,6 @@ export function steadyStateSteerAngle(
   if (radius <= 0) {
     throw new Error("Radius must be positive for steady-state steer calculation");
   }
-  const U = computeUndersteerGradient(params);
-  return params.L / radius + (U * speed * speed) / (radius * params.g);
+  const U = computeUndersteerGradient(params, speed);
+  return params.L / radius + (U * speed * speed) / radius;
 }
@@ -0,0 +1,94 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { bootModels } from "@/lib/models";
+import { runStepSteerRun } from "@/lib/scenarios/canonical";
+import { getModel } from "@/lib/sim/registry";
+import { predictBode } from "@/lib/theory/frequency";
+import { createStepSteerTheory } from "@/lib/theory/stepSteer";
+import { buildStateSpace } from "@/lib/theory/utils";
+import { PASSIVE_CHASSIS, rearSteerRatioAt } from "@/lib/vehicle/activeChassis";
+import { createVehicleParams } from "@/lib/vehicle/params";
+
+const vehicle = createVehicleParams({ m: 1500, Iz: 2250, a: 1.2, b: 1.6, Cf: 80000, Cr: 80000 });
+
+const steadyYawRate = (overrides: Record<string, unknown>, steer: number) => {
+  const model = getModel("lin2dof")!;
+  const params = { ...model.defaults, ...overrides } as any;
+  let state = model.init(params);
+  for (let i = 0; i < 600; i += 1) {
+    state = model.step(state, { steer }, params.dt, params);
+  }
+  return model.outputs(state, params);
+};
+
+describe("active chassis theory", () => {
+  it("leaves the passive state space untouched", () => {
+    const passive = buildStateSpace(vehicle, 25);
+    const off = buildStateSpace(vehicle, 25, PASSIVE_CHASSIS);
+    expect(off.A).toEqual(passive.A);
+    expect(off.B).toEqual(passive.B);
+    expect(passive.BYawMoment).toEqual([0, 1 / vehicle.Iz]);
+  });
+
+  it("schedules rear steer from counter-phase to in-phase through the crossover", () => {
+    const params = { ...PASSIVE_CHASSIS, rearSteerMode: "speedRatio" as const };
+    expect(rearSteerRatioAt(0, params)).toBeCloseTo(-params.rearSteerRatio, 9);
+    expect(rearSteerRatioAt(params.rearSteerCrossover, params)).toBeCloseTo(0, 9);
+    expect(rearSteerRatioAt(100, params)).toBeCloseTo(params.rearSteerRatio, 9);
+  });
+
+  it("in-phase rear steer and yaw damping trade yaw gain for damping", () => {
+    const passive = createStepSteerTheory(vehicle, 30);
+    const rearSteer = createStepSteerTheory(vehicle, 30, {
+      actuators: { ...PASSIVE_CHASSIS, rearSteerMode: "speedRatio" },
+    });
+    const damped = createStepSteerTheory(vehicle, 30, {
+      actuators: { ...PASSIVE_CHASSIS, yawMomentYawGain: -5000 },
+    });
+    expect(rearSteer.gainRDelta).toBeLessThan(passive.gainRDelta);
+    expect(damped.zeta).toBeGreaterThan(passive.zeta);
+  });
+
+  it("Bode DC gain matches the closed-loop steady state with tyre lag", () => {
+    const actuators = { ...PASSIVE_CHASSIS, rearSteerMode: "yawFeedback" as const, yawMomentSteerGain: 20000 };
+    const step = createStepSteerTheory(vehicle, 25, { actuators });
+    const bode = predictBode(25, [0.001], vehicle, { relaxationLength: 0.5, actuators });
+    expect(bode.yawRateMag[0]).toBeCloseTo(Math.abs(step.gainRDelta), 3);
+  });
+});
+
+describe("lin2dof actuators", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  it("settles where the actuated theory says", () => {
+    for (const overrides of [
+      { rearSteerMode: "speedRatio", v: 30 },
+      { rearSteerMode: "yawFeedback", v: 30 },
+      { yawMomentSteerGain: 30000, yawMomentYawGain: -4000, v: 20 },
+    ]) {
+      const model = getModel("lin2dof")!;
+      const params = { ...model.defaults, ...overrides } as any;
+      const theory = createStepSteerTheory(vehicle, params.v, {
+        actuators: { ...PASSIVE_CHASSIS, ...(overrides as any) },
+      });
+      const outputs = steadyYawRate(overrides, 0.02);
+      expect(outputs.r).toBeCloseTo(theory.gainRDelta * 0.02, 4);
+      expect(Math.abs(outputs.notes!.rearSteer) + Math.abs(outputs.notes!.activeYawMoment)).toBeGreaterThan(0);
+    }
+  });
+
+  it("step-steer run reports passive and active dynamics side by side", () => {
+    const run = runStepSteerRun({
+      speed: 30,
+      delta: 0.02,
+      modelId: "lin2dof",
+      modelParams: { yawMomentYawGain: -5000 },
+    });
+    expect(run.flags.activeChassis).toBe(true);
+    expect(run.metrics.zeta).toBeGreaterThan(run.metrics.zetaPassive);
+    expect(run.grades.finalYaw).toBe(true);
+    expect(run.theory.passive.yawRate).toHaveLength(run.theory.yawRate.length);
+  });
+});
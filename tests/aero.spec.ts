@@ -0,0 +1,91 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { bootModels } from "@/lib/models";
+import { runRampToLimitRun } from "@/lib/scenarios/canonical";
+import { getModel } from "@/lib/sim/registry";
+import { predictLimit } from "@/lib/theory/frictionEnvelope";
+import { computeAeroLoads, computeStaticLoads, createVehicleParams } from "@/lib/vehicle/params";
+import { computeUndersteerGradient } from "@/lib/vehicle/understeer";
+
+const base = { m: 1500, Iz: 2250, a: 1.2, b: 1.6, Cf: 80000, Cr: 80000, mu: 1 };
+// Downforce split in proportion to the weight split keeps the balance neutral.
+const aeroCar = createVehicleParams({ ...base, ClFront: 1.6, ClRear: 1.2, frontalArea: 1.5, Cd: 0.9 });
+
+describe("aerodynamic loads", () => {
+  it("downforce and drag grow with the square of speed", () => {
+    const at20 = computeAeroLoads(aeroCar, 20);
+    const at40 = computeAeroLoads(aeroCar, 40);
+    expect(at20.front).toBeCloseTo(0.5 * 1.225 * 400 * 1.5 * 1.6, 9);
+    expect(at40.rear / at20.rear).toBeCloseTo(4, 9);
+    expect(at40.drag / at20.drag).toBeCloseTo(4, 9);
+
+    const loads = computeStaticLoads(aeroCar, 40);
+    const still = computeStaticLoads(aeroCar);
+    expect(loads.front - still.front).toBeCloseTo(at40.front, 9);
+    expect(loads.rear - still.rear).toBeCloseTo(at40.rear, 9);
+  });
+
+  it("friction envelope rises with downforce and names the limiting axle", () => {
+    const plain = predictLimit(40, 1, createVehicleParams(base));
+    expect(plain.ayMax).toBeCloseTo(9.81, 9);
+    expect(plain.limitingAxle).toBe("both");
+
+    const aero = computeAeroLoads(aeroCar, 40);
+    const balanced = predictLimit(40, 1, aeroCar);
+    expect(balanced.ayMax).toBeCloseTo((1500 * 9.81 + aero.front + aero.rear) / 1500, 9);
+
+    // Rear-only downforce leaves the front axle at its unaided limit.
+    const rearOnly = predictLimit(40, 1, createVehicleParams({ ...base, ClRear: 2, frontalArea: 1.5 }));
+    expect(rearOnly.limitingAxle).toBe("front");
+    expect(rearOnly.ayMax).toBeCloseTo(9.81, 9);
+  });
+
+  it("moves the understeer gradient with the downforce on each axle", () => {
+    const still = computeUndersteerGradient(aeroCar);
+    expect(still).toBeCloseTo(computeUndersteerGradient(createVehicleParams(base)), 12);
+    const aero = computeAeroLoads(aeroCar, 40);
+    const atSpeed = computeUndersteerGradient(aeroCar, 40);
+    expect(atSpeed - still).toBeCloseTo((aero.front / aeroCar.Cf - aero.rear / aeroCar.Cr) / aeroCar.g, 12);
+    // More front than rear downforce on equal stiffness pushes the car towards understeer.
+    expect(atSpeed).toBeGreaterThan(still);
+    const rearWing = createVehicleParams({ ...base, ClRear: 2, frontalArea: 1.5 });
+    expect(computeUndersteerGradient(rearWing, 40)).toBeLessThan(computeUndersteerGradient(rearWing));
+  });
+});
+
+describe("twin-track with downforce", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  it("adds each axle's downforce to its wheel loads", () => {
+    const model = getModel("twintrack")!;
+    const load = (overrides: Record<string, unknown>) => {
+      const modelParams = { ...model.defaults, v: 40, ...overrides } as any;
+      const state = model.step(model.init(modelParams), {}, modelParams.dt, modelParams);
+      return model.outputs(state, modelParams).notes!;
+    };
+    const plain = load({});
+    const winged = load({ ClFront: 1.6, ClRear: 1.2, frontalArea: 1.5 });
+    const vx = 40;
+    const frontDownforce = 0.5 * 1.225 * vx * vx * 1.5 * 1.6;
+    expect(winged.FzFrontLeft - plain.FzFrontLeft).toBeCloseTo(frontDownforce / 2, -1);
+    expect(winged.FzRearRight).toBeGreaterThan(plain.FzRearRight);
+  });
+});
+
+describe("ramp to limit with downforce", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  it("lin2dof reaches the higher aero limit the theory predicts", () => {
+    const modelParams = { ClFront: 1.6, ClRear: 1.2, frontalArea: 1.5, Cd: 0.9 };
+    const result = runRampToLimitRun({ speed: 40, rampRate: 0.02, dt: 0.005, modelId: "lin2dof", modelParams });
+    expect(result.flags.frictionLimited).toBe(true);
+    expect(result.theory.ayMax).toBeGreaterThan(1.25 * 9.81);
+    expect(result.grades.ayLimit).toBe(true);
+    expect(result.grades.steerLimit).toBe(true);
+    expect(result.metrics.ayAtLimit).toBeGreaterThan(1.2 * 9.81);
+  });
+});
@@ -0,0 +1,73 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { bootModels } from "@/lib/models";
+import { runNoSteerTest } from "@/lib/noSteerTest";
+import { createScenario, crosswindLoads, disturbanceAt } from "@/lib/scenarios";
+import { getModel } from "@/lib/sim/registry";
+import { defaultSandboxState } from "@/lib/stateSchema";
+
+const runScenario = (modelId: string, scenarioId: string, duration: number) => {
+  const model = getModel(modelId)!;
+  const params = model.defaults as any;
+  const sampler = createScenario(scenarioId);
+  let state = model.init(params);
+  const trace = [];
+  for (let t = 0; t < duration; t += params.dt) {
+    state = model.step(state, sampler({ t, modelId, params }), params.dt, params);
+    trace.push({ ...model.outputs(state, params), t: t + params.dt });
+  }
+  return trace;
+};
+
+describe("disturbance profiles", () => {
+  it("crosswind load grows with the square of wind speed and acts at the pressure centre", () => {
+    const loads = crosswindLoads({ windSpeed: 20, sideArea: 4, sideForceCoeff: 0.9, pressureCentre: 0.3 });
+    expect(loads.Fy).toBeCloseTo(0.5 * 1.225 * 4 * 0.9 * 400, 9);
+    expect(loads.Mz).toBeCloseTo(loads.Fy * 0.3, 9);
+    expect(crosswindLoads({ windSpeed: -20 }).Fy).toBeCloseTo(-loads.Fy, 9);
+  });
+
+  it("steps hold, gusts and impulses drop away", () => {
+    const base = { tStart: 1, duration: 0.5, Fy: 100, Mz: 10 };
+    expect(disturbanceAt({ ...base, shape: "step" }, 0.5).Fy).toBe(0);
+    expect(disturbanceAt({ ...base, shape: "step" }, 5).Fy).toBe(100);
+    expect(disturbanceAt({ ...base, shape: "gust" }, 1.2).Mz).toBe(10);
+    expect(disturbanceAt({ ...base, shape: "gust" }, 1.5).Mz).toBe(0);
+  });
+});
+
+describe("models under external disturbance", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  it("a crosswind gust pushes every car model downwind", () => {
+    for (const modelId of ["lin2dof", "pacejka2dof", "long3dof", "twintrack"]) {
+      const trace = runScenario(modelId, "crosswind", 3);
+      const beforeGust = trace.find((sample) => sample.t >= 0.9)!;
+      expect(Math.abs(beforeGust.y ?? 0)).toBeLessThan(1e-9);
+      expect(trace[trace.length - 1].y ?? 0).toBeGreaterThan(0.05);
+    }
+  });
+
+  it("straight running recovers from a lateral impulse", () => {
+    const trace = runScenario("lin2dof", "lateral-impulse", 6);
+    const peakVy = Math.max(...trace.map((sample) => Math.abs(sample.vy ?? 0)));
+    // 600 N·s on 1500 kg is at most 0.4 m/s; the tyres push back while it is applied.
+    expect(peakVy).toBeGreaterThan(0.1);
+    expect(peakVy).toBeLessThan(0.4);
+    const last = trace[trace.length - 1];
+    expect(Math.abs(last.vy ?? 0)).toBeLessThan(1e-3);
+    expect(Math.abs(last.r ?? 0)).toBeLessThan(1e-3);
+  });
+});
+
+describe("no-steer test with disturbance", () => {
+  it("still passes undisturbed and flags a strong side gust", () => {
+    expect(runNoSteerTest(defaultSandboxState).pass).toBe(true);
+    const gust = crosswindLoads({ windSpeed: 25 });
+    const windy = runNoSteerTest(defaultSandboxState, (t) => (t >= 2 ? gust : {}));
+    expect(windy.pass).toBe(false);
+    expect(windy.maxLateralOffset).toBeGreaterThan(0.1);
+  });
+});
@@ -0,0 +1,72 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { bootModels } from "@/lib/models";
+import { runRampToLimitRun } from "@/lib/scenarios/canonical";
+import { getModel } from "@/lib/sim/registry";
+import { createVehicleParams } from "@/lib/vehicle/params";
+import { DEFAULT_ESC_PARAMS, escReferenceYawRate, stepEsc, wheelBrakeYawMoment } from "@/lib/vehicle/esc";
+import { steadyStateSteerAngle } from "@/lib/vehicle/understeer";
+
+const vehicle = createVehicleParams({ m: 1500, Iz: 2250, a: 1.2, b: 1.6, Cf: 80000, Cr: 80000, mu: 1 });
+const esc = { ...DEFAULT_ESC_PARAMS, enabled: true };
+
+describe("ESC controller", () => {
+  it("follows the steady-state yaw rate and caps it at the grip limit", () => {
+    const speed = 20;
+    const steer = steadyStateSteerAngle(speed, 100, vehicle);
+    expect(escReferenceYawRate(steer, speed, vehicle, 1)).toBeCloseTo(speed / 100, 9);
+    expect(escReferenceYawRate(0.3, speed, vehicle, 0.85)).toBeCloseTo((0.85 * vehicle.g) / speed, 9);
+  });
+
+  it("brakes the outer front when oversteering and the inner rear when understeering", () => {
+    const steer = steadyStateSteerAngle(20, 100, vehicle);
+    const tracking = stepEsc(steer, { t: 0, vx: 20, r: 0.2, beta: 0 }, vehicle, esc);
+    expect(tracking.active).toBe(false);
+
+    const oversteer = stepEsc(steer, { t: 0, vx: 20, r: 0.35, beta: -0.05 }, vehicle, esc);
+    expect(oversteer.brakeWheel).toBe("frontRight");
+    expect(oversteer.yawMoment).toBeLessThan(0);
+
+    const understeer = stepEsc(steer, { t: 0, vx: 20, r: 0.05, beta: 0 }, vehicle, esc);
+    expect(understeer.brakeWheel).toBe("rearLeft");
+    expect(understeer.brakeForce).toBeLessThanOrEqual(esc.maxBrakeForce);
+  });
+
+  it("a left-side brake yaws the car left", () => {
+    expect(wheelBrakeYawMoment({ frontLeft: 1000 }, 1.6)).toBeCloseTo(800, 9);
+    expect(wheelBrakeYawMoment({ rearRight: 1000 }, 1.6)).toBeCloseTo(-800, 9);
+  });
+});
+
+describe("ESC in the loop", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  it("twin-track body yaws towards a single braked wheel", () => {
+    const model = getModel("twintrack")!;
+    const params = { ...model.defaults, v: 20 } as any;
+    let state = model.init(params);
+    for (let i = 0; i < 50; i += 1) {
+      state = model.step(state, { steer: 0, wheelBrakeForces: { frontLeft: 2000 } }, params.dt, params);
+    }
+    expect(model.outputs(state, params).r).toBeGreaterThan(0.01);
+  });
+
+  it("catches the ramp-to-limit spin and stays out of the linear range", () => {
+    const off = runRampToLimitRun({ speed: 20, rampRate: 0.05, modelId: "long3dof" });
+    const on = runRampToLimitRun({ speed: 20, rampRate: 0.05, modelId: "long3dof", esc: { enabled: true } });
+    expect(off.metrics.maxSideslip).toBeGreaterThan(1);
+    expect(on.metrics.maxSideslip).toBeLessThan(0.4);
+    expect(on.flags.escIntervened).toBe(true);
+    expect(off.flags.escIntervened).toBe(false);
+    const linear = on.telemetry.filter((sample) => Math.abs(sample.steer) < 0.02);
+    expect(linear.some((sample) => sample.escActive)).toBe(false);
+  });
+
+  it("holds sideslip down on the tyre-curve model", () => {
+    const off = runRampToLimitRun({ speed: 25, rampRate: 0.05, modelId: "pacejka2dof" });
+    const on = runRampToLimitRun({ speed: 25, rampRate: 0.05, modelId: "pacejka2dof", esc: { enabled: true } });
+    expect(on.metrics.maxSideslip).toBeLessThan(off.metrics.maxSideslip * 0.7);
+  });
+});
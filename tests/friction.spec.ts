@@ -0,0 +1,82 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { bootModels } from "@/lib/models";
+import { runRampToLimitRun } from "@/lib/scenarios/canonical/rampToLimit";
+import { applyFrictionEllipse, clampAxleForces, frictionDemandRatio } from "@/lib/vehicle/frictionClamp";
+import { computeAxleLoads, computeStaticLoads, createVehicleParams } from "@/lib/vehicle/params";
+
+const params = createVehicleParams({
+  m: 1500,
+  Iz: 2250,
+  a: 1.2,
+  b: 1.6,
+  Cf: 80000,
+  Cr: 80000,
+  mu: 0.9,
+  hCg: 0.55,
+});
+
+describe("friction ellipse", () => {
+  it("passes demand inside the ellipse through unchanged", () => {
+    const result = applyFrictionEllipse({ Fx: 2000, Fy: 3000 }, 8000, 1);
+    expect(result.Fx).toBe(2000);
+    expect(result.Fy).toBe(3000);
+    expect(result.limited).toBe(false);
+    expect(result.utilization).toBeCloseTo(Math.hypot(2000, 3000) / 8000, 10);
+  });
+
+  it("scales combined demand radially onto the limit", () => {
+    const result = applyFrictionEllipse({ Fx: -6000, Fy: 6000 }, 5000, 1);
+    expect(result.limited).toBe(true);
+    expect(result.utilization).toBe(1);
+    expect(Math.hypot(result.Fx, result.Fy)).toBeCloseTo(5000, 6);
+    expect(result.Fx / result.Fy).toBeCloseTo(-1, 10);
+  });
+
+  it("braking reduces the lateral force available at the same slip", () => {
+    const lateralOnly = applyFrictionEllipse({ Fx: 0, Fy: 4500 }, 5000, 1);
+    const braking = applyFrictionEllipse({ Fx: -4000, Fy: 4500 }, 5000, 1);
+    expect(lateralOnly.limited).toBe(false);
+    expect(braking.limited).toBe(true);
+    expect(Math.abs(braking.Fy)).toBeLessThan(Math.abs(lateralOnly.Fy));
+  });
+
+  it("reports demand above one and zero grip without load", () => {
+    expect(frictionDemandRatio({ Fx: 0, Fy: 10000 }, 5000, 1)).toBeCloseTo(2, 10);
+    const unloaded = applyFrictionEllipse({ Fx: 100, Fy: 100 }, 0, 1);
+    expect(unloaded.Fx).toBe(0);
+    expect(unloaded.Fy).toBe(0);
+    expect(unloaded.limited).toBe(true);
+  });
+
+  it("braking load transfer gives the front axle more grip", () => {
+    const staticLoads = computeStaticLoads(params);
+    const loads = computeAxleLoads(params, -6);
+    expect(loads.front).toBeGreaterThan(staticLoads.front);
+    expect(loads.front + loads.rear).toBeCloseTo(staticLoads.front + staticLoads.rear, 6);
+
+    const demand = { Fx: -3000, Fy: 0.9 * staticLoads.rear };
+    const result = clampAxleForces({ front: demand, rear: demand, loads, mu: params.mu });
+    expect(result.limitFlags.front).toBe(false);
+    expect(result.limitFlags.rear).toBe(true);
+  });
+});
+
+describe("ramp-to-limit utilisation", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  it("flags the limit where utilisation first reaches one", () => {
+    const result = runRampToLimitRun({ speed: 20, rampRate: 0.05, duration: 6 });
+    expect(result.flags.frictionLimited).toBe(true);
+    expect(result.metrics.maxUtilization).toBeGreaterThan(1);
+    const index = result.telemetry.findIndex((sample) => sample.frontLimited || sample.rearLimited);
+    expect(index).toBeGreaterThan(0);
+    const first = result.telemetry[index];
+    const before = result.telemetry[index - 1];
+    expect(Math.max(first.frontUtilization, first.rearUtilization)).toBeGreaterThanOrEqual(1);
+    expect(Math.max(first.frontUtilization, first.rearUtilization)).toBeLessThan(1.02);
+    expect(Math.max(before.frontUtilization, before.rearUtilization)).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,158 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { bootModels } from "@/lib/models";
+import { getModel } from "@/lib/sim/registry";
+import { integrate, integrateRk45, type IntegratorId } from "@/lib/sim/integrators";
+
+describe("Dormand–Prince RK45", () => {
+  it("meets its tolerance on exponential decay in one large frame", () => {
+    const result = integrateRk45((y) => [-2 * y[0]], [1], 1, { rtol: 1e-8, atol: 1e-10 });
+    expect(result.y[0]).toBeCloseTo(Math.exp(-2), 7);
+    expect(result.accepted).toBeGreaterThan(1);
+    expect(result.stepSize).toBeLessThan(1);
+  });
+
+  it("shrinks the substep for a stiff mode and reports the rejections", () => {
+    const stiff = integrateRk45((y) => [-2000 * (y[0] - 1)], [0], 0.01, { rtol: 1e-6, atol: 1e-9 }, 0.01);
+    expect(stiff.y[0]).toBeCloseTo(1, 6);
+    expect(stiff.rejected).toBeGreaterThan(0);
+    expect(stiff.stepSize).toBeLessThan(0.005);
+  });
+});
+
+describe("shared integrators", () => {
+  const decayError = (method: IntegratorId, dt: number) => {
+    let y = [1];
+    for (let i = 0; i < Math.round(1 / dt); i += 1) {
+      y = integrate(method, (state) => [-state[0]], y, dt).y;
+    }
+    return Math.abs(y[0] - Math.exp(-1));
+  };
+
+  it.each([
+    ["semiImplicitEuler", 1],
+    ["heun", 2],
+    ["trbdf2", 2],
+    ["rk4", 4],
+  ] as const)("%s converges at order %i", (method, order) => {
+    const observed = Math.log2(decayError(method, 0.02) / decayError(method, 0.01));
+    expect(observed).toBeGreaterThan(order - 0.2);
+    expect(observed).toBeLessThan(order + 0.2);
+  });
+
+  it("keeps TR-BDF2 stable on a stiff decay with a step far beyond the explicit limit", () => {
+    const f = (y: number[]) => [-5000 * (y[0] - 1)];
+    let implicit = [0];
+    let explicit = [0];
+    for (let i = 0; i < 10; i += 1) {
+      implicit = integrate("trbdf2", f, implicit, 0.01).y;
+      explicit = integrate("rk4", f, explicit, 0.01).y;
+    }
+    expect(implicit[0]).toBeCloseTo(1, 6);
+    expect(Math.abs(explicit[0])).toBeGreaterThan(1e6);
+  });
+
+  it("advances states in key order for semi-implicit Euler", () => {
+    // Position picks up the velocity of the new step: x1 = dt·(v0 + dt·a).
+    const { y } = integrate("semiImplicitEuler", (state) => [1, state[0]], [0, 0], 0.1);
+    expect(y[0]).toBeCloseTo(0.1, 12);
+    expect(y[1]).toBeCloseTo(0.01, 12);
+  });
+});
+
+describe("unicycle on the shared integrators", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  it.each(["heun", "rk45", "trbdf2", "semiImplicitEuler"] as const)("%s follows the RK4 circle", (integrator) => {
+    const model = getModel("unicycle")!;
+    const endPose = (method: IntegratorId) => {
+      const params = { ...model.defaults, integrator: method } as any;
+      let state = model.init(params);
+      for (let i = 0; i < 200; i += 1) {
+        state = model.step(state, { steer: 0.05 }, params.dt, params);
+      }
+      return model.outputs(state, params);
+    };
+    const reference = endPose("rk4");
+    const candidate = endPose(integrator);
+    const tolerance = integrator === "semiImplicitEuler" ? 0.5 : 1e-3;
+    expect(Math.abs(candidate.x! - reference.x!)).toBeLessThan(tolerance);
+    expect(Math.abs(candidate.y! - reference.y!)).toBeLessThan(tolerance);
+    expect(candidate.psi).toBeCloseTo(reference.psi!, 9);
+  });
+});
+
+describe("lin2dof with RK45", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  const run = (overrides: Record<string, unknown>, duration: number) => {
+    const model = getModel("lin2dof")!;
+    const params = { ...model.defaults, ...overrides } as any;
+    let state = model.init(params);
+    const steps = Math.round(duration / params.dt);
+    for (let i = 0; i < steps; i += 1) {
+      state = model.step(state, { steer: 0.02 }, params.dt, params);
+    }
+    return { state, telemetry: model.outputs(state, params) };
+  };
+
+  it("tracks RK4 on the default car and reports its substeps", () => {
+    const reference = run({ integrator: "rk4", dt: 0.002 }, 2);
+    const adaptive = run({ integrator: "rk45", dt: 0.02 }, 2);
+    expect(adaptive.telemetry.r).toBeCloseTo(reference.telemetry.r!, 5);
+    expect(adaptive.telemetry.notes!.stepsAccepted).toBeGreaterThanOrEqual(100);
+    expect(adaptive.telemetry.notes!.stepSize).toBeGreaterThan(0);
+    expect(reference.telemetry.notes!.stepsRejected).toBe(0);
+    expect(reference.telemetry.notes!.stepSize).toBe(0.002);
+  });
+
+  it("resolves a tyre lag far shorter than the frame", () => {
+    // σ/v = 2 ms: the fixed-step integrators would drop this lag at dt = 20 ms.
+    const stiff = run({ integrator: "rk45", dt: 0.02, v: 10, relaxationLength: 0.02 }, 2);
+    const instant = run({ integrator: "rk4", dt: 0.002, v: 10 }, 2);
+    expect(stiff.telemetry.r).toBeCloseTo(instant.telemetry.r!, 3);
+    expect(stiff.telemetry.notes!.stepSize).toBeLessThan(0.02);
+    expect(stiff.telemetry.notes!.stepsAccepted).toBeGreaterThan(100);
+  });
+
+  it("keeps the tyre lag with TR-BDF2 at a fixed step", () => {
+    const implicit = run({ integrator: "trbdf2", dt: 0.01, v: 10, relaxationLength: 0.02 }, 2);
+    const adaptive = run({ integrator: "rk45", dt: 0.01, v: 10, relaxationLength: 0.02 }, 2);
+    expect(implicit.telemetry.r).toBeCloseTo(adaptive.telemetry.r!, 4);
+    expect(implicit.telemetry.notes!.stepsAccepted).toBe(200);
+  });
+});
+
+describe("every vehicle model on the shared integrators", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  const run = (modelId: string, overrides: Record<string, unknown>) => {
+    const model = getModel(modelId)!;
+    const params = { ...model.defaults, ...overrides } as any;
+    let state = model.init(params);
+    for (let i = 0; i < Math.round(1.5 / params.dt); i += 1) {
+      state = model.step(state, { steer: 0.01 }, params.dt, params);
+    }
+    return model.outputs(state, params);
+  };
+
+  it.each(["pacejka2dof", "long3dof", "twintrack", "tractortrailer", "motorcycle"])(
+    "%s opts into RK45 with step statistics and no dt clamp",
+    (modelId) => {
+      expect(getModel(modelId)!.derivatives).toBeTypeOf("function");
+      const reference = run(modelId, { integrator: "rk4", dt: 0.002 });
+      const adaptive = run(modelId, { integrator: "rk45", dt: 0.025 });
+      expect(adaptive.r).toBeCloseTo(reference.r!, 4);
+      expect(adaptive.notes!.dtClamped).toBe(0);
+      expect(adaptive.notes!.stepsAccepted).toBeGreaterThanOrEqual(60);
+      expect(adaptive.notes!.stepSize).toBeGreaterThan(0);
+      expect(run(modelId, { integrator: "heun", dt: 0.002 }).r).toBeCloseTo(reference.r!, 4);
+    }
+  );
+});
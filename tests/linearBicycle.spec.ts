@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+
+import { Lin2DOF } from "@/lib/models/lin2dof";
+import { createVehicleParameters, createVehicleState, stepBicycleModel } from "@/lib/physics";
+import { defaultSandboxState } from "@/lib/stateSchema";
+import { createVehicleParams, deriveLinearBicycleCoeffs } from "@/lib/vehicle/params";
+import { computeLateralForces, computeSlipAndForces } from "@/lib/vehicle/slipAndForces";
+
+const vehicle = createVehicleParams({ m: 1500, Iz: 2250, a: 1.2, b: 1.6, Cf: 80000, Cr: 80000, mu: 1 });
+const vx = 25;
+const steer = 0.01;
+
+/** Textbook steady-state yaw rate r/δ = vx / (L + K·vx²) with K = m/L·(b/Cf − a/Cr). */
+const steadyYawRate = () => {
+  const { m, a, b, Cf, Cr, L } = vehicle;
+  const understeer = (m / L) * (b / Cf - a / Cr);
+  return (vx * steer) / (L + understeer * vx * vx);
+};
+
+describe("linear bicycle tyre sign and state-space", () => {
+  it("produces lateral force along the slip angle", () => {
+    const forces = computeLateralForces({ front: 0.02, rear: -0.01 }, { Cf: 80000, Cr: 60000 });
+    expect(forces.front).toBeCloseTo(1600, 9);
+    expect(forces.rear).toBeCloseTo(-600, 9);
+  });
+
+  it("divides the damping terms by vx", () => {
+    const coeffs = deriveLinearBicycleCoeffs(vehicle, vx);
+    const { m, Iz, a, b, Cf, Cr } = vehicle;
+    expect(coeffs.a11).toBeCloseTo(-(Cf + Cr) / (m * vx), 12);
+    expect(coeffs.a12).toBeCloseTo((Cr * b - Cf * a) / (m * vx) - vx, 12);
+    expect(coeffs.a21).toBeCloseTo((Cr * b - Cf * a) / (Iz * vx), 12);
+    expect(coeffs.a22).toBeCloseTo(-(Cf * a * a + Cr * b * b) / (Iz * vx), 12);
+
+    // −A⁻¹·B·δ is the steady state the sandbox response settles to.
+    const det = coeffs.a11 * coeffs.a22 - coeffs.a12 * coeffs.a21;
+    const r = -((coeffs.a11 * coeffs.b2 - coeffs.a21 * coeffs.b1) / det) * steer;
+    expect(r).toBeCloseTo(steadyYawRate(), 9);
+  });
+
+  it("settles lin2dof on the steady-state yaw rate", () => {
+    const params = { ...Lin2DOF.defaults, v: vx, useFrictionClamp: false, processNoise: false } as any;
+    let state = Lin2DOF.init(params);
+    for (let i = 0; i < 500; i += 1) {
+      state = Lin2DOF.step(state, { steer }, 0.01, params);
+    }
+    expect(state.r).toBeGreaterThan(0);
+    expect(Math.abs(state.r - steadyYawRate()) / steadyYawRate()).toBeLessThan(1e-3);
+  });
+
+  it("turns the production slip and force helpers towards the steer", () => {
+    const { a, b, Cf, Cr } = vehicle;
+    const steered = computeSlipAndForces({ vy: 0, r: 0, vx, a, b, steer }, { Cf, Cr });
+    expect(steered.angles.front).toBeCloseTo(steer, 12);
+    expect(steered.forces.front).toBeCloseTo(Cf * steer, 9);
+    expect(steered.forces.rear).toBe(0);
+
+    // Yawing left swings the rear out to the right, so the rear tyre pushes left.
+    const yawing = computeSlipAndForces({ vy: 0, r: 0.1, vx, a, b, steer: 0 }, { Cf, Cr });
+    expect(yawing.forces.front).toBeLessThan(0);
+    expect(yawing.forces.rear).toBeCloseTo((Cr * b * 0.1) / vx, 9);
+  });
+
+  it("settles the deriveLinearBicycleCoeffs state space on a positive yaw rate", () => {
+    const coeffs = deriveLinearBicycleCoeffs(vehicle, vx);
+    let vy = 0;
+    let r = 0;
+    for (let i = 0; i < 3000; i += 1) {
+      const vyDot = coeffs.a11 * vy + coeffs.a12 * r + coeffs.b1 * steer;
+      const rDot = coeffs.a21 * vy + coeffs.a22 * r + coeffs.b2 * steer;
+      vy += vyDot * 0.001;
+      r += rDot * 0.001;
+    }
+    expect(r).toBeCloseTo(steadyYawRate(), 6);
+  });
+
+  it("gives the sandbox a positive steady yaw rate at the linear gain", () => {
+    const params = createVehicleParameters(defaultSandboxState);
+    const state = createVehicleState();
+    const speed = 20;
+    const sandboxSteer = 0.005;
+    let result = stepBicycleModel(state, { steeringAngle: sandboxSteer, speed }, params, 1 / 120);
+    for (let i = 0; i < 1200; i += 1) {
+      Object.assign(state, result.state);
+      result = stepBicycleModel(state, { steeringAngle: sandboxSteer, speed }, params, 1 / 120);
+    }
+    const { telemetry } = result;
+    expect(telemetry.frontAxleForce).toBeGreaterThan(0);
+    expect(telemetry.rearAxleForce).toBeGreaterThan(0);
+    // r/δ = vx / (L + K·vx²) with the sandbox's own gradient; roll steer moves it by a few per cent.
+    const expected = (speed * sandboxSteer) / (params.wheelbase + telemetry.understeerGradient * speed * speed);
+    expect(telemetry.yawRate).toBeGreaterThan(0);
+    expect(Math.abs(telemetry.yawRate - expected) / expected).toBeLessThan(0.1);
+  });
+});
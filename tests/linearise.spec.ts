@@ -0,0 +1,81 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { bootModels } from "@/lib/models";
+import { runStepSteerRun } from "@/lib/scenarios/canonical";
+import { vehicleParamsFromModel } from "@/lib/scenarios/canonical/common";
+import { predictBode, predictBodeFromSystem } from "@/lib/theory/frequency";
+import { lineariseModel, linearSystemForInput } from "@/lib/theory/linearise";
+import type { MatrixN } from "@/lib/theory/matrix";
+import { buildLinearSystem } from "@/lib/theory/utils";
+
+const speed = 25;
+
+const expectRelativelyClose = (actual: MatrixN, expected: MatrixN, tolerance: number) => {
+  actual.forEach((row, i) =>
+    row.forEach((value, j) => {
+      expect(Math.abs(value - expected[i][j])).toBeLessThanOrEqual(tolerance * Math.max(1, Math.abs(expected[i][j])));
+    })
+  );
+};
+
+const column = (values: number[]): MatrixN => values.map((value) => [value]);
+
+describe("numerical linearisation", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  it("recovers the bicycle state space from the lin2dof derivatives hook", () => {
+    const linearised = lineariseModel("lin2dof", { params: { v: speed } });
+    expect(linearised.method).toBe("derivatives");
+    expect(linearised.stateKeys).toEqual(["vy", "r"]);
+    const bicycle = buildLinearSystem(vehicleParamsFromModel(linearised.trim.params), speed);
+    expectRelativelyClose(linearised.A, bicycle.A, 1e-6);
+    expectRelativelyClose(linearised.B, column(bicycle.B), 1e-6);
+    expectRelativelyClose(linearised.C, bicycle.C, 1e-6);
+    expectRelativelyClose(linearised.D, column(bicycle.D), 1e-6);
+  });
+
+  it("differences one step when asked to, and keeps only the integrated states", () => {
+    const linearised = lineariseModel("lin2dof", { params: { v: speed }, method: "step" });
+    expect(linearised.method).toBe("step");
+    expect(linearised.stateKeys).toEqual(["vy", "r"]);
+    const bicycle = buildLinearSystem(vehicleParamsFromModel(linearised.trim.params), speed);
+    expectRelativelyClose(linearised.A, bicycle.A, 1e-5);
+    expectRelativelyClose(linearised.B, column(bicycle.B), 1e-5);
+  });
+
+  it("picks up the tyre-lag states", () => {
+    const params = { v: speed, relaxationLength: 0.5 };
+    const linearised = lineariseModel("lin2dof", { params });
+    expect(linearised.stateKeys).toEqual(["vy", "r", "alphaFront", "alphaRear"]);
+    const relaxed = buildLinearSystem(vehicleParamsFromModel(linearised.trim.params), speed, { relaxationLength: 0.5 });
+    expectRelativelyClose(linearised.A, relaxed.A, 1e-6);
+    expectRelativelyClose(linearised.B, column(relaxed.B), 1e-6);
+  });
+
+  it("linearises by differencing step to match the Bode prediction and the derivatives hook", () => {
+    const linearised = lineariseModel("pacejka2dof", { params: { v: speed }, method: "step" });
+    expect(linearised.method).toBe("step");
+    const freqs = [0.2, 1, 2];
+    const numerical = predictBodeFromSystem(linearSystemForInput(linearised), freqs);
+    const analytic = predictBode(speed, freqs, vehicleParamsFromModel(linearised.trim.params));
+    numerical.yawRateMag.forEach((value, i) => {
+      expect(Math.abs(value - analytic.yawRateMag[i]) / analytic.yawRateMag[i]).toBeLessThan(0.01);
+    });
+
+    const hooked = lineariseModel("pacejka2dof", { params: { v: speed } });
+    expect(hooked.method).toBe("derivatives");
+    const fromHook = predictBodeFromSystem(linearSystemForInput(hooked), freqs);
+    fromHook.yawRateMag.forEach((value, i) => {
+      expect(Math.abs(value - numerical.yawRateMag[i]) / numerical.yawRateMag[i]).toBeLessThan(0.01);
+    });
+  });
+
+  it("gives the step-steer test a theory overlay for models without bicycle theory", () => {
+    const result = runStepSteerRun({ speed: 20, delta: 0.01, duration: 6, modelId: "tractortrailer" });
+    expect(result.flags.linearisedTheory).toBe(true);
+    expect(result.metrics.finalError).toBeLessThan(0.05);
+    expect(runStepSteerRun({ speed: 20, delta: 0.01, duration: 3 }).flags.linearisedTheory).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { bootModels } from "@/lib/models";
+import { getModel } from "@/lib/sim/registry";
+import { loadSensitiveAxleStiffness } from "@/lib/vehicle/tyres";
+
+const steady = (overrides: Record<string, unknown>, steer: number) => {
+  const model = getModel("lin2dof")!;
+  const params = { ...model.defaults, v: 20, ...overrides } as any;
+  let state = model.init(params);
+  for (let i = 0; i < 800; i += 1) {
+    state = model.step(state, { steer }, params.dt, params);
+  }
+  return model.outputs(state, params);
+};
+
+describe("degressive tyre", () => {
+  it("loses axle stiffness with the square of the load transfer", () => {
+    const nominal = 3000;
+    expect(loadSensitiveAxleStiffness(80000, { left: nominal, right: nominal }, nominal, 0.3)).toBeCloseTo(80000, 6);
+    const d = 0.5;
+    const shifted = loadSensitiveAxleStiffness(
+      80000,
+      { left: nominal * (1 - d), right: nominal * (1 + d) },
+      nominal,
+      0.3
+    );
+    expect(shifted).toBeCloseTo(80000 * (1 - 0.3 * d * d), 6);
+    expect(loadSensitiveAxleStiffness(80000, { left: 0, right: 2 * nominal }, nominal, 0)).toBeCloseTo(80000, 6);
+  });
+});
+
+describe("lin2dof load-dependent stiffness", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  it("is off by default and leaves the linear range alone", () => {
+    const base = steady({}, 0.03);
+    expect(base.notes!.CfEffective).toBe(80000);
+    const small = steady({ loadSensitiveStiffness: true }, 0.001);
+    expect(small.r).toBeCloseTo(steady({}, 0.001).r, 5);
+  });
+
+  it("moving roll stiffness forward adds understeer", () => {
+    const steer = 0.04;
+    const frontHeavy = steady({ loadSensitiveStiffness: true, frontRollShare: 0.75 }, steer);
+    const rearHeavy = steady({ loadSensitiveStiffness: true, frontRollShare: 0.35 }, steer);
+    expect(frontHeavy.notes!.CfEffective).toBeLessThan(rearHeavy.notes!.CfEffective);
+    expect(frontHeavy.notes!.CrEffective).toBeGreaterThan(rearHeavy.notes!.CrEffective);
+    expect(frontHeavy.r).toBeLessThan(rearHeavy.r);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+
+import { Long3DOF } from "@/lib/models/long3dof";
+import { brakeInTurn } from "@/lib/scenarios";
+import type { SimInputs } from "@/lib/sim/core";
+
+const run = (input: (t: number) => SimInputs, duration: number, overrides: Record<string, unknown> = {}) => {
+  const params = { ...Long3DOF.defaults, processNoise: false, ...overrides } as any;
+  const dt = 0.01;
+  let state = Long3DOF.init(params);
+  const speeds: number[] = [];
+  for (let i = 0; i < Math.round(duration / dt); i += 1) {
+    state = Long3DOF.step(state, input(i * dt), dt, params);
+    speeds.push(state.vx);
+  }
+  return { state, speeds, params };
+};
+
+describe("long3dof model", () => {
+  it("coasts down under drag and rolling resistance", () => {
+    const { state } = run(() => ({ steer: 0 }), 5);
+    expect(state.vx).toBeLessThan(25);
+    expect(state.vx).toBeGreaterThan(20);
+  });
+
+  it("accelerates under throttle", () => {
+    const { state } = run(() => ({ steer: 0, throttle: 1 }), 3);
+    expect(state.vx).toBeGreaterThan(30);
+  });
+
+  it("brakes to a stop without reversing", () => {
+    const { state, speeds } = run(() => ({ steer: 0, brake: 1 }), 6);
+    expect(Math.min(...speeds)).toBeGreaterThanOrEqual(0);
+    expect(state.vx).toBeLessThan(0.5);
+  });
+
+  it("reports speed in telemetry during brake in turn", () => {
+    const sampler = brakeInTurn({ R: 50, tBrake: 1, brake: 0.4 });
+    const params = { ...Long3DOF.defaults, v: 15 } as any;
+    const { state } = run((t) => sampler({ t, modelId: "long3dof", params }), 3, { v: 15 });
+    const telemetry = Long3DOF.outputs(state, params);
+    expect(telemetry.vx).toBeLessThan(15);
+    expect(telemetry.notes?.FxFront).toBeLessThan(0);
+    expect(Number.isFinite(telemetry.r ?? NaN)).toBe(true);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  eigenvaluesN,
+  frequencyResponseN,
+  invertN,
+  matrixExponentialN,
+  matrixLogN,
+  multiplyMatricesN,
+  solveLinearN,
+  stepResponseN,
+  type MatrixN,
+} from "@/lib/theory/matrix";
+import { predictBode } from "@/lib/theory/frequency";
+import { createStepSteerTheory } from "@/lib/theory/stepSteer";
+import { buildStateSpace } from "@/lib/theory/utils";
+import { createVehicleParams } from "@/lib/vehicle/params";
+
+const vehicle = createVehicleParams({ m: 1500, Iz: 2250, a: 1.2, b: 1.6, Cf: 80000, Cr: 80000, mu: 1 });
+
+const expectMatrixClose = (actual: MatrixN, expected: MatrixN, digits: number) => {
+  actual.forEach((row, i) => row.forEach((value, j) => expect(value).toBeCloseTo(expected[i][j], digits)));
+};
+
+/** Companion matrix of sⁿ + c[0]·sⁿ⁻¹ + … + c[n−1]. */
+const companion = (c: number[]): MatrixN =>
+  c.map((_, i) => c.map((__, j) => (i === 0 ? -c[j] : i === j + 1 ? 1 : 0)));
+
+describe("n×n matrix module", () => {
+  it("solves and inverts with pivoting", () => {
+    const m = [
+      [0, 2, 1],
+      [1, 1, 0],
+      [3, 0, 1],
+    ];
+    const x = solveLinearN(m, [5, 3, 4]);
+    expect(x[0]).toBeCloseTo(1, 12);
+    expect(x[1]).toBeCloseTo(2, 12);
+    expect(x[2]).toBeCloseTo(1, 12);
+    expectMatrixClose(multiplyMatricesN(m, invertN(m)), [[1, 0, 0], [0, 1, 0], [0, 0, 1]], 12);
+    expect(() => solveLinearN([[1, 2], [2, 4]], [1, 1])).toThrow(/singular/);
+  });
+
+  it("finds real and complex eigenvalues", () => {
+    // (s + 1)(s + 2)(s² + 2s + 5) = s⁴ + 5s³ + 13s² + 19s + 10
+    const roots = eigenvaluesN(companion([5, 13, 19, 10]));
+    const real = roots.filter((root) => root.im === 0).map((root) => root.re).sort((p, q) => p - q);
+    const oscillatory = roots.filter((root) => root.im !== 0).sort((p, q) => p.im - q.im);
+    expect(real).toHaveLength(2);
+    expect(real[0]).toBeCloseTo(-2, 9);
+    expect(real[1]).toBeCloseTo(-1, 9);
+    expect(oscillatory[0].re).toBeCloseTo(-1, 9);
+    expect(oscillatory[0].im).toBeCloseTo(-2, 9);
+    expect(oscillatory[1].im).toBeCloseTo(2, 9);
+  });
+
+  it("matches the closed-form exponential of a damped oscillator", () => {
+    // ẍ + 2ẋ + 5x = 0: poles −1 ± 2j.
+    const A = [
+      [0, 1],
+      [-5, -2],
+    ];
+    const t = 1.7;
+    const e = Math.exp(-t);
+    const c = Math.cos(2 * t);
+    const s = Math.sin(2 * t) / 2;
+    expectMatrixClose(
+      matrixExponentialN(A, t),
+      [
+        [e * (c + s), e * s],
+        [-5 * e * s, e * (c - s)],
+      ],
+      10
+    );
+  });
+
+  it("inverts the exponential with the matrix logarithm", () => {
+    const A = [
+      [-4, -20],
+      [0.6, -6],
+    ];
+    expectMatrixClose(matrixLogN(matrixExponentialN(A, 0.01)), A.map((row) => row.map((value) => value * 0.01)), 12);
+    expectMatrixClose(matrixLogN(matrixExponentialN(A, 0.3)), A.map((row) => row.map((value) => value * 0.3)), 9);
+  });
+
+  it("gives a first-order lag its textbook response", () => {
+    const A = [[-2]];
+    const B = [2];
+    const C = [[1]];
+    const D = [0];
+    const [response] = frequencyResponseN(A, B, C, D, 2);
+    // 2/(jω + 2) at ω = 2 is (1 − j)/2.
+    expect(response.re).toBeCloseTo(0.5, 12);
+    expect(response.im).toBeCloseTo(-0.5, 12);
+    const [step] = stepResponseN(A, B, C, D, [-1, 0, 0.5, 10]);
+    expect(step[0]).toBe(0);
+    expect(step[1]).toBeCloseTo(0, 12);
+    expect(step[2]).toBeCloseTo(1 - Math.exp(-1), 10);
+    expect(step[3]).toBeCloseTo(1, 8);
+  });
+});
+
+describe("bicycle theory on the n×n module", () => {
+  it("Bode prediction matches the 2-state transfer function", () => {
+    const { A, B } = buildStateSpace(vehicle, 25);
+    const omega = 2 * Math.PI * 1.5;
+    // r(jω)/δ = (jω·b2 + a21·b1 − a11·b2) / ((jω)² − tr·jω + det)
+    const tr = A[0][0] + A[1][1];
+    const det = A[0][0] * A[1][1] - A[0][1] * A[1][0];
+    const numRe = A[1][0] * B[0] - A[0][0] * B[1];
+    const numIm = omega * B[1];
+    const denRe = det - omega * omega;
+    const denIm = -tr * omega;
+    const expected = Math.hypot(numRe, numIm) / Math.hypot(denRe, denIm);
+    expect(predictBode(25, [1.5], vehicle).yawRateMag[0]).toBeCloseTo(expected, 9);
+  });
+
+  it("step-steer modal values come from the eigenvalues of the (vy, r) mode", () => {
+    const { A } = buildStateSpace(vehicle, 25);
+    const det = A[0][0] * A[1][1] - A[0][1] * A[1][0];
+    const theory = createStepSteerTheory(vehicle, 25);
+    expect(theory.omegaN).toBeCloseTo(Math.sqrt(det), 9);
+    expect(theory.zeta).toBeCloseTo(-(A[0][0] + A[1][1]) / (2 * Math.sqrt(det)), 9);
+    const [late] = theory.stepCurves([20], 0.01).yawRate;
+    expect(late).toBeCloseTo(theory.gainRDelta * 0.01, 9);
+  });
+});
@@ -0,0 +1,67 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { bootModels } from "@/lib/models";
+import { createScenario } from "@/lib/scenarios";
+import { getModel } from "@/lib/sim/registry";
+import type { ModelState } from "@/lib/sim/core";
+
+const deg = (value: number) => (value * Math.PI) / 180;
+
+const runScenario = (overrides: Record<string, unknown>, scenario: Record<string, unknown>, duration: number) => {
+  const model = getModel("motorcycle");
+  if (!model) throw new Error("motorcycle not registered");
+  const params = { ...model.defaults, ...overrides };
+  const sampler = createScenario("step-steer", scenario);
+  const dt = 0.005;
+  let state = model.init(params);
+  const history: ModelState[] = [];
+  for (let i = 0; i < Math.round(duration / dt); i += 1) {
+    state = model.step(state, sampler({ t: i * dt, modelId: model.id, params }), dt, params);
+    history.push(state);
+  }
+  return { model, params, final: state, history };
+};
+
+describe("motorcycle lean-steer model", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  it.each([8, 20, 30])("rider settles into the steady lean for the requested turn at %d m/s", (v) => {
+    const { final } = runScenario({ v }, { deltaDeg: 0.2, tStep: 0.5 }, 14);
+    const L = 0.75 + 0.7;
+    const request = deg(0.2);
+    const expectedLean = Math.atan((v * v * Math.tan(request)) / (L * 9.81));
+    expect(final.capsized).toBe(0);
+    expect(final.phi).toBeCloseTo(expectedLean, 2);
+    expect(final.r).toBeGreaterThan(0);
+    // Steady turn: tan φ ≈ a_y / g.
+    expect(Math.tan(final.phi)).toBeCloseTo(final.ay / 9.81, 2);
+  });
+
+  it("counter-steers away from the turn before leaning into it", () => {
+    const { history } = runScenario({ v: 20 }, { deltaDeg: 0.2, tStep: 0.5 }, 3);
+    const afterStep = history.slice(Math.round(0.5 / 0.005));
+    const firstSteer = afterStep.find((state) => Math.abs(state.steerAngle) > 1e-5);
+    expect(firstSteer?.steerAngle).toBeLessThan(0);
+    // The contact patches run out from under the bike, which then leans left into the turn.
+    expect(Math.min(...afterStep.map((state) => state.r))).toBeLessThan(0);
+    expect(afterStep[afterStep.length - 1].phi).toBeGreaterThan(deg(5));
+  });
+
+  it("capsizes without a rider and latches on the ground", () => {
+    const { final, history } = runScenario({ v: 15, riderControl: false }, { deltaDeg: 0.2, tStep: 0.5 }, 6);
+    expect(history.some((state) => state.capsized > 0)).toBe(true);
+    expect(final.capsized).toBe(1);
+    // A fixed left bar angle throws the bike over to the right.
+    expect(final.phi).toBeLessThan(0);
+  });
+
+  it("exposes lean as telemetry and motorcycle geometry", () => {
+    const { model, params, final } = runScenario({ v: 20 }, { deltaDeg: 0.2, tStep: 0.5 }, 4);
+    const telemetry = model.outputs(final, params);
+    expect(telemetry.phi).toBe(final.phi);
+    expect(telemetry.notes?.leanDeg).toBeCloseTo((final.phi * 180) / Math.PI, 9);
+    expect(model.geometry?.(params).type).toBe("motorcycle");
+  });
+});
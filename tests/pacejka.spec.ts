@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+
+import { Pacejka2DOF } from "@/lib/models/pacejka2dof";
+import {
+  magicFormulaCorneringStiffness,
+  magicFormulaLateralForce,
+  magicFormulaPeakSlip,
+} from "@/lib/vehicle/tyres";
+
+const coeffs = { B: 8.5, C: 1.5, E: -1 };
+const Fz = 6000;
+
+describe("magic formula tyre", () => {
+  it("matches B*C*D at small slip", () => {
+    const alpha = 1e-4;
+    const slope = magicFormulaLateralForce(alpha, coeffs, Fz, 1) / alpha;
+    const expected = magicFormulaCorneringStiffness(coeffs, Fz, 1);
+    expect(Math.abs(slope - expected) / expected).toBeLessThan(1e-3);
+  });
+
+  it("peaks at mu*Fz and falls away beyond the peak slip", () => {
+    const peak = magicFormulaPeakSlip(coeffs);
+    const atPeak = magicFormulaLateralForce(peak, coeffs, Fz, 1);
+    expect(atPeak).toBeCloseTo(Fz, 0);
+    expect(magicFormulaLateralForce(peak * 3, coeffs, Fz, 1)).toBeLessThan(atPeak);
+    expect(magicFormulaLateralForce(-peak, coeffs, Fz, 1)).toBeCloseTo(-atPeak, 6);
+  });
+});
+
+describe("pacejka2dof model", () => {
+  it("stays at rest with zero steer", () => {
+    const params = { ...Pacejka2DOF.defaults, processNoise: false } as any;
+    let state = Pacejka2DOF.init(params);
+    for (let i = 0; i < 300; i += 1) {
+      state = Pacejka2DOF.step(state, { steer: 0 }, 0.01, params);
+    }
+    expect(Math.abs(state.r)).toBeLessThan(1e-9);
+    expect(Math.abs(state.vy)).toBeLessThan(1e-9);
+  });
+
+  it("saturates axle utilisation under a large step steer", () => {
+    const params = { ...Pacejka2DOF.defaults, processNoise: false, mu: 0.6 } as any;
+    let state = Pacejka2DOF.init(params);
+    for (let i = 0; i < 300; i += 1) {
+      state = Pacejka2DOF.step(state, { steer: 0.15 }, 0.01, params);
+    }
+    const notes = Pacejka2DOF.outputs(state, params).notes ?? {};
+    expect(Number.isFinite(state.r)).toBe(true);
+    expect(notes.frontLimited + notes.rearLimited).toBeGreaterThan(0);
+    expect(notes.frontUtilization).toBeLessThanOrEqual(1 + 1e-9);
+    expect(notes.rearUtilization).toBeLessThanOrEqual(1 + 1e-9);
+  });
+});
@@ -0,0 +1,82 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { bootModels } from "@/lib/models";
+import { runFrequencyRun, runStepSteerRun } from "@/lib/scenarios/canonical";
+import { predictBode } from "@/lib/theory/frequency";
+import { createStepSteerTheory } from "@/lib/theory/stepSteer";
+import { createVehicleParams } from "@/lib/vehicle/params";
+
+const vehicle = createVehicleParams({
+  m: 1500,
+  Iz: 2250,
+  a: 1.2,
+  b: 1.6,
+  Cf: 80000,
+  Cr: 80000,
+  mu: 1,
+});
+
+describe("tyre relaxation length", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  it("zero relaxation length leaves the theory unchanged", () => {
+    const freqs = [0.5, 1, 2];
+    const base = predictBode(20, freqs, vehicle);
+    const lagged = predictBode(20, freqs, vehicle, { relaxationLength: 0 });
+    expect(lagged.yawRateMag).toEqual(base.yawRateMag);
+
+    const times = [0, 0.2, 0.5, 1];
+    const delta = 0.02;
+    const step = createStepSteerTheory(vehicle, 20).stepCurves(times, delta);
+    const stepLagged = createStepSteerTheory(vehicle, 20, { relaxationLength: 0 }).stepCurves(times, delta);
+    expect(stepLagged.yawRate).toEqual(step.yawRate);
+  });
+
+  it("lag adds phase lag and cuts yaw gain well above the yaw mode", () => {
+    const freqs = [0.05, 3, 6];
+    const base = predictBode(20, freqs, vehicle);
+    const lagged = predictBode(20, freqs, vehicle, { relaxationLength: 0.6 });
+    expect(lagged.yawRateMag[0]).toBeCloseTo(base.yawRateMag[0], 2);
+    expect(lagged.yawRatePhase[1]).toBeLessThan(base.yawRatePhase[1]);
+    expect(lagged.yawRateMag[2]).toBeLessThan(base.yawRateMag[2]);
+  });
+
+  it("augmented step theory converges to the same steady yaw gain", () => {
+    const delta = 0.02;
+    const theory = createStepSteerTheory(vehicle, 20, { relaxationLength: 0.6 });
+    const [early, late] = theory.stepCurves([0.05, 10], delta).yawRate;
+    const instant = createStepSteerTheory(vehicle, 20).stepCurves([0.05], delta).yawRate[0];
+    expect(late).toBeCloseTo(theory.gainRDelta * delta, 6);
+    expect(early).toBeLessThan(instant);
+  });
+
+  it("lin2dof step response follows the augmented theory", () => {
+    const result = runStepSteerRun({
+      speed: 20,
+      delta: 2 * (Math.PI / 180),
+      duration: 4,
+      dt: 0.005,
+      modelId: "lin2dof",
+      modelParams: { v: 20, dt: 0.005, relaxationLength: 0.6 },
+    });
+    const peak = Math.max(...result.theory.yawRate.map(Math.abs));
+    const worst = Math.max(
+      ...result.telemetry.map((sample, i) => Math.abs(sample.yawRate - result.theory.yawRate[i]))
+    );
+    expect(worst / peak).toBeLessThan(0.03);
+  });
+
+  it("lin2dof frequency sweep follows the augmented Bode prediction", () => {
+    const result = runFrequencyRun({
+      speed: 20,
+      freqs: [2],
+      dt: 0.005,
+      modelId: "lin2dof",
+      modelParams: { v: 20, dt: 0.005, relaxationLength: 0.6 },
+    });
+    const run = result.runs[0];
+    expect(Math.abs(run.yawGain - result.theory.yawRateMag[0]) / result.theory.yawRateMag[0]).toBeLessThan(0.05);
+  });
+});
@@ -0,0 +1,94 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { createVehicleParameters, createVehicleState, stepBicycleModel } from "@/lib/physics";
+import { bootModels } from "@/lib/models";
+import { getModel } from "@/lib/sim/registry";
+import { defaultSandboxState } from "@/lib/stateSchema";
+import { createRoadDescription, muAt, roadGravity } from "@/lib/vehicle/road";
+
+const G = 9.81;
+
+const run = (modelId: string, overrides: Record<string, unknown>, inputs: Record<string, number>, duration: number) => {
+  const model = getModel(modelId)!;
+  const params = { ...model.defaults, ...overrides } as any;
+  let state = model.init(params);
+  const steps = Math.round(duration / params.dt);
+  for (let i = 0; i < steps; i += 1) {
+    state = model.step(state, inputs, params.dt, params);
+  }
+  return model.outputs(state, params);
+};
+
+describe("road description", () => {
+  it("places split-mu on the left and a wet patch across the road", () => {
+    const split = createRoadDescription({ muLayout: "splitMu", muLow: 0.2, muZoneStart: 5 });
+    expect(muAt(split, 10, 0.8, 1)).toBe(0.2);
+    expect(muAt(split, 10, -0.8, 1)).toBe(1);
+    expect(muAt(split, 4, 0.8, 1)).toBe(1);
+
+    const patch = createRoadDescription({ muLayout: "wetPatch", muLow: 0.4, muZoneStart: 10, muZoneLength: 5 });
+    expect(muAt(patch, 12, -3, 1)).toBe(0.4);
+    expect(muAt(patch, 15, 0, 1)).toBe(1);
+    expect(muAt(createRoadDescription(), 12, 0, 0.9)).toBe(0.9);
+  });
+
+  it("splits gravity into the road plane", () => {
+    const road = createRoadDescription({ bankDeg: 10, gradeDeg: 5 });
+    const gravity = roadGravity(road, G);
+    expect(gravity.ay).toBeCloseTo(G * Math.sin((10 * Math.PI) / 180) * Math.cos((5 * Math.PI) / 180), 9);
+    expect(gravity.ax).toBeCloseTo(-G * Math.sin((5 * Math.PI) / 180), 9);
+    expect(gravity.normalScale).toBeCloseTo(Math.cos((10 * Math.PI) / 180) * Math.cos((5 * Math.PI) / 180), 9);
+  });
+});
+
+describe("models on a non-flat road", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  it("uphill grade slows the coasting car by g·sin(grade)", () => {
+    const coast = { steer: 0, throttle: 0, brake: 0 };
+    const flat = run("long3dof", { v: 20 }, coast, 2);
+    const uphill = run("long3dof", { v: 20, gradeDeg: 4 }, coast, 2);
+    const extraDecel = (flat.vx - uphill.vx) / 2;
+    expect(extraDecel).toBeGreaterThan(G * Math.sin((4 * Math.PI) / 180) * 0.95);
+    expect(extraDecel).toBeLessThan(G * Math.sin((4 * Math.PI) / 180) * 1.05);
+  });
+
+  it("bank lets the tyres carry less of the cornering load", () => {
+    const steer = { steer: 0.03 };
+    const flat = run("lin2dof", { v: 20 }, steer, 4);
+    const banked = run("lin2dof", { v: 20, bankDeg: 8 }, steer, 4);
+    // Gravity pulls the car into the turn, so it turns tighter while the felt ay is lower.
+    expect(banked.r).toBeGreaterThan(flat.r);
+    expect(banked.r * 20 - banked.ay).toBeCloseTo(G * Math.sin((8 * Math.PI) / 180), 1);
+  });
+
+  it("split-mu braking yaws the car towards the high-mu side", () => {
+    const brake = { steer: 0, throttle: 0, brake: 1 };
+    // Short enough that the unopposed yaw has not yet carried the left wheels off the low-mu side.
+    const uniform = run("twintrack", { v: 20 }, brake, 0.5);
+    const split = run("twintrack", { v: 20, muLayout: "splitMu", muLow: 0.2, muZoneStart: 0 }, brake, 0.5);
+    expect(Math.abs(uniform.r)).toBeLessThan(1e-6);
+    expect(split.notes!.muFrontLeft).toBeCloseTo(0.2, 9);
+    expect(split.notes!.muFrontRight).toBeCloseTo(1, 9);
+    expect(split.r).toBeLessThan(-0.05);
+    expect(split.vx).toBeGreaterThan(uniform.vx);
+  });
+});
+
+describe("sandbox road", () => {
+  it("crown banks the sandbox road and pushes the car downhill", () => {
+    const drift = (visualCrownDeg: number) => {
+      const params = createVehicleParameters({ ...defaultSandboxState, visualCrownDeg });
+      const state = createVehicleState();
+      for (let i = 0; i < 120; i += 1) {
+        Object.assign(state, stepBicycleModel(state, { steeringAngle: 0, speed: 20 }, params, 1 / 60).state);
+      }
+      return state;
+    };
+    expect(Math.abs(drift(0).y)).toBeLessThan(1e-9);
+    expect(drift(3).y).toBeGreaterThan(0.05);
+    expect(drift(-3).y).toBeLessThan(-0.05);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createVehicleParameters,
+  createVehicleState,
+  stepBicycleModel,
+  type VehicleTelemetry,
+} from "@/lib/physics";
+import { defaultSandboxState, type SandboxState } from "@/lib/stateSchema";
+
+const settle = (overrides: Partial<SandboxState>, steeringAngle = 0.03): VehicleTelemetry => {
+  const params = createVehicleParameters({ ...defaultSandboxState, ...overrides });
+  const state = createVehicleState();
+  let telemetry: VehicleTelemetry | null = null;
+  for (let i = 0; i < 600; i += 1) {
+    const result = stepBicycleModel(state, { steeringAngle, speed: 20 }, params, 1 / 60);
+    Object.assign(state, result.state);
+    telemetry = result.telemetry;
+  }
+  return telemetry as VehicleTelemetry;
+};
+
+describe("sandbox yaw-roll model", () => {
+  it("rolls outward in a left turn and settles", () => {
+    const telemetry = settle({});
+    expect(telemetry.rollAngle).toBeGreaterThan(0);
+    expect(Math.abs(telemetry.rollRate)).toBeLessThan(1e-3);
+  });
+
+  it("rolls less with stiffer springs", () => {
+    const soft = settle({ springRate: 30 });
+    const stiff = settle({ springRate: 150 });
+    expect(stiff.rollAngle).toBeLessThan(soft.rollAngle);
+  });
+
+  it("shifts balance towards understeer with a front-biased anti-roll bar", () => {
+    const front = settle({ antiRoll: 1, springRate: 30 }, 0.06);
+    const rear = settle({ antiRoll: 0, springRate: 30 }, 0.06);
+    expect(front.frontLoadTransfer).toBeGreaterThan(rear.frontLoadTransfer);
+    expect(front.yawRate).toBeLessThan(rear.yawRate);
+  });
+
+  it("stays upright without steering", () => {
+    const telemetry = settle({ camber: -2 }, 0);
+    expect(telemetry.rollAngle).toBe(0);
+    expect(telemetry.yawRate).toBe(0);
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { bootModels } from "@/lib/models";
+import type { SimTickMessage, SimWorkerResponse } from "@/lib/sim/messages";
+import { SimRuntime } from "@/lib/sim/runtime";
+import { FixedStepScheduler } from "@/lib/sim/scheduler";
+
+describe("FixedStepScheduler", () => {
+  it("keeps dt fixed and runs more steps per frame when fast-forwarding", () => {
+    const scheduler = new FixedStepScheduler({ dt: 0.01, speedMultiplier: 4 });
+    expect(scheduler.advance(20)).toBe(8);
+    scheduler.setSpeed(1);
+    expect(scheduler.advance(15)).toBe(1);
+    // The 5 ms left over from the previous frame carries into this one.
+    expect(scheduler.advance(5)).toBe(1);
+    expect(scheduler.stats.droppedFrames).toBe(0);
+  });
+
+  it("measures the real-time factor over its window", () => {
+    const scheduler = new FixedStepScheduler({ dt: 0.01, speedMultiplier: 2, statsWindow: 0.5 });
+    for (let i = 0; i < 50; i += 1) scheduler.advance(10);
+    expect(scheduler.stats.realTimeFactor).toBeCloseTo(2, 9);
+  });
+
+  it("drops the backlog of a stalled frame and counts it", () => {
+    const scheduler = new FixedStepScheduler({ dt: 0.01, maxFrameTime: 0.1 });
+    expect(scheduler.advance(5000)).toBe(10);
+    expect(scheduler.stats.droppedFrames).toBe(1);
+    expect(scheduler.advance(10)).toBe(1);
+  });
+});
+
+describe("SimRuntime", () => {
+  let messages: SimWorkerResponse[];
+  let runtime: SimRuntime;
+
+  const ticks = () => messages.filter((message): message is SimTickMessage => message.type === "tick");
+
+  beforeAll(() => {
+    bootModels();
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    messages = [];
+    runtime = new SimRuntime({ emit: (message) => messages.push(message), throttleMs: 0 });
+  });
+
+  afterEach(() => {
+    runtime.dispose();
+    vi.useRealTimers();
+  });
+
+  const start = (params: Record<string, unknown> = {}) =>
+    runtime.handle({ type: "start", modelId: "lin2dof", params, scenarioId: "step-steer", seed: 3, dt: 0.01 });
+
+  it("emits the initial state on start and steps on its own timer", () => {
+    start();
+    expect(ticks()).toHaveLength(1);
+    expect(ticks()[0].t).toBe(0);
+    expect(runtime.isRunning).toBe(true);
+
+    vi.advanceTimersByTime(160);
+    expect(runtime.time).toBeCloseTo(0.16, 9);
+    expect(ticks().length).toBeGreaterThan(1);
+    expect(ticks()[ticks().length - 1].timing.substeps).toBeGreaterThan(0);
+  });
+
+  it("gives the same trajectory at 4x as at 1x", () => {
+    const runAt = (speedMultiplier: number, wallMs: number) => {
+      const output: SimWorkerResponse[] = [];
+      const sim = new SimRuntime({ emit: (message) => output.push(message), throttleMs: 0 });
+      sim.handle({
+        type: "start",
+        modelId: "lin2dof",
+        params: { processNoise: true },
+        scenarioId: "lane-change",
+        seed: 9,
+        dt: 0.01,
+        speedMultiplier,
+      });
+      vi.advanceTimersByTime(wallMs);
+      sim.handle({ type: "pause" });
+      // Line both runs up on the same step count before comparing.
+      while (Math.round(sim.time / 0.01) < 150) sim.step();
+      sim.dispose();
+      return output.filter((message): message is SimTickMessage => message.type === "tick").pop()!;
+    };
+    const normal = runAt(1, 1000);
+    const fast = runAt(4, 250);
+    expect(fast.t).toBe(normal.t);
+    expect(fast.state).toEqual(normal.state);
+  });
+
+  it("stops on pause and replays the same noisy run after reset", () => {
+    start({ processNoise: true, noiseStd: 0.5 });
+    runtime.handle({ type: "pause" });
+    expect(messages[messages.length - 1]).toEqual({ type: "done", reason: "paused" });
+    expect(runtime.isRunning).toBe(false);
+
+    const run = () => {
+      for (let i = 0; i < 200; i += 1) runtime.step();
+      return ticks()[ticks().length - 1].telemetry;
+    };
+    const first = run();
+    runtime.handle({ type: "reset" });
+    expect(runtime.time).toBe(0);
+    expect(run()).toEqual(first);
+  });
+
+  it("applies parameter updates to the running model", () => {
+    start();
+    runtime.handle({ type: "pause" });
+    runtime.handle({ type: "updateParams", params: { v: 5 } });
+    runtime.step();
+    expect(ticks()[ticks().length - 1].telemetry.vx).toBeCloseTo(5, 6);
+  });
+
+  it("reports errors as messages instead of throwing", () => {
+    runtime.handle({ type: "start", modelId: "missing", params: {}, scenarioId: "step-steer" });
+    expect(messages).toEqual([{ type: "error", message: "Model not registered: missing" }]);
+  });
+});
@@ -0,0 +1,85 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { bootModels } from "@/lib/models";
+import { runFrequencyRun, runStepSteerRun } from "@/lib/scenarios/canonical";
+import { runSimulation } from "@/lib/scenarios/canonical/common";
+import {
+  analyseStability,
+  computeHandlingSpeeds,
+  isStableSpectrum,
+  modelEigenvalues,
+  sweepStability,
+} from "@/lib/theory/stability";
+import { createVehicleParams } from "@/lib/vehicle/params";
+
+const understeering = createVehicleParams({ m: 1500, Iz: 2250, a: 1.2, b: 1.6, Cf: 80000, Cr: 80000, mu: 1 });
+const oversteering = createVehicleParams({ m: 1500, Iz: 2250, a: 1.2, b: 1.6, Cf: 80000, Cr: 45000, mu: 1 });
+
+describe("stability against speed", () => {
+  it("puts the characteristic speed at the peak yaw-rate gain of an understeering car", () => {
+    const speeds = computeHandlingSpeeds(understeering);
+    expect(speeds.understeerGradient).toBeGreaterThan(0);
+    expect(speeds.criticalSpeed).toBeNull();
+    const vch = speeds.characteristicSpeed!;
+    // r/δ = v/(L + K·v²) is largest at √(L/K).
+    const gain = (v: number) => v / (understeering.L + speeds.understeerGradient * v * v);
+    expect(gain(vch)).toBeGreaterThan(gain(vch * 0.9));
+    expect(gain(vch)).toBeGreaterThan(gain(vch * 1.1));
+    expect(sweepStability(understeering, [5, 20, 60, 100]).points.every((point) => point.stable)).toBe(true);
+  });
+
+  it("loses stability above the critical speed of an oversteering car", () => {
+    const { criticalSpeed, characteristicSpeed } = computeHandlingSpeeds(oversteering);
+    expect(characteristicSpeed).toBeNull();
+    expect(criticalSpeed).not.toBeNull();
+    expect(analyseStability(oversteering, criticalSpeed! * 0.95).stable).toBe(true);
+    const above = analyseStability(oversteering, criticalSpeed! * 1.05);
+    expect(above.stable).toBe(false);
+    // The divergent pole is real: the car spins rather than oscillates.
+    expect(above.eigenvalues.some((lambda) => lambda.re > 0 && lambda.im === 0)).toBe(true);
+  });
+
+  it("reports the damping of the yaw mode falling with speed", () => {
+    const [slow, fast] = sweepStability(understeering, [10, 40]).points;
+    expect(fast.zeta).toBeLessThan(slow.zeta);
+    expect(fast.omegaN).toBeLessThan(slow.omegaN);
+  });
+});
+
+describe("model stability at launch", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  it("finds the divergent pole in a registered model above its critical speed", () => {
+    expect(isStableSpectrum(modelEigenvalues("lin2dof", { v: 40 }))).toBe(true);
+    expect(isStableSpectrum(modelEigenvalues("lin2dof", { v: 40, Cr: 30000 }))).toBe(false);
+    expect(isStableSpectrum(modelEigenvalues("motorcycle", { v: 10, riderControl: false }))).toBe(false);
+  });
+
+  it("flags canonical runs launched in an unstable configuration", () => {
+    const stable = runStepSteerRun({ speed: 30, delta: 0.005, duration: 2 });
+    expect(stable.flags.unstable).toBe(false);
+    const unstable = runStepSteerRun({ speed: 30, delta: 0.005, duration: 2, modelParams: { Cr: 30000 } });
+    expect(unstable.flags.unstable).toBe(true);
+  });
+
+  it("linearises a frequency sweep once and carries the verdict across frequencies", () => {
+    const sweep = runFrequencyRun({
+      speed: 30,
+      freqs: [0.5, 1, 2],
+      cycles: 2,
+      settleCycles: 1,
+      modelParams: { Cr: 30000 },
+    });
+    expect(sweep.flags.unstable).toBe(true);
+    const unchecked = runSimulation({
+      params: { v: 30, Cr: 30000 },
+      dt: 0.01,
+      duration: 0.1,
+      checkStability: false,
+      input: () => ({ steer: 0 }),
+    });
+    expect(unchecked.unstable).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { bootModels } from "@/lib/models";
+import { createScenario } from "@/lib/scenarios";
+import { runSimulation } from "@/lib/scenarios/canonical/common";
+import {
+  createSteeringState,
+  DEFAULT_STEERING_PARAMS,
+  resolveSteeringInputs,
+  stepSteering,
+} from "@/lib/vehicle/steering";
+
+const deg = (value: number) => (value * Math.PI) / 180;
+
+describe("steering column", () => {
+  it("is a plain ratio when stiff, frictionless and unloaded", () => {
+    const params = { ratio: 16, columnStiffness: 1e9, rackFriction: 0, pneumaticTrail: 0.03 };
+    const state = stepSteering(createSteeringState(), deg(32), 0, params);
+    expect(state.roadWheelAngle).toBeCloseTo(deg(2), 6);
+    expect(state.rackStuck).toBe(false);
+  });
+
+  it("aligning torque winds up the column and shows in the handwheel torque", () => {
+    const params = { ...DEFAULT_STEERING_PARAMS, rackFriction: 0 };
+    const Fyf = 6000;
+    const state = stepSteering(createSteeringState(), deg(40), Fyf, params);
+    const loadTorque = (params.pneumaticTrail * Fyf) / params.ratio;
+    expect(state.handwheelTorque).toBeCloseTo(loadTorque, 9);
+    expect(state.roadWheelAngle).toBeCloseTo((deg(40) - loadTorque / params.columnStiffness) / params.ratio, 9);
+  });
+
+  it("rack friction holds the wheels until the column torque breaks it free", () => {
+    const params = { ...DEFAULT_STEERING_PARAMS, rackFriction: 2 };
+    const small = stepSteering(createSteeringState(), 0.01, 0, params);
+    expect(small.rackStuck).toBe(true);
+    expect(small.roadWheelAngle).toBe(0);
+    expect(small.handwheelTorque).toBeCloseTo(params.columnStiffness * 0.01, 9);
+
+    const moved = stepSteering(small, deg(20), 0, params);
+    expect(moved.rackStuck).toBe(false);
+    expect(moved.handwheelTorque).toBeCloseTo(2, 9);
+    // Winding back inside the friction band leaves the wheels where they were.
+    const held = stepSteering(moved, deg(20) - 0.005, 0, params);
+    expect(held.roadWheelAngle).toBe(moved.roadWheelAngle);
+  });
+
+  it("passes road-wheel inputs through untouched", () => {
+    const inputs = { steer: 0.02, throttle: 0, brake: 0 };
+    const result = resolveSteeringInputs(inputs, createSteeringState(), { FyFront: 5000 });
+    expect(result.inputs).toBe(inputs);
+    expect(result.steering).toBeNull();
+  });
+});
+
+describe("handwheel scenarios", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  it("step scenario emits the handwheel angle with a rigid-column steer fallback", () => {
+    const sampler = createScenario("handwheel-step", { handwheelDeg: 48, tStep: 0.5 });
+    const inputs = sampler({ t: 1, modelId: "lin2dof", params: {} });
+    expect(inputs.handwheel).toBeCloseTo(deg(48), 12);
+    expect(inputs.steer).toBeCloseTo(deg(48) / DEFAULT_STEERING_PARAMS.ratio, 12);
+  });
+
+  it("runSimulation routes handwheel input through the column", () => {
+    const sampler = createScenario("handwheel-step", { handwheelDeg: 30, tStep: 0.2 });
+    const run = (steering?: { columnStiffness: number }) =>
+      runSimulation({
+        modelId: "lin2dof",
+        params: { v: 20 },
+        dt: 0.01,
+        duration: 4,
+        steering,
+        input: ({ t }) => sampler({ t, modelId: "lin2dof", params: {} }),
+      });
+    const compliant = run().telemetry;
+    const stiff = run({ columnStiffness: 1e6 }).telemetry;
+    const last = compliant[compliant.length - 1];
+    expect(last.handwheelAngle).toBeCloseTo(deg(30), 12);
+    expect(last.handwheelTorque).toBeGreaterThan(0);
+    // Column wind-up under aligning torque takes steer off the road wheels.
+    expect(last.steer).toBeLessThan(deg(30) / DEFAULT_STEERING_PARAMS.ratio);
+    expect(last.yawRate).toBeLessThan(stiff[stiff.length - 1].yawRate);
+  });
+});
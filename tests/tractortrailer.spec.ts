@@ -0,0 +1,97 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { bootModels } from "@/lib/models";
+import { createScenario } from "@/lib/scenarios";
+import { getModel } from "@/lib/sim/registry";
+import type { ModelState } from "@/lib/sim/core";
+import {
+  computeCombinationLoads,
+  createSwayTracker,
+  isTrailerSway,
+  updateSwayTracker,
+} from "@/lib/vehicle/articulation";
+import { createVehicleParams } from "@/lib/vehicle/params";
+
+const deg = (value: number) => (value * Math.PI) / 180;
+
+const runScenario = (scenarioId: string, overrides: Record<string, unknown>, duration: number) => {
+  const model = getModel("tractortrailer");
+  if (!model) throw new Error("tractortrailer not registered");
+  const params = { ...model.defaults, ...overrides };
+  const sampler = createScenario(scenarioId, (overrides.scenario as Record<string, unknown>) ?? {});
+  const dt = 0.01;
+  let state = model.init(params);
+  const history: ModelState[] = [];
+  for (let i = 0; i < Math.round(duration / dt); i += 1) {
+    state = model.step(state, sampler({ t: i * dt, modelId: model.id, params }), dt, params);
+    history.push(state);
+  }
+  return { final: state, history, notes: model.outputs(state, params).notes ?? {} };
+};
+
+describe("articulation helpers", () => {
+  it("kingpin load is shared between the tractor axles", () => {
+    const tractor = createVehicleParams({ m: 8000, Iz: 30000, a: 1.2, b: 2.6, Cf: 3e5, Cr: 6e5, mu: 0.9 });
+    const loads = computeCombinationLoads(tractor, { m: 20000, Iz: 3e5, hitchToCg: 6, hitchToAxle: 11 }, 2.3);
+    const total = (8000 + 20000) * tractor.g;
+    expect(loads.front + loads.rear + loads.trailer).toBeCloseTo(total, 6);
+    expect(loads.kingpin).toBeCloseTo(20000 * tractor.g * (5 / 11), 6);
+    expect(loads.front).toBeGreaterThan((8000 * tractor.g * 2.6) / 3.8);
+  });
+
+  it("sway tracker flags growing swings and ignores decaying ones", () => {
+    const swings = (amplitudes: number[]) => {
+      let tracker = createSwayTracker();
+      let sign = 1;
+      for (const amplitude of amplitudes) {
+        tracker = updateSwayTracker(tracker, sign * amplitude, sign, -sign, deg(0.5));
+        sign = -sign;
+      }
+      return tracker;
+    };
+    expect(isTrailerSway(swings([0.05, 0.05, 0.05, 0.05]))).toBe(true);
+    expect(isTrailerSway(swings([0.05, 0.03, 0.015, 0.01]))).toBe(false);
+  });
+});
+
+describe("tractor-semitrailer model", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  it("settles to a common yaw rate with a steady hitch angle in a gentle turn", () => {
+    const { final, notes } = runScenario("step-steer", { scenario: { deltaDeg: 1, tStep: 0.5 } }, 20);
+    expect(final.r).toBeGreaterThan(0);
+    expect(final.rTrailer).toBeCloseTo(final.r, 4);
+    expect(final.hitchAngle).toBeGreaterThan(0);
+    expect(notes.jackKnife).toBe(0);
+    expect(notes.trailerSway).toBe(0);
+  });
+
+  it("lane change decays without sway on the default combination", () => {
+    const { final, history } = runScenario("lane-change", {}, 12);
+    const peak = Math.max(...history.map((state) => Math.abs(state.hitchAngle)));
+    expect(peak).toBeGreaterThan(deg(1));
+    expect(Math.abs(final.hitchAngle)).toBeLessThan(deg(0.1));
+    expect(history.some((state) => state.trailerSway > 0)).toBe(false);
+    expect(history.some((state) => state.jackKnife > 0)).toBe(false);
+  });
+
+  it("flags sway when the trailer CG sits near its axle at speed", () => {
+    const { history } = runScenario("lane-change", { hitchToCg: 10.5, IzTrailer: 600000, v: 30 }, 12);
+    expect(history.some((state) => state.trailerSway > 0)).toBe(true);
+  });
+
+  it("latches jack-knife once the hitch angle passes the threshold", () => {
+    const { final, history } = runScenario(
+      "step-steer",
+      // A drive axle that lets go before the trailer axle lets the trailer push the tractor round.
+      { mu: 0.5, Cr: 200000, jackKnifeAngleDeg: 15, scenario: { deltaDeg: 5, tStep: 0.5 } },
+      10
+    );
+    const index = history.findIndex((state) => state.jackKnife > 0);
+    expect(index).toBeGreaterThan(0);
+    expect(Math.abs(history[index].hitchAngle)).toBeGreaterThanOrEqual(deg(15));
+    expect(final.jackKnife).toBe(1);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import { TwinTrack } from "@/lib/models/twintrack";
+import { computeWheelLoads } from "@/lib/vehicle/twinTrack";
+import { createVehicleParams } from "@/lib/vehicle/params";
+import type { SimInputs } from "@/lib/sim/core";
+
+const run = (inputs: SimInputs, duration: number) => {
+  const params = { ...TwinTrack.defaults, processNoise: false } as any;
+  let state = TwinTrack.init(params);
+  for (let i = 0; i < Math.round(duration / 0.01); i += 1) {
+    state = TwinTrack.step(state, inputs, 0.01, params);
+  }
+  return TwinTrack.outputs(state, params).notes ?? {};
+};
+
+describe("twin-track wheel loads", () => {
+  const vehicle = createVehicleParams({ m: 1500, Iz: 2250, a: 1.2, b: 1.6, Cf: 80000, Cr: 80000 });
+
+  it("conserves total weight under load transfer", () => {
+    const loads = computeWheelLoads(vehicle, { ax: -4, ay: 3 });
+    const total = loads.frontLeft + loads.frontRight + loads.rearLeft + loads.rearRight;
+    expect(total).toBeCloseTo(vehicle.m * vehicle.g, 6);
+    expect(loads.frontLeft + loads.frontRight).toBeGreaterThan(loads.rearLeft + loads.rearRight);
+    expect(loads.frontRight).toBeGreaterThan(loads.frontLeft);
+  });
+});
+
+describe("twintrack model", () => {
+  it("loads the outside wheels in a left turn", () => {
+    const notes = run({ steer: 0.03 }, 3);
+    expect(notes.FzFrontRight).toBeGreaterThan(notes.FzFrontLeft);
+    expect(notes.FzRearRight).toBeGreaterThan(notes.FzRearLeft);
+    expect(notes.FyFrontRight).toBeGreaterThan(notes.FyFrontLeft);
+  });
+
+  it("shifts load forward under braking", () => {
+    const notes = run({ steer: 0, brake: 0.6 }, 1);
+    expect(notes.FzFrontLeft).toBeGreaterThan(notes.FzRearLeft);
+    expect(notes.FxFrontLeft).toBeLessThan(0);
+    expect(notes.utilFrontLeft).toBeGreaterThan(0);
+  });
+
+  it("tracks straight with zero steer", () => {
+    const notes = run({ steer: 0 }, 2);
+    expect(Math.abs(notes.FyFrontLeft)).toBeLessThan(1e-6);
+    expect(notes.FzFrontLeft).toBeCloseTo(notes.FzFrontRight, 6);
+  });
+});
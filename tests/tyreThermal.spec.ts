@@ -0,0 +1,136 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { createVehicleParameters, createVehicleState, stepBicycleModel } from "@/lib/physics";
+import { bootModels } from "@/lib/models";
+import { getModel } from "@/lib/sim/registry";
+import {
+  defaultSandboxState,
+  parseStateFromSearchParams,
+  serializeStateToSearchParams,
+} from "@/lib/stateSchema";
+import {
+  DEFAULT_TYRE_THERMAL_PARAMS,
+  slipPower,
+  stepAxleThermal,
+  thermalGripFactor,
+} from "@/lib/vehicle/tyreThermal";
+
+const params = DEFAULT_TYRE_THERMAL_PARAMS;
+
+describe("tyre thermal model", () => {
+  it("grip peaks at the optimal temperature and falls off either side", () => {
+    expect(thermalGripFactor({ temperature: params.optimalTemp, wear: 0 })).toBe(1);
+    const cold = thermalGripFactor({ temperature: params.ambientTemp, wear: 0 });
+    const hot = thermalGripFactor({ temperature: params.optimalTemp + params.tempWindow, wear: 0 });
+    expect(cold).toBeLessThan(1);
+    expect(hot).toBeCloseTo(1 - params.gripDropOff, 9);
+    expect(thermalGripFactor({ temperature: 1000, wear: 0 })).toBe(params.minGripFactor);
+    expect(thermalGripFactor({ temperature: params.optimalTemp, wear: 1 })).toBeCloseTo(1 - params.wearGripLoss, 9);
+  });
+
+  it("settles where slip heating balances speed-dependent cooling", () => {
+    const power = 10000;
+    const speed = 25;
+    let axle = { temperature: params.ambientTemp, wear: 0 };
+    for (let i = 0; i < 20000; i += 1) {
+      axle = stepAxleThermal(axle, power, speed, 0.05);
+    }
+    const cooling = params.coolingBase + params.coolingPerSpeed * speed;
+    expect(axle.temperature).toBeCloseTo(params.ambientTemp + (params.heatShare * power) / cooling, 1);
+    expect(axle.wear).toBeCloseTo((power * 1000) / params.wearEnergy, 9);
+    // Faster running cools harder.
+    const fast = stepAxleThermal({ temperature: 80, wear: 0 }, 0, 40, 1);
+    const slow = stepAxleThermal({ temperature: 80, wear: 0 }, 0, 10, 1);
+    expect(fast.temperature).toBeLessThan(slow.temperature);
+    expect(slipPower(-2000, -0.1, 20)).toBeCloseTo(2000 * 20 * Math.tan(0.1), 9);
+  });
+});
+
+describe("lin2dof with tyre temperature", () => {
+  beforeAll(() => {
+    bootModels();
+  });
+
+  const corner = (overrides: Record<string, unknown>, duration: number) => {
+    const model = getModel("lin2dof")!;
+    const modelParams = { ...model.defaults, useFrictionClamp: true, ...overrides } as any;
+    let state = model.init(modelParams);
+    const steps = Math.round(duration / modelParams.dt);
+    for (let i = 0; i < steps; i += 1) {
+      state = model.step(state, { steer: 0.04 }, modelParams.dt, modelParams);
+    }
+    return model.outputs(state, modelParams);
+  };
+
+  it("heats the tyres in a sustained corner and reports the effective mu", () => {
+    const off = corner({}, 20);
+    expect(off.notes!.tyreTempFront).toBe(20);
+    expect(off.notes!.muFront).toBe(1);
+
+    const on = corner({ tyreThermal: true }, 20);
+    expect(on.notes!.tyreTempFront).toBeGreaterThan(params.ambientTemp + 2);
+    expect(on.notes!.tyreTempRear).toBeGreaterThan(params.ambientTemp + 2);
+    expect(on.notes!.tyreWearFront).toBeGreaterThan(0);
+    const expectedMu = thermalGripFactor({ temperature: on.notes!.tyreTempFront, wear: on.notes!.tyreWearFront });
+    expect(on.notes!.muFront).toBeCloseTo(expectedMu, 2);
+    expect(on.notes!.muFront).toBeLessThan(1);
+  });
+
+  it("feeds a hot front tyre back into the response with the default clamp off", () => {
+    const model = getModel("lin2dof")!;
+    const modelParams = { ...model.defaults, tyreThermal: true } as any;
+    expect(modelParams.useFrictionClamp).toBe(false);
+    const settle = (frontTemp: number) => {
+      let state = { ...model.init(modelParams), tyreTempFront: frontTemp, tyreTempRear: params.optimalTemp };
+      for (let i = 0; i < 100; i += 1) {
+        state = model.step(state, { steer: 0.02 }, modelParams.dt, modelParams);
+      }
+      return model.outputs(state, modelParams);
+    };
+    const optimal = settle(params.optimalTemp);
+    const hot = settle(params.optimalTemp + 2 * params.tempWindow);
+    // Less front grip than rear: the car understeers and yaws less for the same steer.
+    expect(hot.r!).toBeLessThan(optimal.r! * 0.95);
+    expect(hot.r!).toBeGreaterThan(0);
+  });
+});
+
+describe("sandbox tyre temperature", () => {
+  it("warms the wheels only when enabled", () => {
+    const run = (tyreThermal: boolean) => {
+      const vehicleParams = createVehicleParameters({ ...defaultSandboxState, tyreThermal });
+      const state = createVehicleState();
+      let telemetry;
+      for (let i = 0; i < 600; i += 1) {
+        const result = stepBicycleModel(state, { steeringAngle: 0.05, speed: 20 }, vehicleParams, 1 / 60);
+        Object.assign(state, result.state);
+        telemetry = result.telemetry;
+      }
+      return telemetry!;
+    };
+    const cold = run(false);
+    expect(cold.wheels.frontLeft.temperature).toBe(params.ambientTemp);
+    expect(cold.frontMu).toBe(defaultSandboxState.tyreGrip);
+
+    const warm = run(true);
+    expect(warm.wheels.frontLeft.temperature).toBeGreaterThan(params.ambientTemp + 1);
+    expect(warm.wheels.frontLeft.temperature).toBe(warm.frontTyreTemp);
+    expect(warm.frontMu).toBeLessThan(defaultSandboxState.tyreGrip);
+  });
+});
+
+describe("sandbox share link flags", () => {
+  const roundTrip = (state: typeof defaultSandboxState) =>
+    parseStateFromSearchParams(Object.fromEntries(serializeStateToSearchParams(state)));
+
+  it("keeps tyre thermal physics on or off through a share link", () => {
+    expect(roundTrip({ ...defaultSandboxState, tyreThermal: true }).tyreThermal).toBe(true);
+    expect(roundTrip({ ...defaultSandboxState, tyreThermal: false }).tyreThermal).toBe(false);
+    expect(parseStateFromSearchParams({ tyreThermal: "false" }).tyreThermal).toBe(false);
+    expect(parseStateFromSearchParams({ tyreThermal: "1" }).tyreThermal).toBe(true);
+  });
+
+  it("reads an explicit false for flags that default to true", () => {
+    expect(roundTrip({ ...defaultSandboxState, showTrack: false }).showTrack).toBe(false);
+  });
+});
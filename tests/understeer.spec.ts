@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+
+import { predictLimit } from "@/lib/theory/frictionEnvelope";
+import { predictSkidpad } from "@/lib/theory/skidpad";
+import { createVehicleParams } from "@/lib/vehicle/params";
+import { computeUndersteerGradient, steadyStateSteerAngle } from "@/lib/vehicle/understeer";
+
+// Front-heavy car on equal axle stiffness: K = m(b − a)/(L·C) = 1500·0.4/(2.8·80000) rad/(m/s²).
+const vehicle = createVehicleParams({ m: 1500, Iz: 2250, a: 1.2, b: 1.6, Cf: 80000, Cr: 80000, mu: 1 });
+const K = (1500 * 0.4) / (2.8 * 80000);
+
+describe("understeer gradient", () => {
+  it("is the load-over-stiffness difference in rad per m/s²", () => {
+    expect(computeUndersteerGradient(vehicle)).toBeCloseTo(K, 12);
+  });
+
+  it("gives the steady-state steer δ = L/R + K·ay", () => {
+    const speed = 20;
+    const radius = 100;
+    const ay = (speed * speed) / radius;
+    expect(steadyStateSteerAngle(speed, radius, vehicle)).toBeCloseTo(vehicle.L / radius + K * ay, 12);
+    expect(predictSkidpad(speed, radius, vehicle).steadyStateSteer).toBeCloseTo(0.028 + K * 4, 12);
+  });
+
+  it("uses the same law for the steer angle at the friction limit", () => {
+    const speed = 25;
+    const { ayMax, steerAtLimit } = predictLimit(speed, 1, vehicle);
+    expect(steerAtLimit).toBeCloseTo((vehicle.L * ayMax) / (speed * speed) + K * ayMax, 12);
+  });
+});